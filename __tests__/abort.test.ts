@@ -0,0 +1,170 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  VisualpingAbortError,
+  VisualpingClient,
+  VisualpingTimeoutError,
+} from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function hangUntilAborted(init?: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener("abort", () =>
+      reject(new DOMException("aborted", "AbortError"))
+    );
+  });
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("VisualpingClient cancellation", () => {
+  test("signal aborts an in-flight call without retrying", async () => {
+    let n = 0;
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async (_url: string, init?: RequestInit) => {
+          n += 1;
+          return hangUntilAborted(init);
+        }) as typeof fetch,
+      }
+    );
+
+    const controller = new AbortController();
+    const pending = client.getJob(1, undefined, { signal: controller.signal });
+    await sleep(5);
+    controller.abort();
+
+    await assert.rejects(pending, (err: unknown) => {
+      assert.ok(err instanceof VisualpingAbortError);
+      assert.equal(err.endpoint, "https://job.api.visualping.io/v2/jobs/1");
+      return true;
+    });
+    assert.equal(n, 1);
+  });
+
+  test("signal interrupts the retry backoff", async () => {
+    let n = 0;
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          n += 1;
+          return json({ message: "down" }, 503);
+        }) as typeof fetch,
+        retry: { baseDelayMs: 10_000, jitter: 0 },
+      }
+    );
+
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    const pending = client.getJob(1, undefined, { signal: controller.signal });
+    await sleep(20);
+    controller.abort();
+
+    await assert.rejects(pending, VisualpingAbortError);
+    assert.equal(n, 1);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  test("per-call timeoutMs overrides the client timeout", async () => {
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        timeoutMs: 60_000,
+        retry: false,
+        fetch: ((_url: string, init?: RequestInit) =>
+          hangUntilAborted(init)) as typeof fetch,
+      }
+    );
+
+    await assert.rejects(
+      () => client.describeUser({ timeoutMs: 10 }),
+      (err: unknown) =>
+        err instanceof VisualpingTimeoutError && err.timeoutMs === 10
+    );
+  });
+
+  test("aborting stops getAllJobs pagination", async () => {
+    const controller = new AbortController();
+    let pages = 0;
+
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          pages += 1;
+          if (pages === 2) controller.abort();
+          return json({
+            jobs: [{ id: pages }],
+            totalPages: 10,
+            totalJobs: 10,
+            pageIndex: pages - 1,
+            pageSize: 1,
+            activeJobCount: 10,
+          });
+        }) as typeof fetch,
+      }
+    );
+
+    await assert.rejects(
+      () => client.getAllJobs({ pageSize: 1 }, { signal: controller.signal }),
+      VisualpingAbortError
+    );
+    assert.equal(pages, 2);
+  });
+
+  test("aborting leaves the rate limiter queue", async () => {
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        rateLimit: { maxConcurrency: 1 },
+        fetch: (async (_url: string, init?: RequestInit) => {
+          await sleep(30);
+          return json({ id: "1" });
+        }) as typeof fetch,
+      }
+    );
+
+    const first = client.getJob(1);
+    const controller = new AbortController();
+    const queued = client.getJob(2, undefined, { signal: controller.signal });
+
+    await sleep(5);
+    assert.equal(client.getRateLimitStats().client.queued, 1);
+    controller.abort();
+
+    await assert.rejects(queued, VisualpingAbortError);
+    assert.equal(client.getRateLimitStats().client.queued, 0);
+    await first;
+  });
+
+  test("dispose aborts in-flight calls and rejects new ones", async () => {
+    let n = 0;
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async (_url: string, init?: RequestInit) => {
+          n += 1;
+          return hangUntilAborted(init);
+        }) as typeof fetch,
+      }
+    );
+
+    const inFlight = [client.getJob(1), client.describeUser()];
+    await sleep(5);
+    client.dispose();
+
+    for (const call of inFlight) {
+      await assert.rejects(call, VisualpingAbortError);
+    }
+    await assert.rejects(() => client.getJob(2), VisualpingAbortError);
+    assert.equal(n, 2);
+  });
+});
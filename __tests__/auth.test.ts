@@ -1,7 +1,11 @@
 import { strict as assert } from "node:assert";
 import test, { describe } from "node:test";
 import { ID_TOKEN_REFRESH_MS, REFRESH_TOKEN_REFRESH_MS } from "../src/constants";
-import { VisualpingClient } from "../src/index";
+import {
+  VisualpingApiError,
+  VisualpingClient,
+  VisualpingCredentialsError,
+} from "../src/index";
 
 type FetchCall = { url: string; init?: RequestInit };
 
@@ -11,9 +15,17 @@ function headersOf(init?: RequestInit): Headers {
 
 const originalFetch = globalThis.fetch;
 
-function json(res: unknown) {
+function jwt(expiresAt: number): string {
+  const encode = (o: unknown) =>
+    Buffer.from(JSON.stringify(o)).toString("base64url");
+  return `${encode({ alg: "none" })}.${encode({
+    exp: Math.floor(expiresAt / 1000),
+  })}.sig`;
+}
+
+function json(res: unknown, status = 200) {
   return new Response(JSON.stringify(res), {
-    status: 200,
+    status,
     headers: { "content-type": "application/json" },
   });
 }
@@ -215,3 +227,198 @@ describe("VisualpingClient authentication", () => {
     }
   });
 });
+
+describe("VisualpingClient credentials", () => {
+  test("refresh token credentials => REFRESH_TOKEN flow, no password", async () => {
+    const calls: FetchCall[] = [];
+
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return json({ id_token: "id_from_refresh" });
+    }) as typeof fetch;
+
+    try {
+      const client = new VisualpingClient({ refreshToken: "given_rt" });
+      await client["ensureAuthenticated"]();
+
+      assert.equal(calls.length, 1);
+      const body = JSON.parse(String(calls[0].init?.body)) as {
+        method: string;
+        refreshToken: string;
+      };
+      assert.equal(body.method, "REFRESH_TOKEN");
+      assert.equal(body.refreshToken, "given_rt");
+      assert.equal(client["idToken"], "id_from_refresh");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("static id token => no auth call", async () => {
+    const calls: FetchCall[] = [];
+
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return json({ ok: true });
+    }) as typeof fetch;
+
+    try {
+      const client = new VisualpingClient({ idToken: "static_id" });
+      await client.describeUser();
+
+      assert.equal(calls.length, 1);
+      assert.equal(
+        headersOf(calls[0].init).get("Authorization"),
+        "Bearer static_id"
+      );
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("credential provider is resolved lazily", async () => {
+    let resolved = 0;
+
+    globalThis.fetch = (async () =>
+      json({ id_token: "id_from_refresh" })) as typeof fetch;
+
+    try {
+      const client = new VisualpingClient(async () => {
+        resolved += 1;
+        return { refreshToken: "rt_from_provider" };
+      });
+      assert.equal(resolved, 0);
+
+      await client["ensureAuthenticated"]();
+      await client["ensureAuthenticated"]();
+
+      assert.equal(resolved, 1);
+      assert.equal(client["refreshToken"], "rt_from_provider");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("rejected refresh token does not fall back to password unless allowed", async () => {
+    const calls: FetchCall[] = [];
+
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      const body = JSON.parse(String(init?.body)) as { method: string };
+      if (body.method === "REFRESH_TOKEN") {
+        return json({ message: "invalid refresh token" }, 400);
+      }
+      return json({ id_token: "id_pw", refresh_token: "rt_pw" });
+    }) as typeof fetch;
+
+    try {
+      const denied = new VisualpingClient({
+        refreshToken: "revoked",
+        email: "e",
+        password: "p",
+      });
+      // a config problem, not an API rejection - so it is not replayed
+      await assert.rejects(
+        () => denied.describeUser(),
+        (err) =>
+          err instanceof VisualpingCredentialsError &&
+          !(err instanceof VisualpingApiError)
+      );
+      assert.equal(calls.length, 1);
+
+      const allowed = new VisualpingClient({
+        refreshToken: "revoked",
+        email: "e",
+        password: "p",
+        allowPasswordLogin: true,
+      });
+      await allowed["ensureAuthenticated"]();
+      assert.equal(calls.length, 3);
+      assert.equal(allowed["idToken"], "id_pw");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe("VisualpingClient token expiry", () => {
+  test("JWT id token inside the refresh margin => REFRESH_TOKEN flow", async () => {
+    const calls: FetchCall[] = [];
+
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return json({ id_token: "id_from_refresh" });
+    }) as typeof fetch;
+
+    try {
+      const client = new VisualpingClient("e", "p", {
+        tokenRefreshMarginMs: 10 * 60 * 1000,
+      });
+
+      client["refreshToken"] = "rt";
+      client["lastRefreshTokenRefresh"] = new Date();
+      // issued just now, but expires within the 10 minute margin
+      client["idToken"] = jwt(Date.now() + 5 * 60 * 1000);
+      client["lastIdTokenRefresh"] = new Date();
+
+      await client["ensureAuthenticated"]();
+
+      assert.equal(calls.length, 1);
+      assert.equal(client["idToken"], "id_from_refresh");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("JWT id token older than the fixed TTL but not expired => no auth call", async () => {
+    const calls: FetchCall[] = [];
+
+    globalThis.fetch = (async (url: string) => {
+      calls.push({ url });
+      return new Response("ok");
+    }) as typeof fetch;
+
+    try {
+      const client = new VisualpingClient("e", "p");
+
+      client["refreshToken"] = "rt";
+      client["lastRefreshTokenRefresh"] = new Date();
+      client["idToken"] = jwt(Date.now() + 60 * 60 * 1000);
+      client["lastIdTokenRefresh"] = new Date(
+        Date.now() - ID_TOKEN_REFRESH_MS - 1
+      );
+
+      await client["ensureAuthenticated"]();
+
+      assert.equal(calls.length, 0);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("expired JWT refresh token => PASSWORD flow", async () => {
+    const calls: FetchCall[] = [];
+
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return json({ id_token: "id_pw", refresh_token: "rt_pw" });
+    }) as typeof fetch;
+
+    try {
+      const client = new VisualpingClient("e", "p");
+
+      client["refreshToken"] = jwt(Date.now() - 1000);
+      client["lastRefreshTokenRefresh"] = new Date();
+      client["idToken"] = null;
+
+      await client["ensureAuthenticated"]();
+
+      const body = JSON.parse(String(calls[0].init?.body)) as {
+        method: string;
+      };
+      assert.equal(body.method, "PASSWORD");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
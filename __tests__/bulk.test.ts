@@ -0,0 +1,160 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import { VisualpingAbortError, VisualpingClient, VisualpingError } from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const updated = {
+  updates: "none",
+  estimatedConsumption: { daily: 1, weekly: 7, monthly: 30 },
+};
+
+/**
+ * Client whose `/jobs/:id` calls fail for ids in `failing`
+ */
+function bulkClient(failing: number[] = [], delayMs = 5) {
+  const calls: Array<{ method: string; id: number; body: any }> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const id = Number(new URL(url).pathname.split("/").pop());
+    const method = init?.method ?? "GET";
+    calls.push({ method, id, body: init?.body && JSON.parse(String(init.body)) });
+
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, delayMs);
+      init?.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(init.signal?.reason);
+      });
+    }).finally(() => (inFlight -= 1));
+
+    if (failing.includes(id)) return json({ message: "not found" }, 404);
+    return method === "DELETE"
+      ? json({ changed: true, deletedJobIds: [id] })
+      : json(updated);
+  };
+
+  const client = new VisualpingClient(
+    { idToken: "id" },
+    { fetch: fetchImpl as typeof fetch, retry: false }
+  );
+  return { client, calls, maxInFlight: () => maxInFlight };
+}
+
+describe("bulk job operations", () => {
+  test("pauseJobs continues past failures and reports every job", async () => {
+    const { client, calls } = bulkClient([2]);
+
+    const report = await client.pauseJobs([1, 2, 3]);
+
+    assert.equal(calls.length, 3);
+    assert.ok(calls.every((c) => c.method === "PUT" && c.body.active === false));
+    assert.deepEqual(
+      report.results.map((r) => [r.jobId, r.status]),
+      [
+        [1, "succeeded"],
+        [2, "failed"],
+        [3, "succeeded"],
+      ]
+    );
+    assert.equal(report.succeeded, 2);
+    assert.equal(report.failed, 1);
+    assert.deepEqual(report.estimatedConsumption, {
+      daily: 2,
+      weekly: 14,
+      monthly: 60,
+    });
+  });
+
+  test("respects the concurrency limit", async () => {
+    const { client, maxInFlight } = bulkClient();
+
+    const report = await client.resumeJobs(
+      Array.from({ length: 10 }, (_, i) => i + 1),
+      undefined,
+      { concurrency: 3 }
+    );
+
+    assert.equal(report.succeeded, 10);
+    assert.equal(maxInFlight(), 3);
+  });
+
+  test("rejects a concurrency that is not a positive integer", async () => {
+    const { client, calls } = bulkClient();
+
+    for (const concurrency of [NaN, 0, 2.5]) {
+      await assert.rejects(
+        client.pauseJobs([1, 2], undefined, { concurrency }),
+        (err: any) => err instanceof VisualpingError && /concurrency/.test(err.message)
+      );
+    }
+    assert.equal(calls.length, 0);
+  });
+
+  test("updateJobs takes a patch per id or a function", async () => {
+    const { client, calls } = bulkClient();
+
+    await client.updateJobs({ 1: { interval: "60" }, 2: { interval: "30" } });
+    assert.deepEqual(
+      calls.map((c) => [c.id, c.body.interval]),
+      [
+        [1, "60"],
+        [2, "30"],
+      ]
+    );
+
+    const report = await client.updateJobs([3, 4, 3], (id) =>
+      id === 4 ? null : { description: `job ${id}` }
+    );
+    assert.deepEqual(
+      report.results.map((r) => r.status),
+      ["succeeded", "skipped", "skipped"]
+    );
+  });
+
+  test("stopOnError skips the remaining jobs", async () => {
+    const { client } = bulkClient([1]);
+
+    const report = await client.deleteJobs([1, 2, 3], undefined, {
+      concurrency: 1,
+      stopOnError: true,
+    });
+
+    assert.deepEqual(
+      report.results.map((r) => r.status),
+      ["failed", "skipped", "skipped"]
+    );
+  });
+
+  test("aborting skips jobs not started yet", async () => {
+    const controller = new AbortController();
+    const { client, calls } = bulkClient([], 20);
+
+    const pending = client.deleteJobs([1, 2, 3, 4], undefined, {
+      concurrency: 2,
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 5);
+    const report = await pending;
+
+    assert.equal(calls.length, 2);
+    assert.ok(
+      report.results
+        .slice(0, 2)
+        .every((r) => r.status === "failed" && r.error instanceof VisualpingAbortError)
+    );
+    assert.deepEqual(
+      report.results.slice(2).map((r) => r.status === "skipped" && r.reason),
+      ["aborted", "aborted"]
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { strict as assert } from "node:assert";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { describe } from "node:test";
+import { ExitCode } from "../src/cli/exitCodes";
+import { runCli } from "../src/cli/run";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const emptyDir = mkdtempSync(join(tmpdir(), "visualping-cli-"));
+
+const jobs = [
+  { id: 1, url: "https://example.com/a", description: "Pricing", mode: "TEXT", isActive: true, interval: 60, workspaceId: 7 },
+  { id: 2, url: "https://example.com/b", description: "Home,\npage", mode: "VISUAL", isActive: false, interval: 1440, workspaceId: 7 },
+];
+
+/**
+ * Run the CLI against a fake API, capturing output and requests
+ */
+async function cli(argv: string[], env: Record<string, string> = {}) {
+  const requests: Array<{ method: string; url: URL; body: any; headers: any }> = [];
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const parsed = new URL(url);
+    const method = init?.method ?? "GET";
+    requests.push({
+      method,
+      url: parsed,
+      body: init?.body && JSON.parse(String(init.body)),
+      headers: init?.headers,
+    });
+
+    if (parsed.pathname.endsWith("/describe-user")) {
+      return json({ userId: 5, emailAddress: "ops@example.com", workspaces: [{ id: 7, name: "Ops", role: "ADMIN" }] });
+    }
+    if (parsed.pathname.endsWith("/jobs/404")) return json({ message: "not found" }, 404);
+    if (parsed.pathname.endsWith("/jobs")) {
+      if (method === "POST") return json({ id: "99", jobid: "99" });
+      return json({ totalJobs: 2, activeJobCount: 1, pageSize: 100, totalPages: 1, pageIndex: 0, jobs });
+    }
+    if (method === "DELETE") return json({ changed: true, deletedJobIds: [] });
+    return json({ updates: "none", estimatedConsumption: { daily: 1, weekly: 7, monthly: 30 } });
+  };
+
+  const code = await runCli(argv, {
+    env: { VISUALPING_ID_TOKEN: "id", XDG_CONFIG_HOME: emptyDir, ...env },
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+    clientOptions: { fetch: fetchImpl as typeof fetch, retry: false },
+  });
+  return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n"), requests };
+}
+
+describe("visualping CLI", () => {
+  test("whoami prints a table", async () => {
+    const { code, stdout } = await cli(["whoami"]);
+
+    assert.equal(code, ExitCode.OK);
+    assert.match(stdout, /^FIELD +VALUE/);
+    assert.match(stdout, /email +ops@example\.com/);
+  });
+
+  test("jobs list maps filter flags and supports json and csv", async () => {
+    const { code, stdout, requests } = await cli([
+      "jobs", "list", "-w", "7", "--mode-filter", "text,visual", "--active", "1",
+      "--label", "3", "--label", "4", "--search", "pricing", "-o", "json",
+    ]);
+
+    assert.equal(code, ExitCode.OK);
+    assert.deepEqual(JSON.parse(stdout), jobs);
+    const params = requests[0].url.searchParams;
+    assert.equal(params.get("workspaceId"), "7");
+    assert.equal(params.get("fullTextSearchFilter"), "pricing");
+    assert.match(requests[0].url.search, /modeFilter=TEXT/);
+    assert.match(requests[0].url.search, /labelsFilter=3/);
+
+    const csv = await cli(["jobs", "list", "-o", "csv"]);
+    assert.equal(
+      csv.stdout.split("\r\n")[2],
+      '2,7,VISUAL,false,1440,"Home,\npage",https://example.com/b'
+    );
+  });
+
+  test("jobs create builds the payload from flags", async () => {
+    const { code, stdout, requests } = await cli([
+      "jobs", "create", "--url", "https://example.com/new", "--mode", "visual",
+      "--interval", "1h", "--trigger", "0.5", "--paused", "-w", "7",
+    ]);
+
+    assert.equal(code, ExitCode.OK);
+    assert.match(stdout, /99/);
+    assert.deepEqual(requests[0].body, {
+      active: false,
+      interval: "60",
+      trigger: "0.5",
+      target_device: "1",
+      wait_time: 0,
+      url: "https://example.com/new",
+      mode: "VISUAL",
+      workspaceId: 7,
+    });
+  });
+
+  test("jobs update reads a YAML file and the config file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "visualping-cli-"));
+    writeFileSync(join(dir, "patch.yaml"), 'description: "From file"\ninterval: "30"\n');
+    writeFileSync(join(dir, "config.json"), JSON.stringify({ idToken: "from-file", workspaceId: 7, organisationId: 8 }));
+
+    const { code, requests } = await cli(
+      ["jobs", "update", "12", "--file", join(dir, "patch.yaml"), "--interval", "1d", "--config", join(dir, "config.json")],
+      { VISUALPING_ID_TOKEN: "" }
+    );
+    assert.equal(new Headers(requests[0].headers).get("authorization"), "Bearer from-file");
+
+    assert.equal(code, ExitCode.OK);
+    const update = requests.find((r) => r.method === "PUT");
+    assert.equal(update?.url.pathname, "/v2/jobs/12");
+    assert.deepEqual(update?.body, {
+      description: "From file",
+      interval: "1440",
+      workspaceId: 7,
+      organisationId: 8,
+    });
+  });
+
+  test("jobs update --paused deactivates the job", async () => {
+    const { code, requests } = await cli(["jobs", "update", "12", "--paused", "-w", "7"]);
+
+    assert.equal(code, ExitCode.OK);
+    assert.deepEqual(requests.find((r) => r.method === "PUT")?.body, {
+      active: false,
+      workspaceId: 7,
+    });
+  });
+
+  test("pause reports every job; delete needs --yes", async () => {
+    const paused = await cli(["jobs", "pause", "1", "404", "-o", "json"]);
+    assert.equal(paused.code, ExitCode.NOT_FOUND);
+    assert.deepEqual(
+      JSON.parse(paused.stdout).results.map((r: any) => r.status),
+      ["succeeded", "failed"]
+    );
+
+    const refused = await cli(["jobs", "delete", "1"]);
+    assert.equal(refused.code, ExitCode.USAGE);
+    assert.equal(refused.requests.length, 0);
+
+    const deleted = await cli(["jobs", "delete", "1", "2", "--yes"]);
+    assert.equal(deleted.code, ExitCode.OK);
+    assert.equal(deleted.requests.filter((r) => r.method === "DELETE").length, 2);
+  });
+
+  test("export writes the backup file", async () => {
+    const out = join(mkdtempSync(join(tmpdir(), "visualping-cli-")), "jobs.csv");
+
+    const { code } = await cli(["export", "--format", "csv", "--out", out, "--search", "nothing"]);
+
+    assert.equal(code, ExitCode.OK);
+    assert.match(readFileSync(out, "utf8"), /^id,url,description/);
+  });
+
+  test("exit codes follow the error type", async () => {
+    assert.equal((await cli(["jobs", "get", "404"])).code, ExitCode.NOT_FOUND);
+    assert.equal((await cli(["nope"])).code, ExitCode.USAGE);
+    assert.equal((await cli(["jobs", "list", "--bogus"])).code, ExitCode.USAGE);
+    assert.equal((await cli(["whoami"], { VISUALPING_ID_TOKEN: "" })).code, ExitCode.USAGE);
+
+    const invalid = await cli(["jobs", "create", "--url", "ftp://example.com"]);
+    assert.equal(invalid.code, ExitCode.VALIDATION);
+    assert.match(invalid.stderr, /url/);
+    assert.equal((await cli(["--help"])).code, ExitCode.OK);
+  });
+
+  test("malformed input is a usage error", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "visualping-cli-"));
+    writeFileSync(join(dir, "patch.json"), "{ not json");
+
+    const badFile = await cli(["jobs", "update", "12", "--file", join(dir, "patch.json")]);
+    assert.equal(badFile.code, ExitCode.USAGE);
+    assert.match(badFile.stderr, /patch\.json is not valid JSON/);
+
+    const badTrigger = await cli(["jobs", "update", "12", "--trigger", "lots"]);
+    assert.equal(badTrigger.code, ExitCode.USAGE);
+    assert.equal(badTrigger.requests.length, 0);
+
+    const badWorkspace = await cli(["whoami"], { VISUALPING_WORKSPACE_ID: "ops" });
+    assert.equal(badWorkspace.code, ExitCode.USAGE);
+    assert.match(badWorkspace.stderr, /VISUALPING_WORKSPACE_ID/);
+  });
+});
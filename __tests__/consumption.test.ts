@@ -0,0 +1,109 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  CreateJobRequest,
+  estimateJobConsumption,
+  FakeVisualpingServer,
+  forecastConsumption,
+  TargetDevice,
+  VisualpingClient,
+  VisualpingError,
+  VisualpingJobValidationError,
+} from "../src/index";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function job(extra: Partial<CreateJobRequest> = {}): CreateJobRequest {
+  return { url: "https://example.com", mode: "TEXT", active: true, interval: "60", trigger: "1", target_device: "1", wait_time: 0, ...extra };
+}
+
+describe("estimateJobConsumption", () => {
+  test("counts checks from the interval", () => {
+    assert.deepEqual(estimateJobConsumption({ interval: "60" }), { daily: 24, weekly: 168, monthly: 720 });
+    assert.deepEqual(estimateJobConsumption({ interval: 60, active: false }), { daily: 0, weekly: 0, monthly: 0 });
+    assert.equal(estimateJobConsumption({ interval: "10080" }).weekly, 1);
+  });
+
+  test("applies the advanced schedule and target device", () => {
+    const office = { start_time: 9, stop_time: 17, active_days: [1, 2, 3, 4, 5] };
+    assert.equal(estimateJobConsumption({ interval: "60", advanced_schedule: office }).weekly, 40);
+    assert.equal(estimateJobConsumption({ interval: "1440", advanced_schedule: office }).weekly, 5);
+
+    const overnight = { start_time: 22, stop_time: 6, active_days: [1, 1, 7] };
+    assert.equal(estimateJobConsumption({ interval: "30", advanced_schedule: overnight }).weekly, 32);
+
+    assert.equal(estimateJobConsumption({ interval: "60", target_device: TargetDevice.ALL }).daily, 72);
+    assert.equal(
+      estimateJobConsumption({ interval: "60", target_device: TargetDevice.MOBILE }, { deviceChecks: { "2": 2 } }).daily,
+      48
+    );
+  });
+
+  test("rejects invalid intervals", () => {
+    assert.throws(() => estimateJobConsumption({ interval: "0" }), VisualpingJobValidationError);
+    assert.throws(() => estimateJobConsumption({ interval: "hourly" }), VisualpingJobValidationError);
+  });
+});
+
+describe("forecastConsumption", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+  const estimate = (monthly: number) => ({
+    index: 0,
+    current: { daily: 0, weekly: 0, monthly: 0 },
+    planned: { daily: monthly / 30, weekly: (monthly / 30) * 7, monthly },
+    delta: { daily: monthly / 30, weekly: (monthly / 30) * 7, monthly },
+  });
+
+  test("projects consumption until the credit renewal", () => {
+    const balances = {
+      credits: 1000,
+      estimatedMonthlyConsumption: 1500,
+      nextCreditRenewalAt: new Date(now + 10 * DAY_MS).toISOString(),
+    };
+
+    const fits = forecastConsumption([estimate(900)], balances, now);
+    assert.equal(fits.daysUntilRenewal, 10);
+    assert.equal(fits.projectedUntilRenewal, 800);
+    assert.equal(fits.remainingAtRenewal, 200);
+    assert.equal(fits.wouldOverConsume, false);
+
+    const tooMuch = forecastConsumption([estimate(900), estimate(900)], balances, now);
+    assert.equal(tooMuch.delta.monthly, 1800);
+    assert.equal(tooMuch.wouldOverConsume, true);
+  });
+
+  test("flags any increase while already over-consuming", () => {
+    const balances = { inOverConsumption: true };
+    assert.equal(forecastConsumption([estimate(30)], balances, now).wouldOverConsume, true);
+    assert.equal(forecastConsumption([estimate(-30)], balances, now).wouldOverConsume, false);
+    assert.equal(forecastConsumption([estimate(30)], undefined, now).wouldOverConsume, false);
+  });
+});
+
+describe("VisualpingClient.estimateConsumption", () => {
+  test("diffs updates against the current job and checks the balance", async () => {
+    const server = new FakeVisualpingServer({
+      workspaces: [{ id: 3, balances: { credits: 500, estimatedMonthlyConsumption: 0, inOverConsumption: false } }],
+      jobs: [job({ interval: "1440", workspaceId: 3 })],
+    });
+    const client = new VisualpingClient("test@example.com", "password", { fetch: server.fetch });
+
+    const forecast = await client.estimateConsumption(
+      [job({ interval: "720", workspaceId: 3 }), { jobId: 1, interval: "60" }]
+    );
+
+    assert.deepEqual(
+      forecast.jobs.map((j) => [j.jobId, j.current.daily, j.planned.daily, j.delta.monthly]),
+      [
+        [undefined, 0, 2, 60],
+        [1, 1, 24, 690],
+      ]
+    );
+    assert.equal(forecast.projectedUntilRenewal, 750);
+    assert.equal(forecast.wouldOverConsume, true);
+    assert.equal(server.jobs[0].interval, "1440");
+
+    await assert.rejects(client.estimateConsumption(job(), { workspaceId: 9 }), VisualpingError);
+    client.dispose();
+  });
+});
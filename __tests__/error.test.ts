@@ -0,0 +1,168 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  createApiError,
+  VisualpingApiError,
+  VisualpingAuthenticationError,
+  VisualpingClient,
+  VisualpingError,
+  VisualpingNetworkError,
+  VisualpingNotFoundError,
+  VisualpingPermissionError,
+  VisualpingRateLimitError,
+  VisualpingServerError,
+  VisualpingTimeoutError,
+  VisualpingValidationError,
+} from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function clientWith(fetchImpl: (url: string, init?: RequestInit) => unknown) {
+  return new VisualpingClient(
+    { idToken: "id" },
+    {
+      fetch: fetchImpl as typeof fetch,
+      retry: { baseDelayMs: 1 },
+    }
+  );
+}
+
+describe("createApiError", () => {
+  test("maps statuses to error classes", () => {
+    const cases: Array<[number, Function]> = [
+      [400, VisualpingValidationError],
+      [401, VisualpingAuthenticationError],
+      [403, VisualpingPermissionError],
+      [404, VisualpingNotFoundError],
+      [422, VisualpingValidationError],
+      [429, VisualpingRateLimitError],
+      [503, VisualpingServerError],
+    ];
+
+    for (const [status, cls] of cases) {
+      const err = createApiError(status, "msg");
+      assert.ok(err instanceof cls, `${status} => ${cls.name}`);
+      assert.ok(err instanceof VisualpingApiError);
+      assert.equal(err.status, status);
+    }
+
+    const other = createApiError(409, "conflict");
+    assert.equal(other.constructor, VisualpingApiError);
+  });
+
+  test("validation errors expose field details from the payload", () => {
+    const err = createApiError(400, "invalid job", {
+      message: "invalid job",
+      errors: [
+        { field: "url", message: "must be at most 2000 characters" },
+        { path: ["notification", "config"], msg: "required" },
+      ],
+    }) as VisualpingValidationError;
+
+    assert.deepEqual(err.fields, [
+      { field: "url", message: "must be at most 2000 characters" },
+      { field: "notification.config", message: "required" },
+    ]);
+  });
+
+  test("rate limit errors expose Retry-After", () => {
+    const err = createApiError(
+      429,
+      "slow down",
+      undefined,
+      new Headers({ "Retry-After": "2" })
+    ) as VisualpingRateLimitError;
+
+    assert.equal(err.retryAfterMs, 2000);
+    assert.equal(err.isRetryable, true);
+  });
+
+  test("isRetryable", () => {
+    assert.equal(createApiError(400, "").isRetryable, false);
+    assert.equal(createApiError(404, "").isRetryable, false);
+    assert.equal(createApiError(500, "").isRetryable, true);
+    assert.equal(createApiError(501, "").isRetryable, false);
+    assert.equal(new VisualpingTimeoutError(10).isRetryable, true);
+    assert.equal(new VisualpingNetworkError(new Error("x")).isRetryable, true);
+  });
+});
+
+describe("VisualpingClient errors", () => {
+  test("carry method, endpoint and attempt", async () => {
+    const client = clientWith(() => json({ message: "no such job" }, 404));
+
+    await assert.rejects(
+      () => client.deleteJob(42),
+      (err: unknown) => {
+        assert.ok(err instanceof VisualpingNotFoundError);
+        assert.equal(err.method, "DELETE");
+        assert.equal(err.endpoint, "https://job.api.visualping.io/v2/jobs/42");
+        assert.equal(err.attempt, 1);
+        assert.match(err.message, /no such job/);
+        return true;
+      }
+    );
+  });
+
+  test("attempt counts retries", async () => {
+    const client = clientWith(() => json({ message: "down" }, 503));
+
+    await assert.rejects(
+      () => client.getJob(1),
+      (err: unknown) => {
+        assert.ok(err instanceof VisualpingServerError);
+        assert.equal(err.attempt, 3);
+        return true;
+      }
+    );
+  });
+
+  test("network failures become VisualpingNetworkError with the cause", async () => {
+    const cause = new TypeError("fetch failed");
+    const client = clientWith(() => {
+      throw cause;
+    });
+
+    await assert.rejects(
+      () => client.getJob(1),
+      (err: unknown) => {
+        assert.ok(err instanceof VisualpingNetworkError);
+        assert.ok(err instanceof VisualpingError);
+        assert.equal(err.cause, cause);
+        assert.equal(err.method, "GET");
+        return true;
+      }
+    );
+  });
+
+  test("client timeouts are not API errors", async () => {
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        timeoutMs: 10,
+        retry: false,
+        fetch: ((_url: string, init?: RequestInit) =>
+          new Promise((_, reject) => {
+            init?.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError"))
+            );
+          })) as typeof fetch,
+      }
+    );
+
+    await assert.rejects(
+      () => client.getJob(1),
+      (err: unknown) => {
+        assert.ok(err instanceof VisualpingTimeoutError);
+        assert.ok(!(err instanceof VisualpingApiError));
+        assert.equal(err.timeoutMs, 10);
+        return true;
+      }
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { strict as assert } from "node:assert";
+import { createConnection } from "node:net";
+import test, { describe } from "node:test";
+import { VisualpingClient } from "../src/client";
+import { VisualpingNotFoundError, VisualpingServerError } from "../src/error";
+import { FakeVisualpingServer } from "../src/fakeServer";
+import { CreateJobRequest } from "../src/types/api/request/createJob";
+import { ClientOptions } from "../src/types/client";
+
+const EMAIL = "test@example.com";
+const PASSWORD = "password";
+
+function job(url: string, extra: Partial<CreateJobRequest> = {}): CreateJobRequest {
+  return { url, mode: "TEXT", active: true, interval: "60", trigger: "1", target_device: "4", wait_time: 0, ...extra };
+}
+
+function connect(server: FakeVisualpingServer, options: ClientOptions = {}) {
+  return new VisualpingClient(EMAIL, PASSWORD, {
+    fetch: server.fetch,
+    validation: "strict",
+    retry: { baseDelayMs: 1, maxDelayMs: 5, jitter: 0 },
+    ...options,
+  });
+}
+
+describe("FakeVisualpingServer", () => {
+  test("creates, reads, updates and deletes jobs", async () => {
+    const server = new FakeVisualpingServer();
+    const client = connect(server);
+
+    const created = await client.createJob(job("https://example.com", { description: "Home" }));
+    assert.equal(server.jobs.length, 1);
+
+    const details = await client.getJob(Number(created.id));
+    assert.equal(details.url, "https://example.com");
+    assert.equal(details.description, "Home");
+
+    const update = await client.updateJob(Number(created.id), { interval: "1440", active: false });
+    assert.equal(update.estimatedConsumption.daily, 1);
+    assert.equal(server.jobs[0].active, false);
+
+    await client.deleteJob(Number(created.id));
+    assert.equal(server.jobs.length, 0);
+    await assert.rejects(client.getJob(Number(created.id)), VisualpingNotFoundError);
+    client.dispose();
+  });
+
+  test("paginates, filters and answers every output mode", async () => {
+    const server = new FakeVisualpingServer({
+      jobs: Array.from({ length: 25 }, (_, i) =>
+        job(`https://example.com/${i}`, { active: i % 5 !== 0, mode: i < 10 ? "VISUAL" : "TEXT" })
+      ),
+    });
+    const client = connect(server);
+
+    const page = await client.getJobs({ pageSize: 10, pageIndex: 2 });
+    assert.equal(page.totalPages, 3);
+    assert.deepEqual(page.jobs.map((j) => j.id), [21, 22, 23, 24, 25]);
+
+    const all = await client.getAllJobs({ pageSize: 7 });
+    assert.equal(all.length, 25);
+
+    const ids = await client.getJobs({ mode: "ids_only", activeFilter: [0] });
+    assert.deepEqual(ids.jobIds, [1, 6, 11, 16, 21]);
+
+    const counts = await client.getJobs({ mode: "counts_only", modeFilter: ["VISUAL"] });
+    assert.equal(counts.totalJobs, 10);
+    assert.equal(counts.activeJobCount, 8);
+
+    const byWs = await client.getJobs({ mode: "ids_and_wsIds", pageSize: 2, sortBy: ["id_desc"] });
+    assert.deepEqual(byWs.jobIdsByWsId, [{ workspaceId: 1, ids: [25, 24] }]);
+    client.dispose();
+  });
+
+  test("scopes jobs and users to workspaces", async () => {
+    const server = new FakeVisualpingServer({
+      workspaces: [{ id: 1 }, { id: 2, name: "Team", role: "VIEWER" }],
+      jobs: [job("https://example.com/a"), job("https://example.com/b", { workspaceId: 2 })],
+    });
+    const client = connect(server);
+
+    const user = await client.describeUser();
+    assert.equal(user.emailAddress, EMAIL);
+    assert.deepEqual(user.workspaces?.map((ws) => [ws.name, ws.counts.activeJobCount]), [
+      ["Workspace 1", 1],
+      ["Team", 1],
+    ]);
+
+    const team = await client.getJobs({ workspaceId: 2 });
+    assert.deepEqual(team.jobs.map((j) => j.url), ["https://example.com/b"]);
+    await assert.rejects(client.getJob(2), VisualpingNotFoundError);
+    assert.equal((await client.getJob(2, 2)).url, "https://example.com/b");
+    client.dispose();
+  });
+
+  test("injects rate limits and server errors", async () => {
+    const server = new FakeVisualpingServer();
+    const client = connect(server);
+
+    server.addJob(job("https://example.com"));
+    server.fail({ status: 429, times: 2, retryAfterS: 0, method: "PUT" });
+    await client.updateJob(1, { description: "Retried" });
+    assert.deepEqual(
+      server.requests.filter((r) => r.method === "PUT").map((r) => r.status),
+      [429, 429, 200]
+    );
+    assert.equal(server.jobs[0].description, "Retried");
+
+    server.fail({ status: 503, times: 10, path: /\/jobs\/1/ });
+    await assert.rejects(client.getJob(1), VisualpingServerError);
+    assert.equal((await client.getJobs()).totalJobs, 1);
+    client.dispose();
+  });
+
+  test("latency can be cut short by the caller", async () => {
+    const server = new FakeVisualpingServer();
+    const client = connect(server, { retry: false });
+    await client.describeUser();
+
+    server.setLatency(5_000);
+    const started = Date.now();
+    await assert.rejects(client.describeUser({ timeoutMs: 50 }));
+    assert.ok(Date.now() - started < 2_000);
+
+    server.setLatency(0);
+    await client.describeUser();
+    client.dispose();
+  });
+
+  test("expired tokens are refreshed, or logged in again", async () => {
+    const server = new FakeVisualpingServer();
+    const client = connect(server);
+    await client.describeUser();
+
+    server.expireTokens();
+    await client.describeUser();
+
+    server.expireTokens({ refreshTokens: true });
+    await client.describeUser();
+
+    const tokenCalls = server.requests
+      .filter((r) => r.path.endsWith("/token"))
+      .map((r) => `${(r.body as any).method} ${r.status}`);
+    assert.deepEqual(tokenCalls, [
+      "PASSWORD 200",
+      "REFRESH_TOKEN 200",
+      "REFRESH_TOKEN 401",
+      "PASSWORD 200",
+    ]);
+    assert.deepEqual(
+      server.requests.filter((r) => r.path.endsWith("/describe-user")).map((r) => r.status),
+      [200, 401, 200, 401, 200]
+    );
+    client.dispose();
+  });
+
+  test("serves over HTTP", async () => {
+    const server = new FakeVisualpingServer({ jobs: [job("https://example.com")] });
+    const baseUrls = await server.listen();
+    const client = new VisualpingClient(EMAIL, PASSWORD, { baseUrls, validation: "strict" });
+
+    try {
+      assert.equal((await client.getJob(1)).url, "https://example.com");
+      await assert.rejects(
+        new VisualpingClient(EMAIL, "wrong", { baseUrls, retry: false }).describeUser()
+      );
+    } finally {
+      client.dispose();
+      await server.close();
+    }
+  });
+
+  test("survives a client aborting its upload over HTTP", async () => {
+    const server = new FakeVisualpingServer({ jobs: [job("https://example.com")] });
+    const baseUrls = await server.listen();
+    const client = new VisualpingClient(EMAIL, PASSWORD, { baseUrls });
+
+    try {
+      const { port } = new URL(baseUrls.api);
+      await new Promise<void>((resolve) => {
+        const socket = createConnection(Number(port), "127.0.0.1", () => {
+          socket.write("POST /v2/jobs HTTP/1.1\r\nHost: localhost\r\nContent-Length: 1000\r\n\r\n{");
+          setTimeout(() => socket.destroy(), 20);
+        });
+        socket.on("close", () => resolve());
+      });
+      await new Promise((r) => setTimeout(r, 20));
+
+      assert.equal((await client.getJob(1)).url, "https://example.com");
+    } finally {
+      client.dispose();
+      await server.close();
+    }
+  });
+});
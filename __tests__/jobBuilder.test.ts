@@ -0,0 +1,97 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  JobBuilder,
+  JobMode,
+  TargetDevice,
+  VisualpingJobValidationError,
+} from "../src/index";
+
+describe("JobBuilder", () => {
+  test("builds a CreateJobRequest with API-shaped fields", () => {
+    const job = JobBuilder.text("https://example.com/pricing")
+      .describe("Pricing")
+      .every("1h")
+      .triggerAt(0.5)
+      .keywords(["price", " discount "], "ADDED")
+      .onDevice(TargetDevice.MOBILE)
+      .build();
+
+    assert.deepEqual(job, {
+      url: "https://example.com/pricing",
+      mode: JobMode.TEXT,
+      description: "Pricing",
+      active: true,
+      interval: "60",
+      trigger: "0.5",
+      keywords: "price,discount",
+      keyword_action: "ADDED",
+      target_device: TargetDevice.MOBILE,
+      wait_time: 0,
+    });
+  });
+
+  test("parses interval units", () => {
+    const interval = (i: Parameters<JobBuilder["every"]>[0]) =>
+      JobBuilder.web("https://example.com").every(i).build().interval;
+
+    assert.equal(interval("15m"), "15");
+    assert.equal(interval("1d"), "1440");
+    assert.equal(interval("1w"), "10080");
+    assert.equal(interval(30), "30");
+    assert.throws(
+      () => interval("soon" as any),
+      VisualpingJobValidationError
+    );
+  });
+
+  test("fills in inactive notification channels", () => {
+    const webhook = {
+      url: "https://hooks.example.com",
+      active: true,
+      notificationType: "webhook" as const,
+      channels: [],
+    };
+    const job = JobBuilder.visual("https://example.com")
+      .notify({ onlyImportantAlerts: true, config: { webhook } })
+      .build();
+
+    assert.equal(job.notification?.enableEmailAlert, true);
+    assert.equal(job.notification?.onlyImportantAlerts, true);
+    assert.deepEqual(job.notification?.config.webhook, webhook);
+    assert.equal(job.notification?.config.slack.active, false);
+    assert.equal(job.notification?.config.slack.notificationType, "slack");
+  });
+
+  test("buildUpdate only contains the fields that were set", () => {
+    const update = JobBuilder.visual("https://example.com").paused().buildUpdate();
+    assert.deepEqual(update, {
+      url: "https://example.com",
+      mode: JobMode.VISUAL,
+      active: false,
+    });
+  });
+
+  test("rejects invalid and mode-incompatible options", () => {
+    // @ts-expect-error keywords are TEXT-only
+    const visual = JobBuilder.visual("https://example.com").keywords(["x"]);
+
+    assert.throws(
+      () => visual.triggerAt(200).build(),
+      (err: any) =>
+        err instanceof VisualpingJobValidationError &&
+        err.violations.map((v) => v.field).join() === "trigger,keywords,keyword_action"
+    );
+
+    assert.throws(
+      () => JobBuilder.text("https://example.com").keywords(["a,b"]).build(),
+      (err: any) => err.violations[0].rule === "format"
+    );
+
+    assert.throws(
+      // @ts-expect-error crop is VISUAL-only
+      () => JobBuilder.text("https://example.com").crop({ x: 0, y: 0, width: 1, height: 1 }).build(),
+      (err: any) => err.violations[0].rule === "visualModeOnly"
+    );
+  });
+});
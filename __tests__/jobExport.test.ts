@@ -0,0 +1,292 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  FullJobDetails,
+  JobExportFormat,
+  jobSpecFromDetails,
+  parseJobs,
+  serializeJobs,
+  VisualpingClient,
+  VisualpingJobValidationError,
+} from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const channel = (notificationType: string, active = false) => ({
+  url: active ? "https://hooks.example.com/a?b=1&c=\"2\"" : "",
+  active,
+  notificationType,
+  channels: active ? ["#alerts", "ops, infra"] : [],
+});
+
+const pricing = {
+  id: "101",
+  url: "https://example.com/pricing?plan=pro&ref=a,b",
+  description: 'Pricing: "Pro" plan, line one\nline two – ünïcode',
+  mode: "TEXT",
+  active: true,
+  interval: 60,
+  notification_threshold: 0.5,
+  target_device: "4",
+  wait_time: 3,
+  crop: { x: 0, y: 10, width: 1280, height: 900 },
+  proxy_id: 2,
+  xpath: "//div[@id='price']",
+  keyword_action: "ADDED",
+  keywords: "price,discount",
+  disable_js: false,
+  enable_cookies_and_ad_blocker: true,
+  preactions: {
+    active: true,
+    actions: [{ type: "click", selector: "#accept: cookies" }, { type: "wait", ms: 500 }],
+  },
+  advanced_schedule: { start_time: 8, stop_time: 18, active_days: [1, 2, 3, 4, 5] },
+  notification: {
+    enableSmsAlert: false,
+    enableEmailAlert: true,
+    onlyImportantAlerts: true,
+    config: {
+      slack: channel("slack", true),
+      teams: channel("teams"),
+      webhook: channel("webhook", true),
+      discord: channel("discord"),
+      slack_app: channel("slack_app"),
+      google_sheets: channel("google_sheets"),
+      google_chat: channel("google_chat"),
+    },
+  },
+  retention_policy: "12",
+  alert_error: true,
+  summalyzer: { importantDefinition: "- price: changes", importantDefinitionType: "custom" },
+  labelIds: [3, 7],
+} as unknown as FullJobDetails;
+
+const home = {
+  id: "102",
+  url: "https://example.com/",
+  description: "",
+  mode: "VISUAL",
+  active: false,
+  interval: 1440,
+  notification_threshold: 1,
+  target_device: "1",
+  wait_time: 0,
+  xpath: null,
+  labelIds: [],
+} as unknown as FullJobDetails;
+
+/**
+ * Fake jobs API serving `jobs` and recording creates and updates
+ */
+function jobsApi(jobs: FullJobDetails[]) {
+  const writes: Array<{ method: string; path: string; body: any }> = [];
+  const reads: URL[] = [];
+
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const { pathname } = new URL(url);
+    const method = init?.method ?? "GET";
+    if (method === "GET") reads.push(new URL(url));
+
+    if (method !== "GET") {
+      const body = JSON.parse(String(init?.body));
+      writes.push({ method, path: pathname, body });
+      return method === "POST"
+        ? json({ id: 900 + writes.length })
+        : json({
+            updates: "none",
+            estimatedConsumption: { daily: 1, weekly: 7, monthly: 30 },
+          });
+    }
+
+    if (pathname.endsWith("/jobs")) {
+      return json({
+        totalJobs: jobs.length,
+        activeJobCount: jobs.length,
+        pageSize: 100,
+        totalPages: 1,
+        pageIndex: 0,
+        jobs: jobs.map((j: any) => ({
+          id: Number(j.id),
+          url: j.url,
+          mode: j.mode,
+          workspaceId: j.workspaceId,
+        })),
+      });
+    }
+    return json(jobs.find((j) => pathname.endsWith(`/jobs/${j.id}`)));
+  };
+
+  const client = new VisualpingClient(
+    { idToken: "id" },
+    { fetch: fetchImpl as typeof fetch, retry: false }
+  );
+  return { client, writes, reads };
+}
+
+describe("exportJobs / importJobs", () => {
+  for (const format of ["json", "csv", "yaml"] as JobExportFormat[]) {
+    test(`${format} round trip keeps the configuration`, async () => {
+      const source = jobsApi([pricing, home]);
+      const target = jobsApi([]);
+
+      const file = await source.client.exportJobs({ workspaceId: 1, format });
+      const report = await target.client.importJobs(file, {
+        targetWorkspaceId: 2,
+      });
+
+      assert.equal(report.succeeded, 2);
+      assert.deepEqual(
+        report.results.map((r) => r.jobId),
+        [101, 102]
+      );
+      assert.deepEqual(
+        target.writes.map((w) => w.body),
+        [pricing, home].map((job) => ({
+          ...jobSpecFromDetails(job),
+          workspaceId: 2,
+        }))
+      );
+    });
+  }
+
+  test("reads each job from its own workspace", async () => {
+    const { client, reads } = jobsApi([
+      { ...pricing, workspaceId: 7 },
+      { ...home, workspaceId: 8 },
+    ] as unknown as FullJobDetails[]);
+
+    await client.exportJobs();
+
+    assert.deepEqual(
+      reads
+        .filter((url) => /\/jobs\/\d+$/.test(url.pathname))
+        .map((url) => [url.pathname, url.searchParams.get("workspaceId")]),
+      [
+        ["/v2/jobs/101", "7"],
+        ["/v2/jobs/102", "8"],
+      ]
+    );
+  });
+
+  test("jobs sharing an ID in the backup fail", async () => {
+    const file = serializeJobs([
+      { id: 5, ...jobSpecFromDetails(pricing) },
+      { id: 5, ...jobSpecFromDetails(home) },
+      { id: 6, ...jobSpecFromDetails(home) },
+    ]);
+    const { client, writes } = jobsApi([]);
+
+    const report = await client.importJobs(file);
+
+    assert.deepEqual(
+      report.results.map((r) => [r.jobId, r.status]),
+      [
+        [5, "failed"],
+        [5, "failed"],
+        [6, "succeeded"],
+      ]
+    );
+    assert.equal(report.failed, 2);
+    assert.equal(writes.length, 1);
+  });
+
+  test("serializeJobs and parseJobs are inverse in every format", () => {
+    const jobs = [pricing, home].map((job, i) => ({
+      id: i + 1,
+      ...jobSpecFromDetails(job),
+    }));
+
+    for (const format of ["json", "csv", "yaml"] as JobExportFormat[]) {
+      const file = serializeJobs(jobs, format);
+      assert.deepEqual(parseJobs(file), jobs, format);
+    }
+  });
+
+  test("conflicts are skipped, updated or duplicated", async () => {
+    const file = serializeJobs([{ id: 5, ...jobSpecFromDetails(pricing) }]);
+
+    const skip = jobsApi([pricing]);
+    const skipped = await skip.client.importJobs(file);
+    assert.equal(skipped.skipped, 1);
+    assert.equal(skip.writes.length, 0);
+
+    const update = jobsApi([pricing]);
+    await update.client.importJobs(file, {
+      conflict: "update",
+      targetWorkspaceId: 2,
+      organisationId: 3,
+    });
+    assert.deepEqual(
+      update.writes.map((w) => [w.method, w.path, w.body.organisationId]),
+      [["PUT", "/v2/jobs/101", 3]]
+    );
+
+    const duplicate = jobsApi([pricing]);
+    await duplicate.client.importJobs(file, { conflict: "duplicate" });
+    assert.deepEqual(
+      duplicate.writes.map((w) => w.method),
+      ["POST"]
+    );
+  });
+});
+
+describe("parseJobs", () => {
+  test("reads hand-written YAML", () => {
+    const jobs = parseJobs(
+      [
+        "# weekly competitor checks",
+        "jobs:",
+        "- url: https://example.com/a # unquoted",
+        "  mode: TEXT",
+        "  active: true",
+        "  interval: 10080",
+        "  trigger: '0.5'",
+        "  target_device: '1'",
+        "  wait_time: 0",
+        "  labelIds: [1, 2]",
+        "  advanced_schedule:",
+        "    start_time: 9",
+        "    stop_time: 17",
+        "    active_days:",
+        "      - 1",
+        "      - 5",
+      ].join("\n")
+    );
+
+    assert.deepEqual(jobs, [
+      {
+        url: "https://example.com/a",
+        mode: "TEXT",
+        active: true,
+        interval: "10080",
+        trigger: "0.5",
+        target_device: "1",
+        wait_time: 0,
+        labelIds: [1, 2],
+        advanced_schedule: { start_time: 9, stop_time: 17, active_days: [1, 5] },
+      },
+    ]);
+  });
+
+  test("rejects invalid jobs and files", () => {
+    const file = serializeJobs([
+      { ...jobSpecFromDetails(home) },
+      { ...jobSpecFromDetails(home), url: "not a url" },
+    ]);
+
+    assert.throws(
+      () => parseJobs(file),
+      (err: any) =>
+        err instanceof VisualpingJobValidationError &&
+        err.violations.every((v) => v.field.startsWith("[1]."))
+    );
+    assert.throws(() => parseJobs("{"), /Invalid JSON backup/);
+    assert.throws(() => parseJobs("jobs:\n  - a: 1\n -b"), /Invalid YAML at line 3/);
+    assert.throws(() => parseJobs('id,url\n1,"open'), /unterminated quote/);
+  });
+});
@@ -0,0 +1,159 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  AccountFeatureSet,
+  CreateJobRequest,
+  JobMode,
+  TargetDevice,
+  validateJob,
+  VisualpingClient,
+  VisualpingJobValidationError,
+} from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const job: CreateJobRequest = {
+  url: "https://example.com",
+  mode: JobMode.TEXT,
+  active: true,
+  interval: "60",
+  trigger: "0.1",
+  target_device: TargetDevice.DESKTOP,
+  wait_time: 0,
+};
+
+const features: AccountFeatureSet = {
+  maxJobFrequency: { enabled: true, value: 15 },
+  maxActiveJobsPerWorkspace: { enabled: true, value: 5 },
+  sms: { enabled: false },
+};
+
+const rules = (violations: Array<{ field: string; rule: string }>) =>
+  violations.map((v) => `${v.field}:${v.rule}`);
+
+describe("validateJob", () => {
+  test("accepts a valid job", () => {
+    assert.deepEqual(validateJob(job, { features, activeJobCount: 1 }), []);
+  });
+
+  test("returns every violation at once", () => {
+    const violations = validateJob(
+      {
+        ...job,
+        url: `https://example.com/${"a".repeat(2000)}`,
+        mode: JobMode.VISUAL,
+        trigger: "150",
+        interval: "5",
+        keywords: "price",
+        wait_time: -1,
+      },
+      { features }
+    );
+
+    assert.deepEqual(rules(violations), [
+      "url:maxLength",
+      "trigger:range",
+      "interval:maxJobFrequency",
+      "wait_time:range",
+      "keywords:textModeOnly",
+    ]);
+  });
+
+  test("reports missing fields unless validating an update", () => {
+    const partial = { description: "x" } as CreateJobRequest;
+    assert.equal(validateJob(partial).length, 7);
+    assert.deepEqual(validateJob(partial, { update: true }), []);
+  });
+
+  test("plan rules need the feature set", () => {
+    const smsJob = {
+      ...job,
+      interval: "1",
+      notification: { enableSmsAlert: true },
+    } as CreateJobRequest;
+
+    assert.deepEqual(validateJob(smsJob), []);
+    assert.deepEqual(rules(validateJob(smsJob, { features })), [
+      "interval:maxJobFrequency",
+      "notification.enableSmsAlert:sms",
+    ]);
+  });
+
+  test("active job limit", () => {
+    assert.deepEqual(
+      rules(validateJob(job, { features, activeJobCount: 5 })),
+      ["active:maxActiveJobsPerWorkspace"]
+    );
+    assert.deepEqual(
+      validateJob({ ...job, active: false }, { features, activeJobCount: 5 }),
+      []
+    );
+  });
+});
+
+describe("VisualpingClient job validation", () => {
+  const user = {
+    userId: 1,
+    emailAddress: "a@b.c",
+    workspaces: [
+      {
+        id: 7,
+        accountFeatures: { maxJobFrequency: { enabled: true, value: 60 } },
+        counts: { activeJobCount: 0 },
+      },
+    ],
+    personalWorkspace: {
+      accountFeatures: features,
+      counts: { activeJobCount: 0 },
+    },
+  };
+
+  test("validateJob uses the job's workspace features", async () => {
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      { fetch: (async () => json(user)) as typeof fetch }
+    );
+
+    assert.deepEqual(await client.validateJob({ ...job, interval: "30" }), []);
+    assert.deepEqual(
+      rules(await client.validateJob({ ...job, interval: "30", workspaceId: 7 })),
+      ["interval:maxJobFrequency"]
+    );
+    assert.deepEqual(rules(await client.validateJob({ ...job, workspaceId: 8 })), [
+      "workspaceId:workspace",
+    ]);
+  });
+
+  test("validateJobs rejects invalid jobs before sending them", async () => {
+    const calls: string[] = [];
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        validateJobs: true,
+        fetch: (async (url: string, init?: RequestInit) => {
+          calls.push(`${init?.method ?? "GET"} ${url}`);
+          return url.endsWith("/describe-user")
+            ? json(user)
+            : json({ jobid: "1", id: "1" });
+        }) as typeof fetch,
+      }
+    );
+
+    await assert.rejects(
+      client.createJob({ ...job, trigger: "-1" }),
+      (err: any) =>
+        err instanceof VisualpingJobValidationError &&
+        err.method === "POST" &&
+        err.violations[0].field === "trigger"
+    );
+    assert.ok(calls.every((c) => c.startsWith("GET")));
+
+    await client.updateJob(1, { description: "ok" });
+    assert.ok(calls.some((c) => c.startsWith("PUT")));
+  });
+});
@@ -0,0 +1,179 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  loggingMiddleware,
+  Middleware,
+  RequestContext,
+  RequestLogEntry,
+  VisualpingApiError,
+  VisualpingClient,
+} from "../src/index";
+
+type FetchCall = { url: string; init?: RequestInit };
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function fakeFetch(
+  calls: FetchCall[],
+  handler: (url: string, init?: RequestInit) => Response = (url) =>
+    url.endsWith("/token")
+      ? json({ id_token: "id", refresh_token: "rt" })
+      : json({ ok: true })
+) {
+  return (async (url: string, init?: RequestInit) => {
+    calls.push({ url, init });
+    return handler(url, init);
+  }) as typeof fetch;
+}
+
+describe("VisualpingClient middleware", () => {
+  test("runs in order around token and API calls", async () => {
+    const calls: FetchCall[] = [];
+    const events: string[] = [];
+
+    const named =
+      (name: string): Middleware =>
+      async (ctx, next) => {
+        events.push(`${name}:before ${ctx.method} ${ctx.authenticated}`);
+        const res = await next(ctx);
+        events.push(`${name}:after ${res.status}`);
+        return res;
+      };
+
+    const client = new VisualpingClient("e", "p", {
+      fetch: fakeFetch(calls),
+      middleware: [named("outer"), named("inner")],
+    });
+
+    await client.describeUser();
+
+    assert.deepEqual(events, [
+      "outer:before POST false",
+      "inner:before POST false",
+      "inner:after 200",
+      "outer:after 200",
+      "outer:before GET true",
+      "inner:before GET true",
+      "inner:after 200",
+      "outer:after 200",
+    ]);
+  });
+
+  test("can rewrite the request and see the parsed body", async () => {
+    const calls: FetchCall[] = [];
+    const seen: RequestContext[] = [];
+
+    const client = new VisualpingClient("e", "p", {
+      fetch: fakeFetch(calls),
+      middleware: [
+        (ctx, next) => {
+          seen.push(ctx);
+          return next({
+            ...ctx,
+            endpoint: ctx.endpoint.replace("job.api", "job-eu.api"),
+            headers: { ...ctx.headers, "X-Correlation-Id": "abc" },
+          });
+        },
+      ],
+    });
+
+    await client.updateJob(5, { description: "new" });
+
+    const update = seen[1];
+    assert.equal(update.method, "PUT");
+    assert.deepEqual(update.body, { description: "new" });
+
+    assert.equal(calls[1].url, "https://job-eu.api.visualping.io/v2/jobs/5");
+    assert.equal(
+      new Headers(calls[1].init?.headers).get("X-Correlation-Id"),
+      "abc"
+    );
+    assert.equal(calls[1].init?.body, JSON.stringify({ description: "new" }));
+  });
+
+  test("can short-circuit without calling fetch", async () => {
+    const calls: FetchCall[] = [];
+
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: fakeFetch(calls),
+        middleware: [
+          async () => ({
+            status: 200,
+            headers: new Headers(),
+            body: { userId: 1, workspaces: [] },
+          }),
+        ],
+      }
+    );
+
+    const user = await client.describeUser();
+
+    assert.equal(user.userId, 1);
+    assert.equal(calls.length, 0);
+  });
+
+  test("sees errors and can replace them with a response", async () => {
+    const calls: FetchCall[] = [];
+    const statuses: number[] = [];
+
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: fakeFetch(calls, () => json({ message: "not found" }, 404)),
+        middleware: [
+          async (ctx, next) => {
+            try {
+              return await next(ctx);
+            } catch (err) {
+              if (!(err instanceof VisualpingApiError)) throw err;
+              statuses.push(err.status);
+              return { status: 200, headers: new Headers(), body: null };
+            }
+          },
+        ],
+      }
+    );
+
+    const job = await client.getJob(404);
+
+    assert.equal(job, null);
+    assert.deepEqual(statuses, [404]);
+  });
+
+  test("loggingMiddleware redacts credentials in bodies", async () => {
+    const calls: FetchCall[] = [];
+    const entries: RequestLogEntry[] = [];
+
+    const client = new VisualpingClient("me@example.com", "hunter2", {
+      fetch: fakeFetch(calls),
+      middleware: [
+        loggingMiddleware({
+          includeBodies: true,
+          log: (entry) => entries.push(entry),
+        }),
+      ],
+    });
+
+    await client.describeUser();
+
+    assert.equal(entries.length, 2);
+    assert.deepEqual(entries[0].requestBody, {
+      method: "PASSWORD",
+      email: "[REDACTED]",
+      password: "[REDACTED]",
+    });
+    assert.deepEqual(entries[0].responseBody, {
+      id_token: "[REDACTED]",
+      refresh_token: "[REDACTED]",
+    });
+    assert.equal(entries[1].status, 200);
+    assert.equal(entries[1].method, "GET");
+  });
+});
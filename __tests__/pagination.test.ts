@@ -0,0 +1,283 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  OutputMode,
+  PaginationInconsistency,
+  VisualpingClient,
+  VisualpingPaginationError,
+} from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * Fake `/jobs` endpoint serving `total` jobs with ids 1..total
+ */
+function jobsApi(total: number, pageSize: number) {
+  const requested: number[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const params = new URL(url).searchParams;
+    const pageIndex = Number(params.get("pageIndex"));
+    const mode = params.get("mode");
+    requested.push(pageIndex);
+
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((r) => setTimeout(r, 5));
+    inFlight -= 1;
+
+    if (init?.signal?.aborted) throw init.signal.reason;
+
+    const ids = Array.from({ length: total }, (_, i) => i + 1).slice(
+      pageIndex * pageSize,
+      (pageIndex + 1) * pageSize
+    );
+    const meta = {
+      totalJobs: total,
+      activeJobCount: total,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+      pageIndex,
+    };
+
+    if (mode === "ids_only") return json({ ...meta, jobIds: ids });
+    if (mode === "ids_and_wsIds") {
+      return json({ ...meta, jobIdsByWsId: [{ workspaceId: 9, ids }] });
+    }
+    if (mode === "counts_only") return json(meta);
+    return json({ ...meta, jobs: ids.map((id) => ({ id })) });
+  };
+
+  const client = new VisualpingClient(
+    { idToken: "id" },
+    { fetch: fetchImpl as typeof fetch }
+  );
+  return { client, requested, maxInFlight: () => maxInFlight };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+describe("VisualpingClient.iterateJobs", () => {
+  test("streams every job across pages", async () => {
+    const { client, requested } = jobsApi(7, 3);
+
+    const jobs = await collect(client.iterateJobs({ pageSize: 3 }));
+
+    assert.deepEqual(
+      jobs.map((j) => j.id),
+      [1, 2, 3, 4, 5, 6, 7]
+    );
+    assert.deepEqual(requested, [0, 1, 2]);
+  });
+
+  test("streams ids in the id output modes", async () => {
+    const { client } = jobsApi(4, 3);
+
+    assert.deepEqual(
+      await collect(
+        client.iterateJobs({ mode: OutputMode.IDS_ONLY, pageSize: 3 })
+      ),
+      [1, 2, 3, 4]
+    );
+    assert.deepEqual(
+      await collect(
+        client.iterateJobs({ mode: OutputMode.IDS_AND_WS_IDS, pageSize: 3 })
+      ),
+      [1, 2, 3, 4].map((id) => ({ id, workspaceId: 9 }))
+    );
+  });
+
+  test("break stops fetching further pages", async () => {
+    const { client, requested } = jobsApi(100, 10);
+
+    for await (const job of client.iterateJobs(
+      { pageSize: 10 },
+      { prefetch: 0 }
+    )) {
+      if (job.id === 12) break;
+    }
+
+    assert.deepEqual(requested, [0, 1]);
+  });
+
+  test("prefetch requests pages ahead in parallel", async () => {
+    const { client, maxInFlight } = jobsApi(50, 5);
+
+    const jobs = await collect(
+      client.iterateJobs({ pageSize: 5 }, { prefetch: 3 })
+    );
+
+    assert.equal(jobs.length, 50);
+    assert.equal(maxInFlight(), 3);
+  });
+});
+
+describe("VisualpingClient.iterateJobPages", () => {
+  test("yields whole pages", async () => {
+    const { client } = jobsApi(5, 2);
+
+    const pages = await collect(client.iterateJobPages({ pageSize: 2 }));
+
+    assert.deepEqual(
+      pages.map((p) => p.pageIndex),
+      [0, 1, 2]
+    );
+    assert.deepEqual(pages[2].jobs, [{ id: 5 }]);
+  });
+
+  test("counts_only yields a single page", async () => {
+    const { client, requested } = jobsApi(5, 2);
+
+    const pages = await collect(
+      client.iterateJobPages({ mode: OutputMode.COUNTS_ONLY, pageSize: 2 })
+    );
+
+    assert.equal(pages.length, 1);
+    assert.equal(pages[0].totalJobs, 5);
+    assert.deepEqual(requested, [0]);
+  });
+});
+
+/**
+ * Fake `/jobs` endpoint sorted by id where `onPage` may add or remove
+ * jobs before a page is served
+ */
+function changingJobsApi(
+  ids: number[],
+  pageSize: number,
+  onPage: (pageIndex: number, ids: number[], call: number) => void
+) {
+  const urls: string[] = [];
+  const fetchImpl = async (url: string) => {
+    urls.push(url);
+    const pageIndex = Number(new URL(url).searchParams.get("pageIndex"));
+    onPage(pageIndex, ids, urls.length);
+
+    return json({
+      totalJobs: ids.length,
+      activeJobCount: ids.length,
+      pageSize,
+      totalPages: Math.ceil(ids.length / pageSize),
+      pageIndex,
+      jobs: ids
+        .slice(pageIndex * pageSize, (pageIndex + 1) * pageSize)
+        .map((id) => ({ id })),
+    });
+  };
+
+  const client = new VisualpingClient(
+    { idToken: "id" },
+    { fetch: fetchImpl as typeof fetch }
+  );
+  return { client, urls };
+}
+
+describe("pagination consistency", () => {
+  // deleting job 1 after the first page shifts job 4 back onto page 0,
+  // so a single pass misses it
+  const deleteFirstJob = (pageIndex: number, ids: number[], call: number) => {
+    if (call === 2) ids.shift();
+  };
+  // a job created after the first page pushes job 3 onto page 1 again
+  const createJob = (pageIndex: number, ids: number[], call: number) => {
+    if (call === 2) ids.unshift(0);
+  };
+
+  test("dedupe (default) drops jobs seen on an earlier page", async () => {
+    const { client, urls } = changingJobsApi([1, 2, 3, 4, 5], 3, createJob);
+
+    const jobs = await client.getAllJobs({ pageSize: 3 }, { prefetch: 0 });
+
+    assert.deepEqual(
+      jobs.map((j) => j.id),
+      [1, 2, 3, 4, 5]
+    );
+    assert.match(urls[0], /sortBy=id_asc/);
+  });
+
+  test("none keeps duplicates and the caller's sort order", async () => {
+    const { client, urls } = changingJobsApi([1, 2, 3, 4, 5], 3, createJob);
+
+    const jobs = await client.getAllJobs(
+      { pageSize: 3 },
+      { prefetch: 0, consistency: "none" }
+    );
+
+    assert.deepEqual(
+      jobs.map((j) => j.id),
+      [1, 2, 3, 3, 4, 5]
+    );
+    assert.doesNotMatch(urls[0], /sortBy/);
+  });
+
+  test("rescan picks up jobs shifted into visited pages", async () => {
+    const { client, urls } = changingJobsApi(
+      [1, 2, 3, 4, 5, 6],
+      3,
+      deleteFirstJob
+    );
+    const reports: PaginationInconsistency[] = [];
+
+    const jobs = await client.getAllJobs(
+      { pageSize: 3 },
+      {
+        prefetch: 0,
+        consistency: "rescan",
+        onInconsistency: (info) => reports.push(info),
+      }
+    );
+
+    // without the rescan, job 4 would be missed
+    assert.deepEqual(
+      jobs.map((j) => j.id).sort(),
+      [1, 2, 3, 4, 5, 6]
+    );
+    assert.deepEqual(reports, [
+      { pageIndex: 1, previousTotalJobs: 6, totalJobs: 5, pass: 0 },
+    ]);
+    assert.equal(urls.length, 4);
+  });
+
+  test("rescan stops after maxRescans", async () => {
+    const ids = [1, 2, 3, 4];
+    const { client } = changingJobsApi(ids, 2, (_p, list, call) =>
+      list.push(100 + call)
+    );
+    const passes = new Set<number>();
+
+    await client.getAllJobs(
+      { pageSize: 2 },
+      {
+        prefetch: 0,
+        consistency: "rescan",
+        maxRescans: 1,
+        onInconsistency: (info) => passes.add(info.pass),
+      }
+    );
+
+    // every page adds a job, so every pass sees a change
+    assert.deepEqual([...passes], [0, 1]);
+  });
+
+  test("strict throws when totalJobs changes", async () => {
+    const { client } = changingJobsApi([1, 2, 3, 4, 5, 6], 3, deleteFirstJob);
+
+    await assert.rejects(
+      client.getAllJobs({ pageSize: 3 }, { consistency: "strict" }),
+      (err: any) =>
+        err instanceof VisualpingPaginationError &&
+        err.inconsistency.totalJobs === 5
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  ClientOptions,
+  CreateJobRequest,
+  FakeVisualpingServer,
+  QuotaExceeded,
+  VisualpingClient,
+  VisualpingQuotaError,
+} from "../src/index";
+
+const WS = 5;
+
+function job(active: boolean): CreateJobRequest {
+  return { url: "https://example.com", mode: "TEXT", active, interval: "60", trigger: "1", target_device: "1", wait_time: 0, workspaceId: WS };
+}
+
+function setup(active: boolean[], options: ClientOptions = {}, allowOverConsumption = false) {
+  const server = new FakeVisualpingServer({
+    workspaces: [
+      {
+        id: WS,
+        accountFeatures: {
+          maxActiveJobsPerWorkspace: { enabled: true, value: 2 },
+          allowOverConsumption: { enabled: allowOverConsumption },
+        },
+      },
+    ],
+    jobs: active.map(job),
+  });
+  const client = new VisualpingClient("test@example.com", "password", {
+    fetch: server.fetch,
+    quotaGuard: true,
+    ...options,
+  });
+  const calls = (method: string, path: string) =>
+    server.requests.filter((r) => r.method === method && r.path.includes(path)).length;
+  return { server, client, calls };
+}
+
+describe("quotaGuard", () => {
+  test("blocks active jobs beyond the limit before sending them", async () => {
+    const { client, calls } = setup([true, true]);
+
+    await assert.rejects(
+      client.createJob(job(true)),
+      (err) =>
+        err instanceof VisualpingQuotaError &&
+        err.quota.activeJobCount === 2 &&
+        err.quota.limit === 2 &&
+        /workspace 5 already has 2 of 2 active jobs/.test(err.message)
+    );
+    assert.equal(calls("POST", "/jobs"), 0);
+
+    await client.createJob(job(false));
+    assert.equal(calls("POST", "/jobs"), 1);
+    client.dispose();
+  });
+
+  test("counts bulk activations against one cached snapshot", async () => {
+    const { server, client, calls } = setup([true, false, false, false]);
+
+    const report = await client.resumeJobs([2, 3, 4], { workspaceId: WS });
+    assert.equal(report.succeeded, 1);
+    assert.equal(report.failed, 2);
+    assert.ok(report.results.every((r) => r.status !== "failed" || r.error instanceof VisualpingQuotaError));
+    assert.equal(server.jobs.filter((j) => j.active).length, 2);
+    assert.equal(calls("GET", "/describe-user"), 1);
+
+    // pausing frees a slot and drops the snapshot
+    await client.pauseJobs([1], { workspaceId: WS });
+    await client.updateJob(4, { active: true, workspaceId: WS });
+    assert.equal(calls("GET", "/describe-user"), 2);
+    client.dispose();
+  });
+
+  test("re-activating an active job is not blocked", async () => {
+    const { client, calls } = setup([true, true, false]);
+
+    await client.updateJob(1, { active: true, description: "Still on", workspaceId: WS });
+    assert.equal(calls("PUT", "/jobs/1"), 1);
+    await assert.rejects(client.updateJob(3, { active: true, workspaceId: WS }), VisualpingQuotaError);
+    assert.equal(calls("PUT", "/jobs/3"), 0);
+    client.dispose();
+  });
+
+  test("updating an active job below the limit does not take a slot", async () => {
+    const { server, client } = setup([true]);
+
+    await client.updateJob(1, { active: true, description: "Once", workspaceId: WS });
+    await client.updateJob(1, { active: true, description: "Twice", workspaceId: WS });
+    await client.createJob(job(true));
+    assert.equal(server.jobs.filter((j) => j.active).length, 2);
+    client.dispose();
+  });
+
+  test("runs the configured policy", async () => {
+    const seen: QuotaExceeded[] = [];
+    const { server, client } = setup([true, true], {
+      quotaGuard: {
+        policy: (exceeded) => {
+          seen.push(exceeded);
+          return "pause";
+        },
+      },
+    });
+
+    await client.createJob(job(true));
+    assert.equal(server.jobs[2].active, false);
+    assert.deepEqual(seen, [
+      { workspaceId: WS, operation: "create", jobId: undefined, activeJobCount: 2, limit: 2, overflow: false },
+    ]);
+    client.dispose();
+  });
+
+  test("lets plans with over-consumption through", async () => {
+    const { server, client } = setup([true, true], {}, true);
+
+    await client.createJob(job(true));
+    assert.equal(server.jobs.filter((j) => j.active).length, 3);
+    client.dispose();
+  });
+});
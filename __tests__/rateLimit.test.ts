@@ -0,0 +1,135 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import { RateLimiter, VisualpingClient, VisualpingError } from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("RateLimiter", () => {
+  test("never exceeds maxConcurrency", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 });
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, async () => {
+        const release = await limiter.acquire();
+        active += 1;
+        peak = Math.max(peak, active);
+        await sleep(10);
+        active -= 1;
+        release();
+      })
+    );
+
+    assert.equal(peak, 2);
+    const stats = limiter.stats();
+    assert.equal(stats.acquired, 6);
+    assert.equal(stats.active, 0);
+    assert.equal(stats.queued, 0);
+    assert.ok(stats.maxWaitMs > 0);
+  });
+
+  test("token bucket spaces requests after the burst", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 50, burst: 2 });
+    const startedAt = Date.now();
+    const times: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 4 }, async () => {
+        const release = await limiter.acquire();
+        times.push(Date.now() - startedAt);
+        release();
+      })
+    );
+
+    // 2 immediately, then one every 20ms
+    assert.ok(times[1] < 15);
+    assert.ok(times[3] >= 35);
+  });
+
+  test("rejects settings that would stall every request", () => {
+    for (const requestsPerSecond of [0, -1, NaN, Infinity]) {
+      assert.throws(
+        () => new RateLimiter({ requestsPerSecond }),
+        (err) => err instanceof VisualpingError && /requestsPerSecond/.test(err.message)
+      );
+    }
+    for (const burst of [0, 0.5, -2, NaN]) {
+      assert.throws(
+        () => new RateLimiter({ requestsPerSecond: 5, burst }),
+        (err) => err instanceof VisualpingError && /burst/.test(err.message)
+      );
+    }
+    for (const maxConcurrency of [0, -1, 1.5, NaN, Infinity]) {
+      assert.throws(
+        () => new RateLimiter({ maxConcurrency }),
+        (err) => err instanceof VisualpingError && /maxConcurrency/.test(err.message)
+      );
+    }
+  });
+
+  test("reports queue depth while requests wait", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const release = await limiter.acquire();
+
+    const waiting = limiter.acquire();
+    assert.equal(limiter.stats().queued, 1);
+    assert.equal(limiter.stats().active, 1);
+
+    release();
+    (await waiting)();
+    assert.equal(limiter.stats().queued, 0);
+  });
+});
+
+describe("VisualpingClient rate limiting", () => {
+  test("limits concurrent getJob calls per endpoint group", async () => {
+    let active = 0;
+    let peak = 0;
+
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          active += 1;
+          peak = Math.max(peak, active);
+          await sleep(5);
+          active -= 1;
+          return json({ id: "1" });
+        }) as typeof fetch,
+        rateLimit: { groups: { job: { maxConcurrency: 3 } } },
+      }
+    );
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) => client.getJob(i)));
+
+    assert.equal(peak, 3);
+    const stats = client.getRateLimitStats();
+    assert.equal(stats.groups.job?.acquired, 10);
+    assert.equal(stats.groups.account, undefined);
+    assert.equal(stats.client.acquired, 10);
+  });
+
+  test("token calls count against the token group", async () => {
+    const client = new VisualpingClient("e", "p", {
+      fetch: (async (url: string) =>
+        url.endsWith("/token")
+          ? json({ id_token: "id", refresh_token: "rt" })
+          : json({ workspaces: [] })) as typeof fetch,
+      rateLimit: { groups: { token: { maxConcurrency: 1 } } },
+    });
+
+    await client.describeUser();
+
+    const stats = client.getRateLimitStats();
+    assert.equal(stats.groups.token?.acquired, 1);
+    assert.equal(stats.client.acquired, 2);
+  });
+});
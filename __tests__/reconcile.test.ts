@@ -0,0 +1,239 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  CreateJobRequest,
+  FakeVisualpingServer,
+  formatJobPlan,
+  JobReconciler,
+  VisualpingClient,
+  VisualpingError,
+  VisualpingJobValidationError,
+} from "../src/index";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const existing = [
+  { id: 1, url: "https://example.com/pricing", mode: "TEXT", interval: 1440 },
+  { id: 2, url: "https://example.com/home", mode: "VISUAL", interval: 60 },
+  { id: 3, url: "https://example.com/old", mode: "TEXT", interval: 60 },
+];
+
+function spec(url: string, overrides: Partial<CreateJobRequest> = {}) {
+  return {
+    url,
+    mode: "TEXT",
+    active: true,
+    interval: "1440",
+    trigger: "1",
+    target_device: "1",
+    wait_time: 0,
+    ...overrides,
+  } as CreateJobRequest;
+}
+
+/**
+ * Fake jobs API serving `existing` and recording every write
+ */
+function jobsApi() {
+  const writes: Array<{ method: string; path: string; body: any }> = [];
+
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const { pathname } = new URL(url);
+    const method = init?.method ?? "GET";
+
+    if (method !== "GET") {
+      writes.push({
+        method,
+        path: pathname,
+        body: init?.body && JSON.parse(String(init.body)),
+      });
+      if (method === "POST") return json({ id: 10 });
+      if (method === "DELETE") return json({ changed: true, deletedJobIds: [] });
+      return json({
+        updates: "none",
+        estimatedConsumption: { daily: 1, weekly: 7, monthly: 30 },
+      });
+    }
+
+    if (pathname.endsWith("/jobs")) {
+      return json({
+        totalJobs: existing.length,
+        activeJobCount: existing.length,
+        pageSize: 100,
+        totalPages: 1,
+        pageIndex: 0,
+        jobs: existing,
+      });
+    }
+
+    const job = existing.find((j) => pathname.endsWith(`/jobs/${j.id}`));
+    return json({
+      ...job,
+      active: true,
+      description: "",
+      notification_threshold: 1,
+      target_device: "1",
+      wait_time: 0,
+    });
+  };
+
+  const client = new VisualpingClient(
+    { idToken: "id" },
+    { fetch: fetchImpl as typeof fetch, retry: false }
+  );
+  return { client, writes };
+}
+
+const specs = [
+  spec("https://example.com/pricing", { interval: "60" }),
+  spec("https://example.com/home", { mode: "VISUAL", interval: "60" }),
+  spec("https://example.com/new"),
+];
+
+describe("JobReconciler", () => {
+  test("plans creates, field-level updates and blocked deletes", async () => {
+    const { client, writes } = jobsApi();
+
+    const plan = await new JobReconciler(client).plan(specs);
+
+    assert.deepEqual(
+      plan.creates.map((c) => c.spec.url),
+      ["https://example.com/new"]
+    );
+    assert.equal(plan.updates.length, 1);
+    assert.equal(plan.updates[0].jobId, 1);
+    assert.deepEqual(plan.updates[0].changes, [
+      { field: "interval", current: "1440", desired: "60" },
+    ]);
+    assert.deepEqual(plan.updates[0].patch, { interval: "60" });
+    assert.deepEqual(plan.unchanged, [
+      { key: "-|VISUAL|https://example.com/home", jobId: 2 },
+    ]);
+    assert.deepEqual(
+      plan.deletes.map((d) => [d.jobId, d.blocked]),
+      [[3, true]]
+    );
+    assert.equal(writes.length, 0);
+  });
+
+  test("an empty string is not equivalent to zero", async () => {
+    const { client } = jobsApi();
+
+    const plan = await new JobReconciler(client).plan([
+      spec("https://example.com/home", {
+        mode: "VISUAL",
+        interval: "60.0",
+        description: "0",
+      }),
+    ]);
+
+    assert.deepEqual(plan.updates[0].changes, [
+      { field: "description", current: "", desired: "0" },
+    ]);
+  });
+
+  test("apply runs the plan but keeps blocked deletes", async () => {
+    const { client, writes } = jobsApi();
+    const reconciler = new JobReconciler(client);
+
+    const report = await reconciler.apply(await reconciler.plan(specs));
+
+    assert.deepEqual(
+      writes.map((w) => [w.method, w.path]),
+      [
+        ["POST", "/v2/jobs"],
+        ["PUT", "/v2/jobs/1"],
+      ]
+    );
+    assert.equal(report.created.succeeded, 1);
+    assert.equal(report.updated.succeeded, 1);
+    assert.deepEqual(report.deleted.results, [
+      { jobId: 3, status: "skipped", reason: "deletes not allowed" },
+    ]);
+  });
+
+  test("allowDeletes removes unmanaged jobs", async () => {
+    const { client, writes } = jobsApi();
+    const reconciler = new JobReconciler(client, { allowDeletes: true });
+
+    const report = await reconciler.apply(await reconciler.plan(specs));
+
+    assert.deepEqual(writes.at(-1)?.method, "DELETE");
+    assert.equal(report.deleted.succeeded, 1);
+  });
+
+  test("dry run only prints the plan", async () => {
+    const { client, writes } = jobsApi();
+    const reconciler = new JobReconciler(client);
+    const lines: string[] = [];
+
+    const plan = await reconciler.plan(specs);
+    const report = await reconciler.apply(plan, {
+      dryRun: true,
+      log: (line) => lines.push(line),
+    });
+
+    assert.equal(writes.length, 0);
+    assert.equal(report.created.skipped, 1);
+    assert.equal(lines[0], formatJobPlan(plan));
+    assert.equal(
+      formatJobPlan(plan),
+      [
+        "+ create  -|TEXT|https://example.com/new",
+        "~ update  -|TEXT|https://example.com/pricing (#1)",
+        '    interval: "1440" -> "60"',
+        "- delete  -|TEXT|https://example.com/old (#3) [blocked]",
+        "Plan: 1 to create, 1 to update, 1 to delete (1 blocked), 1 unchanged",
+      ].join("\n")
+    );
+  });
+
+  test("specs without a workspace belong to the scoped workspace", async () => {
+    const server = new FakeVisualpingServer({
+      workspaces: [{ id: 10 }],
+      jobs: [{ ...spec("https://a.com"), workspaceId: 10 }],
+    });
+    const client = new VisualpingClient("test@example.com", "password", { fetch: server.fetch });
+    const reconciler = new JobReconciler(client, {
+      scope: { workspaceId: 10 },
+      allowDeletes: true,
+    });
+
+    const plan = await reconciler.plan([spec("https://a.com"), spec("https://b.com")]);
+    assert.deepEqual(plan.unchanged, [{ key: "10|TEXT|https://a.com", jobId: 1 }]);
+    assert.deepEqual(plan.deletes, []);
+    assert.deepEqual(plan.creates.map((c) => c.key), ["10|TEXT|https://b.com"]);
+
+    await reconciler.apply(plan);
+    assert.deepEqual(
+      server.jobs.map((j) => [j.url, j.workspaceId]),
+      [
+        ["https://a.com", 10],
+        ["https://b.com", 10],
+      ]
+    );
+    client.dispose();
+  });
+
+  test("rejects invalid and duplicate specs", async () => {
+    const { client } = jobsApi();
+    const reconciler = new JobReconciler(client);
+
+    await assert.rejects(
+      reconciler.plan([spec("ftp://example.com")]),
+      (err: any) =>
+        err instanceof VisualpingJobValidationError &&
+        err.violations[0].field === "[0].url"
+    );
+    await assert.rejects(
+      reconciler.plan([spec("https://a.com"), spec("https://a.com")]),
+      (err: any) =>
+        err instanceof VisualpingError && /Duplicate job spec/.test(err.message)
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import { strict as assert } from "node:assert";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { describe } from "node:test";
+import {
+  FakeVisualpingServer,
+  HttpFixture,
+  HttpRecorder,
+  HttpReplayer,
+  loadFixture,
+  VisualpingClient,
+  VisualpingNotFoundError,
+  VisualpingReplayError,
+} from "../src/index";
+
+const EMAIL = "owner@example.com";
+const PASSWORD = "hunter2";
+
+const offline = (async () => {
+  throw new Error("network used during replay");
+}) as typeof fetch;
+
+async function record() {
+  const server = new FakeVisualpingServer({
+    email: EMAIL,
+    password: PASSWORD,
+    jobs: [
+      { url: "https://example.com/a", mode: "TEXT", active: true, interval: "60", trigger: "1", target_device: "4", wait_time: 0 },
+      { url: "https://example.com/b", mode: "VISUAL", active: false, interval: "1440", trigger: "5", target_device: "1", wait_time: 0 },
+    ],
+  });
+  const recorder = new HttpRecorder();
+  const client = new VisualpingClient(EMAIL, PASSWORD, {
+    fetch: server.fetch,
+    middleware: [recorder.middleware],
+  });
+
+  await client.describeUser();
+  await client.getJobs({ pageSize: 1 });
+  await client.updateJob(1, { description: "Renamed" });
+  await assert.rejects(client.getJob(99), VisualpingNotFoundError);
+  client.dispose();
+  return recorder;
+}
+
+function replayClient(fixture: HttpFixture, match?: "sequential" | "request") {
+  const replayer = new HttpReplayer(fixture, { match });
+  const client = new VisualpingClient(EMAIL, PASSWORD, {
+    fetch: offline,
+    middleware: [replayer.middleware],
+    validation: "strict",
+  });
+  return { replayer, client };
+}
+
+describe("HTTP record/replay", () => {
+  test("records every exchange with secrets redacted", async () => {
+    const recorder = await record();
+    const path = join(mkdtempSync(join(tmpdir(), "visualping-fixture-")), "http", "jobs.json");
+    await recorder.save(path);
+
+    const text = readFileSync(path, "utf8");
+    assert.ok(!text.includes(PASSWORD));
+    assert.ok(!text.includes(EMAIL));
+    assert.ok(!text.includes("refresh-"));
+
+    const fixture = await loadFixture(path);
+    assert.deepEqual(
+      fixture.exchanges.map((e) => `${e.method} ${new URL(e.endpoint).pathname} ${e.status}`),
+      [
+        "POST /v2/token 200",
+        "GET /describe-user 200",
+        "GET /v2/jobs 200",
+        "PUT /v2/jobs/1 200",
+        "GET /v2/jobs/99 404",
+      ]
+    );
+    assert.deepEqual(fixture.exchanges[0].requestBody, {
+      method: "PASSWORD",
+      email: "[REDACTED]",
+      password: "[REDACTED]",
+    });
+    assert.equal(fixture.exchanges[4].message, "Job 99 not found");
+  });
+
+  test("replays responses and errors in order", async () => {
+    const { client, replayer } = replayClient((await record()).toFixture());
+
+    assert.equal((await client.describeUser()).emailAddress, "[REDACTED]");
+    const page = await client.getJobs({ pageSize: 1 });
+    assert.equal(page.totalPages, 2);
+    assert.equal((await client.updateJob(1, { description: "Renamed" })).estimatedConsumption.daily, 24);
+    await assert.rejects(client.getJob(99), (err) => err instanceof VisualpingNotFoundError && err.message.endsWith("Job 99 not found"));
+
+    assert.equal(replayer.pending.length, 0);
+    await assert.rejects(client.describeUser(), VisualpingReplayError);
+    client.dispose();
+  });
+
+  test("sequential replay rejects calls out of order", async () => {
+    const { client } = replayClient((await record()).toFixture());
+
+    await assert.rejects(client.getJobs({ pageSize: 1 }), /expected GET .*describe-user as exchange 1/);
+    client.dispose();
+  });
+
+  test("request matching ignores order but compares bodies", async () => {
+    const { client, replayer } = replayClient((await record()).toFixture(), "request");
+
+    await assert.rejects(client.getJob(99), VisualpingNotFoundError);
+    await client.updateJob(1, { description: "Renamed" });
+    await assert.rejects(client.updateJob(1, { description: "Other" }), VisualpingReplayError);
+
+    assert.deepEqual(
+      replayer.pending.map((e) => new URL(e.endpoint).pathname),
+      ["/describe-user", "/v2/jobs"]
+    );
+    client.dispose();
+  });
+
+  test("records and replays every attempt of a retried call", async () => {
+    const server = new FakeVisualpingServer({ email: EMAIL, password: PASSWORD });
+    server.fail({ status: 503, times: 1, path: /\/v2\/jobs/ });
+    const recorder = new HttpRecorder();
+    const retry = { baseDelayMs: 1, maxDelayMs: 5, jitter: 0 };
+    const live = new VisualpingClient(EMAIL, PASSWORD, {
+      fetch: server.fetch,
+      retry,
+      attemptMiddleware: [recorder.middleware],
+    });
+    await live.getJobs();
+    live.dispose();
+
+    const fixture = recorder.toFixture();
+    assert.deepEqual(
+      fixture.exchanges.map((e) => `${new URL(e.endpoint).pathname} ${e.status} #${e.attempt}`),
+      ["/v2/token 200 #1", "/v2/jobs 503 #1", "/v2/jobs 200 #2"]
+    );
+
+    const replayer = new HttpReplayer(fixture);
+    const client = new VisualpingClient(EMAIL, PASSWORD, {
+      fetch: offline,
+      retry,
+      attemptMiddleware: [replayer.middleware],
+    });
+    assert.equal((await client.getJobs()).totalJobs, 0);
+    assert.equal(replayer.pending.length, 0);
+    client.dispose();
+  });
+
+  test("redacts email addresses inside values", async () => {
+    const server = new FakeVisualpingServer({ email: EMAIL, password: PASSWORD });
+    const recorder = new HttpRecorder();
+    const client = new VisualpingClient(EMAIL, PASSWORD, {
+      fetch: server.fetch,
+      middleware: [recorder.middleware],
+    });
+    await client.createJob({
+      url: "https://example.com/a",
+      mode: "TEXT",
+      active: true,
+      interval: "60",
+      trigger: "1",
+      target_device: "1",
+      wait_time: 0,
+      description: `Ask ${EMAIL} first`,
+    });
+    client.dispose();
+
+    assert.ok(!JSON.stringify(recorder.toFixture()).includes(EMAIL));
+    assert.equal(
+      (recorder.exchanges[1].requestBody as { description: string }).description,
+      "Ask [REDACTED] first"
+    );
+  });
+});
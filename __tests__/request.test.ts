@@ -1,5 +1,6 @@
 import { strict as assert } from "node:assert";
 import test, { afterEach, beforeEach, describe } from "node:test";
+import { ID_TOKEN_REFRESH_MS, TOKEN_REFRESH_MARGIN_MS } from "../src/constants";
 import { VisualpingApiError } from "../src/error";
 import { VisualpingClient } from "../src/index";
 
@@ -117,9 +118,31 @@ describe("VisualpingClient.authenticatedRequest", () => {
     assert.equal(calls.length, 2);
   });
 
-  test("does NOT retry on 403 (fails immediately)", async () => {
+  test("does NOT retry on 400 (fails immediately)", async () => {
     globalThis.fetch = (async (url: string, init?: RequestInit) => {
       calls.push({ url, init });
+      return json({ message: "bad request" }, 400);
+    }) as typeof fetch;
+
+    const client: any = new VisualpingClient("e", "p");
+    seedValidAuth(client);
+
+    await assert.rejects(
+      () => client["authenticatedRequest"]("https://x.test/endpoint"),
+      (err: unknown) => {
+        assert.ok(err instanceof VisualpingApiError);
+        assert.equal((err as VisualpingApiError).status, 400);
+        return true;
+      }
+    );
+
+    assert.equal(calls.length, 1);
+  });
+
+  test("403 with a fresh token => fails without re-authenticating", async () => {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      if (url.endsWith("/token")) return json({ id_token: "id_refreshed" });
       return json({ message: "forbidden" }, 403);
     }) as typeof fetch;
 
@@ -134,8 +157,69 @@ describe("VisualpingClient.authenticatedRequest", () => {
         return true;
       }
     );
+    assert.deepEqual(
+      calls.map((c) => c.url),
+      ["https://x.test/endpoint"]
+    );
+  });
 
-    assert.equal(calls.length, 1);
+  test("403 near token expiry => re-authenticates once and replays, then fails", async () => {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      if (url.endsWith("/token")) return json({ id_token: "id_refreshed" });
+      return json({ message: "forbidden" }, 403);
+    }) as typeof fetch;
+
+    const client: any = new VisualpingClient("e", "p");
+    seedValidAuth(client);
+    // still valid, but inside the last refresh margin before its refresh
+    client["lastIdTokenRefresh"] = new Date(
+      Date.now() - ID_TOKEN_REFRESH_MS + TOKEN_REFRESH_MARGIN_MS / 2
+    );
+
+    await assert.rejects(
+      () => client["authenticatedRequest"]("https://x.test/endpoint"),
+      (err: unknown) => {
+        assert.ok(err instanceof VisualpingApiError);
+        assert.equal((err as VisualpingApiError).status, 403);
+        return true;
+      }
+    );
+
+    // original request, REFRESH_TOKEN flow, single replay
+    assert.deepEqual(
+      calls.map((c) => c.url),
+      [
+        "https://x.test/endpoint",
+        "https://api.visualping.io/v2/token",
+        "https://x.test/endpoint",
+      ]
+    );
+    assert.equal(
+      headersOf(calls[2].init).get("Authorization"),
+      "Bearer id_refreshed"
+    );
+  });
+
+  test("401 after a server-side revoke => replay succeeds with new token", async () => {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      if (url.endsWith("/token")) return json({ id_token: "id_refreshed" });
+
+      const auth = headersOf(init).get("Authorization");
+      if (auth === "Bearer id_seeded") {
+        return json({ message: "token revoked" }, 401);
+      }
+      return json({ ok: true });
+    }) as typeof fetch;
+
+    const client: any = new VisualpingClient("e", "p");
+    seedValidAuth(client);
+
+    const res = await client["authenticatedRequest"]("https://x.test/endpoint");
+    assert.deepEqual(res, { ok: true });
+    assert.equal(calls.length, 3);
+    assert.equal(client["idToken"], "id_refreshed");
   });
 
   test("stops after retries (default 2) on repeated 5xx", async () => {
@@ -160,3 +244,72 @@ describe("VisualpingClient.authenticatedRequest", () => {
     assert.equal(calls.length, 3);
   });
 });
+
+describe("VisualpingClient options", () => {
+  test("custom fetch and base URLs are used without patching globals", async () => {
+    const calls: FetchCall[] = [];
+    const customFetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      if (url.endsWith("/token")) {
+        return json({ id_token: "id", refresh_token: "rt" });
+      }
+      return json({ workspaces: [] });
+    }) as typeof fetch;
+
+    globalThis.fetch = (async () => {
+      throw new Error("global fetch must not be called");
+    }) as typeof fetch;
+
+    try {
+      const client = new VisualpingClient("e", "p", {
+        fetch: customFetch,
+        baseUrls: {
+          api: "http://localhost:4000/v2/",
+          account: "http://localhost:4001",
+          job: "http://localhost:4002/v2",
+        },
+      });
+
+      await client.describeUser();
+      await client.getJob(7);
+
+      assert.deepEqual(
+        calls.map((c) => c.url),
+        [
+          "http://localhost:4000/v2/token",
+          "http://localhost:4001/describe-user",
+          "http://localhost:4002/v2/jobs/7",
+        ]
+      );
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("user agent and extra headers are sent on every request", async () => {
+    const calls: FetchCall[] = [];
+    const client = new VisualpingClient("e", "p", {
+      fetch: (async (url: string, init?: RequestInit) => {
+        calls.push({ url, init });
+        return json({ id_token: "id", refresh_token: "rt" });
+      }) as typeof fetch,
+      userAgent: "inventory-bot/1.0",
+      headers: { "X-Egress-Tag": "monitoring" },
+    });
+
+    await client.describeUser();
+
+    assert.equal(calls.length, 2);
+    for (const call of calls) {
+      const h = headersOf(call.init);
+      assert.equal(h.get("User-Agent"), "inventory-bot/1.0");
+      assert.equal(h.get("X-Egress-Tag"), "monitoring");
+      assert.equal(h.get("Content-Type"), "application/json");
+    }
+  });
+
+  test("positional timeout signature keeps working", () => {
+    const client = new VisualpingClient("e", "p", 1234);
+    assert.equal(client["timeoutMs"], 1234);
+  });
+});
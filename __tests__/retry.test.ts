@@ -0,0 +1,207 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  parseRetryAfter,
+  RetryInfo,
+  VisualpingApiError,
+  VisualpingClient,
+  VisualpingTimeoutError,
+} from "../src/index";
+
+type FetchCall = { url: string; init?: RequestInit };
+
+function json(res: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function hangUntilAborted(init?: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener("abort", () =>
+      reject(new DOMException("aborted", "AbortError"))
+    );
+  });
+}
+
+describe("parseRetryAfter", () => {
+  test("parses delay seconds", () => {
+    assert.equal(parseRetryAfter("3"), 3000);
+    assert.equal(parseRetryAfter("0.5"), 500);
+  });
+
+  test("parses an HTTP date", () => {
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+    assert.equal(parseRetryAfter("Wed, 21 Oct 2026 07:28:02 GMT", now), 2000);
+  });
+
+  test("returns null when absent or malformed", () => {
+    assert.equal(parseRetryAfter(null), null);
+    assert.equal(parseRetryAfter("soon"), null);
+  });
+});
+
+describe("VisualpingClient retry policy", () => {
+  test("does not retry a POST by default", async () => {
+    const calls: FetchCall[] = [];
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async (url: string, init?: RequestInit) => {
+          calls.push({ url, init });
+          return json({ message: "server error" }, 503);
+        }) as typeof fetch,
+      }
+    );
+
+    await assert.rejects(() =>
+      client.createJob({
+        url: "https://example.com",
+        mode: "TEXT",
+        active: true,
+        interval: "60",
+        trigger: "1",
+        target_device: "1",
+        wait_time: 0,
+      })
+    );
+    assert.equal(calls.length, 1);
+  });
+
+  test("retries a POST when it is declared idempotent", async () => {
+    const calls: FetchCall[] = [];
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async (url: string, init?: RequestInit) => {
+          calls.push({ url, init });
+          return calls.length === 1
+            ? json({ message: "server error" }, 503)
+            : json({ id: "1", jobid: "1" });
+        }) as typeof fetch,
+        retry: { idempotentMethods: ["GET", "POST"], baseDelayMs: 1 },
+      }
+    );
+
+    await client["authenticatedRequest"]("https://x.test/jobs", {
+      method: "POST",
+    });
+    assert.equal(calls.length, 2);
+  });
+
+  test("waits for Retry-After and reports retries through onRetry", async () => {
+    const retries: RetryInfo[] = [];
+    let n = 0;
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          n += 1;
+          return n === 1
+            ? json({ message: "slow down" }, 429, { "Retry-After": "0.05" })
+            : json({ ok: true });
+        }) as typeof fetch,
+        retry: { onRetry: (info) => void retries.push(info) },
+      }
+    );
+
+    const res = await client["authenticatedRequest"]("https://x.test/jobs");
+
+    assert.deepEqual(res, { ok: true });
+    assert.equal(retries.length, 1);
+    assert.equal(retries[0].attempt, 1);
+    assert.equal(retries[0].delayMs, 50);
+    assert.equal(retries[0].method, "GET");
+    assert.equal((retries[0].error as VisualpingApiError).status, 429);
+  });
+
+  test("gives up when Retry-After exceeds maxDelayMs", async () => {
+    let n = 0;
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          n += 1;
+          return json({ message: "slow down" }, 429, { "Retry-After": "120" });
+        }) as typeof fetch,
+        retry: { maxDelayMs: 1000 },
+      }
+    );
+
+    await assert.rejects(() => client["authenticatedRequest"]("https://x.test"));
+    assert.equal(n, 1);
+  });
+
+  test("maxAttempts bounds the number of calls", async () => {
+    let n = 0;
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          n += 1;
+          return json({ message: "server error" }, 500);
+        }) as typeof fetch,
+        retry: { maxAttempts: 5, baseDelayMs: 1, jitter: 0 },
+      }
+    );
+
+    await assert.rejects(() => client["authenticatedRequest"]("https://x.test"));
+    assert.equal(n, 5);
+  });
+
+  test("client timeouts are handled separately from server 408s", async () => {
+    let n = 0;
+    const timingOut = new VisualpingClient(
+      { idToken: "id" },
+      {
+        timeoutMs: 20,
+        fetch: (async (_url: string, init?: RequestInit) => {
+          n += 1;
+          return hangUntilAborted(init);
+        }) as typeof fetch,
+        retry: { retryOnTimeout: false },
+      }
+    );
+
+    await assert.rejects(
+      () => timingOut["authenticatedRequest"]("https://x.test"),
+      (err: unknown) => err instanceof VisualpingTimeoutError
+    );
+    assert.equal(n, 1);
+
+    let m = 0;
+    const serverTimeout = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          m += 1;
+          return m === 1
+            ? json({ message: "request timeout" }, 408)
+            : json({ ok: true });
+        }) as typeof fetch,
+        retry: { retryOnTimeout: false, baseDelayMs: 1 },
+      }
+    );
+
+    await serverTimeout["authenticatedRequest"]("https://x.test");
+    assert.equal(m, 2);
+  });
+
+  test("retry: false disables built-in retries", async () => {
+    let n = 0;
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      {
+        fetch: (async () => {
+          n += 1;
+          return json({ message: "server error" }, 500);
+        }) as typeof fetch,
+        retry: false,
+      }
+    );
+
+    await assert.rejects(() => client["authenticatedRequest"]("https://x.test"));
+    assert.equal(n, 1);
+  });
+});
@@ -0,0 +1,248 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { afterEach, beforeEach, describe } from "node:test";
+import {
+  FileTokenStore,
+  MemoryTokenStore,
+  TokenSet,
+  VisualpingClient,
+  VisualpingLockTimeoutError,
+} from "../src/index";
+
+type FetchCall = { url: string; init?: RequestInit };
+
+const originalFetch = globalThis.fetch;
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function freshTokens(): TokenSet {
+  return {
+    idToken: "stored_id",
+    refreshToken: "stored_rt",
+    lastIdTokenRefresh: Date.now(),
+    lastRefreshTokenRefresh: Date.now(),
+  };
+}
+
+describe("FileTokenStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "vp-tokens-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("get/set/clear round trip", async () => {
+    const store = new FileTokenStore(join(dir, "nested", "tokens.json"));
+
+    assert.equal(await store.get(), null);
+
+    const tokens = freshTokens();
+    await store.set(tokens);
+    assert.deepEqual(await store.get(), tokens);
+
+    const info = await stat(store.path);
+    assert.equal(info.mode & 0o777, 0o600);
+
+    await store.clear();
+    assert.equal(await store.get(), null);
+  });
+
+  test("withLock serializes concurrent holders", async () => {
+    const store = new FileTokenStore(join(dir, "tokens.json"), {
+      lockRetryMs: 5,
+    });
+    const events: string[] = [];
+
+    const hold = (name: string) =>
+      store.withLock(async () => {
+        events.push(`${name}:start`);
+        await new Promise((r) => setTimeout(r, 20));
+        events.push(`${name}:end`);
+      });
+
+    await Promise.all([hold("a"), hold("b")]);
+
+    assert.deepEqual(events.slice(0, 2), ["a:start", "a:end"]);
+    assert.deepEqual(events.slice(2), ["b:start", "b:end"]);
+  });
+
+  test("withLock removes a stale lock file", async () => {
+    const store = new FileTokenStore(join(dir, "tokens.json"), {
+      staleLockMs: 0,
+      lockRetryMs: 5,
+    });
+    const abandoned = new FileTokenStore(store.path);
+
+    // simulate a crashed process that never released the lock
+    let release!: () => void;
+    const held = abandoned.withLock(
+      () => new Promise<void>((r) => (release = r))
+    );
+    await new Promise((r) => setTimeout(r, 10));
+
+    let ran = false;
+    await store.withLock(async () => {
+      ran = true;
+    });
+    assert.ok(ran);
+
+    release();
+    await held;
+  });
+  test("withLock keeps a slow holder's lock fresh", async () => {
+    const store = new FileTokenStore(join(dir, "tokens.json"), {
+      staleLockMs: 60,
+      lockRetryMs: 5,
+    });
+    const events: string[] = [];
+
+    const hold = (name: string) =>
+      store.withLock(async () => {
+        events.push(`${name}:start`);
+        await new Promise((r) => setTimeout(r, 200));
+        events.push(`${name}:end`);
+      });
+
+    await Promise.all([hold("a"), hold("b"), hold("c")]);
+
+    for (let i = 0; i < events.length; i += 2) {
+      assert.equal(events[i].split(":")[0], events[i + 1].split(":")[0]);
+    }
+  });
+
+  test("withLock times out with a typed error", async () => {
+    const store = new FileTokenStore(join(dir, "tokens.json"), {
+      lockRetryMs: 5,
+      lockTimeoutMs: 30,
+    });
+
+    await store.withLock(async () => {
+      await assert.rejects(
+        store.withLock(async () => assert.fail("lock is held")),
+        (err) =>
+          err instanceof VisualpingLockTimeoutError &&
+          err.lockPath === `${store.path}.lock`
+      );
+    });
+  });
+
+  test("withLock leaves a lock it no longer owns", async () => {
+    const store = new FileTokenStore(join(dir, "tokens.json"));
+    const lockPath = `${store.path}.lock`;
+
+    await store.withLock(async () => {
+      // another process took the lock over meanwhile
+      await writeFile(lockPath, "someone-else");
+    });
+
+    assert.equal(await readFile(lockPath, "utf8"), "someone-else");
+  });
+});
+
+describe("VisualpingClient with a TokenStore", () => {
+  let calls: FetchCall[] = [];
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("reuses valid tokens from the store without logging in", async () => {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return json({ ok: true });
+    }) as typeof fetch;
+
+    const store = new MemoryTokenStore();
+    await store.set(freshTokens());
+
+    const client = new VisualpingClient("e", "p", 30000, store);
+    await client.describeUser();
+
+    assert.equal(calls.length, 1);
+    assert.equal(
+      new Headers(calls[0].init?.headers).get("Authorization"),
+      "Bearer stored_id"
+    );
+  });
+
+  test("writes tokens from the password flow to the store", async () => {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return json({ id_token: "id_pw", refresh_token: "rt_pw" });
+    }) as typeof fetch;
+
+    const store = new MemoryTokenStore();
+    const client = new VisualpingClient("e", "p", 30000, store);
+    await client["ensureAuthenticated"]();
+
+    const stored = await store.get();
+    assert.equal(stored?.idToken, "id_pw");
+    assert.equal(stored?.refreshToken, "rt_pw");
+    assert.equal(typeof stored?.lastIdTokenRefresh, "number");
+    assert.equal(typeof stored?.lastRefreshTokenRefresh, "number");
+  });
+
+  test("rejected refresh token clears the store and logs in again", async () => {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      const body = JSON.parse(String(init?.body)) as { method: string };
+      if (body.method === "REFRESH_TOKEN") {
+        return json({ message: "invalid refresh token" }, 400);
+      }
+      return json({ id_token: "id_pw", refresh_token: "rt_pw" });
+    }) as typeof fetch;
+
+    const store = new MemoryTokenStore();
+    await store.set({ ...freshTokens(), lastIdTokenRefresh: 0 });
+
+    const client = new VisualpingClient("e", "p", 30000, store);
+    await client["ensureAuthenticated"]();
+
+    assert.equal(calls.length, 2);
+    assert.equal((await store.get())?.refreshToken, "rt_pw");
+  });
+
+  test("clients sharing a file store log in only once", async (t) => {
+    const dir = await mkdtemp(join(tmpdir(), "vp-tokens-"));
+    t.after(() => rm(dir, { recursive: true, force: true }));
+
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      await new Promise((r) => setTimeout(r, 20));
+      return json({ id_token: "id_pw", refresh_token: "rt_pw" });
+    }) as typeof fetch;
+
+    const path = join(dir, "tokens.json");
+    const clients = [1, 2, 3].map(
+      () =>
+        new VisualpingClient(
+          "e",
+          "p",
+          30000,
+          new FileTokenStore(path, { lockRetryMs: 5 })
+        )
+    );
+
+    await Promise.all(clients.map((c) => c["ensureAuthenticated"]()));
+
+    assert.equal(calls.length, 1);
+    for (const c of clients) {
+      assert.equal(c["idToken"], "id_pw");
+    }
+  });
+});
@@ -0,0 +1,181 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  OutputMode,
+  ValidationMode,
+  VisualpingClient,
+  VisualpingError,
+  VisualpingResponseValidationError,
+} from "../src/index";
+import {
+  array,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  validate,
+} from "../src/validation/schema";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function clientWith(validation: ValidationMode, body: unknown) {
+  return new VisualpingClient(
+    { idToken: "id" },
+    {
+      validation,
+      fetch: (async () => json(body)) as typeof fetch,
+    }
+  );
+}
+
+const meta = {
+  totalJobs: 1,
+  activeJobCount: 1,
+  pageSize: 100,
+  totalPages: 1,
+  pageIndex: 0,
+};
+
+const job = {
+  id: 1,
+  url: "https://example.com",
+  description: "Example",
+  isActive: true,
+  faviconKey: "",
+  mode: "TEXT",
+  inProgress: false,
+  notificationThreshold: 0.1,
+  interval: 60,
+};
+
+async function withWarnings(fn: () => Promise<unknown>): Promise<string[]> {
+  const warnings: string[] = [];
+  const original = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+  try {
+    await fn();
+  } finally {
+    console.warn = original;
+  }
+  return warnings;
+}
+
+describe("schema", () => {
+  const schema = object<{
+    id: number;
+    tags: string[];
+    mode: "A" | "B";
+    note?: string;
+    parent: number | null;
+  }>({
+    id: number(),
+    tags: array(string()),
+    mode: oneOf(["A", "B"] as const),
+    note: optional(string()),
+    parent: nullable(number()),
+  });
+
+  test("accepts matching values and extra fields", () => {
+    const issues = validate(schema, {
+      id: 1,
+      tags: ["a"],
+      mode: "A",
+      parent: null,
+      extra: true,
+    });
+    assert.deepEqual(issues, []);
+  });
+
+  test("reports every mismatch with its path", () => {
+    const issues = validate(schema, {
+      id: "1",
+      tags: ["a", 2],
+      mode: "C",
+      parent: 3,
+    });
+    assert.deepEqual(issues, [
+      { path: "$.id", expected: "number", received: 'string "1"' },
+      { path: "$.tags[1]", expected: "string", received: "number 2" },
+      { path: "$.mode", expected: '"A" | "B"', received: 'string "C"' },
+    ]);
+  });
+});
+
+describe("response validation", () => {
+  test("off (default) returns the body unchecked", async () => {
+    const client = new VisualpingClient(
+      { idToken: "id" },
+      { fetch: (async () => json({ nope: true })) as typeof fetch }
+    );
+    assert.deepEqual(await client.getJobs(), { nope: true });
+  });
+
+  test("strict accepts a matching response", async () => {
+    const body = { ...meta, jobs: [job] };
+    const client = clientWith("strict", body);
+    assert.deepEqual(await client.getJobs(), body);
+  });
+
+  test("strict throws a typed error with the path of the mismatch", async () => {
+    const client = clientWith("strict", {
+      ...meta,
+      jobs: [job, { ...job, id: "2" }],
+    });
+
+    await assert.rejects(client.getJobs(), (err: any) => {
+      assert.ok(err instanceof VisualpingResponseValidationError);
+      assert.ok(err instanceof VisualpingError);
+      assert.equal(err.path, "$.jobs[1].id");
+      assert.equal(err.issues.length, 1);
+      assert.equal(err.method, "GET");
+      assert.match(err.message, /\$\.jobs\[1\]\.id: expected number/);
+      return true;
+    });
+  });
+
+  test("the schema follows the output mode", async () => {
+    const client = clientWith("strict", { ...meta, jobIds: [1, 2] });
+    const res = await client.getJobs({ mode: OutputMode.IDS_ONLY });
+    assert.deepEqual(res.jobIds, [1, 2]);
+
+    await assert.rejects(
+      client.getJobs({ mode: OutputMode.IDS_AND_WS_IDS }),
+      (err: any) => err.path === "$.jobIdsByWsId"
+    );
+  });
+
+  test("lenient warns and passes the data through", async () => {
+    const body = { changed: "yes", deletedJobIds: [1] };
+    const client = clientWith("lenient", body);
+
+    let result: unknown;
+    const warnings = await withWarnings(async () => {
+      result = await client.deleteJob(1);
+    });
+
+    assert.deepEqual(result, body);
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /\$\.changed: expected boolean/);
+  });
+
+  test("token responses are checked as well", async () => {
+    const client = new VisualpingClient("a@b.c", "pw", {
+      validation: "strict",
+      fetch: (async () => json({ id_token: 123 })) as typeof fetch,
+    });
+
+    await assert.rejects(
+      client.describeUser(),
+      (err: any) =>
+        err instanceof VisualpingResponseValidationError &&
+        err.path === "$.id_token"
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import { JobWatchEvent, VisualpingClient } from "../src/index";
+import { nextPollAt } from "../src/watch";
+
+function json(res: unknown, status = 200) {
+  return new Response(JSON.stringify(res), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const at = (minute: number) =>
+  new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString();
+
+function jobState(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "1",
+    active: true,
+    in_progress: false,
+    next_run: at(0),
+    changes: [{ id: "c1", created: at(1) }],
+    history: [{ created: at(1), error_message: "" }],
+    ...overrides,
+  };
+}
+
+/**
+ * Client serving the given job states, one per poll, then 404. A number
+ * answers with that status instead.
+ */
+function watchClient(states: unknown[]) {
+  const polled: string[] = [];
+  const fetchImpl = async (url: string) => {
+    polled.push(url);
+    const state = states.shift();
+    if (typeof state === "number") return json({ message: "failed" }, state);
+    return state ? json(state) : json({ message: "gone" }, 404);
+  };
+  const client = new VisualpingClient(
+    { idToken: "id" },
+    { fetch: fetchImpl as typeof fetch, retry: false }
+  );
+  return { client, polled };
+}
+
+const fast = { pollIntervalMs: 1, maxPollIntervalMs: 1, runGraceMs: 0 };
+
+async function collect(iterable: AsyncIterable<JobWatchEvent>) {
+  const events: JobWatchEvent[] = [];
+  for await (const event of iterable) events.push(event);
+  return events;
+}
+
+describe("VisualpingClient.watchJobs", () => {
+  test("reports what changed since the previous poll", async () => {
+    const { client, polled } = watchClient([
+      jobState({ in_progress: true }),
+      jobState({
+        active: false,
+        changes: [
+          { id: "c1", created: at(1) },
+          { id: "c3", created: at(3) },
+          { id: "c2", created: at(2) },
+        ],
+        history: [
+          { created: at(1), error_message: "" },
+          { created: at(2), error_message: "" },
+          { created: at(3), error_message: "Timeout" },
+        ],
+      }),
+    ]);
+
+    const events = await collect(client.watchJobs([1], fast));
+
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["change", "change", "checkError", "runFinished", "inactive"]
+    );
+    assert.deepEqual(
+      events
+        .filter((e) => e.type === "change")
+        .map((e) => e.type === "change" && e.change.id),
+      ["c2", "c3"]
+    );
+    const finished = events[3];
+    assert.equal(
+      finished.type === "runFinished" && finished.entry?.error_message,
+      "Timeout"
+    );
+    assert.equal(events[4].cursor?.lastChangeAt, Date.parse(at(3)));
+    // the third poll got a 404, which ends the watch
+    assert.equal(polled.length, 3);
+  });
+
+  test("resumes from a cursor without replaying old events", async () => {
+    const { client } = watchClient([
+      jobState({
+        changes: [
+          { id: "c1", created: at(1) },
+          { id: "c2", created: at(2) },
+        ],
+      }),
+    ]);
+
+    const events = await collect(
+      client.watchJob(1, undefined, {
+        ...fast,
+        cursors: {
+          1: {
+            lastChangeAt: Date.parse(at(1)),
+            lastHistoryAt: Date.parse(at(1)),
+            active: true,
+            inProgress: false,
+          },
+        },
+      })
+    );
+
+    assert.deepEqual(
+      events.map((e) => e.type === "change" && e.change.id),
+      ["c2"]
+    );
+  });
+
+  test("reports runs finishing between two polls", async () => {
+    const { client } = watchClient([
+      jobState({ last_run: at(0) }),
+      jobState({
+        last_run: at(2),
+        history: [
+          { created: at(1), error_message: "" },
+          { created: at(2), error_message: "" },
+        ],
+      }),
+      jobState({ last_run: at(3), history: [{ created: at(2), error_message: "" }] }),
+    ]);
+
+    const events = await collect(client.watchJobs([1], fast));
+
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["runFinished", "runFinished"]
+    );
+  });
+
+  test("reports poll failures and keeps watching", async () => {
+    const { client, polled } = watchClient([
+      jobState(),
+      500,
+      jobState({ changes: [{ id: "c1", created: at(1) }, { id: "c2", created: at(2) }] }),
+    ]);
+
+    const events = await collect(client.watchJobs([1], fast));
+
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["pollError", "change"]
+    );
+    const [failed] = events;
+    assert.equal(failed.type === "pollError" && failed.jobId, 1);
+    assert.equal(polled.length, 4);
+  });
+
+  test("stops when aborted", async () => {
+    const controller = new AbortController();
+    const { client } = watchClient([jobState(), jobState(), jobState()]);
+
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(
+      collect(
+        client.watchJobs([1], {
+          pollIntervalMs: 10_000,
+          signal: controller.signal,
+        })
+      ),
+      { name: "VisualpingAbortError" }
+    );
+  });
+});
+
+describe("nextPollAt", () => {
+  const schedule = {
+    pollIntervalMs: 60_000,
+    maxPollIntervalMs: 3_600_000,
+    runGraceMs: 30_000,
+  };
+  const now = Date.parse(at(0));
+  const job = (overrides: Record<string, unknown>) =>
+    ({ active: true, in_progress: false, next_run: at(10), ...overrides }) as any;
+
+  test("polls shortly after next_run", () => {
+    assert.equal(nextPollAt(job({}), now, schedule), Date.parse(at(10)) + 30_000);
+  });
+
+  test("clamps to the poll interval bounds", () => {
+    assert.equal(nextPollAt(job({ next_run: at(0) }), now, schedule), now + 60_000);
+    assert.equal(
+      nextPollAt(job({ next_run: at(600) }), now, schedule),
+      now + 3_600_000
+    );
+  });
+
+  test("running jobs are polled eagerly, paused ones rarely", () => {
+    assert.equal(nextPollAt(job({ in_progress: true }), now, schedule), now + 60_000);
+    assert.equal(nextPollAt(job({ active: false }), now, schedule), now + 3_600_000);
+  });
+});
@@ -0,0 +1,222 @@
+import { strict as assert } from "node:assert";
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { AddressInfo, connect } from "node:net";
+import { join } from "node:path";
+import test, { describe } from "node:test";
+import {
+  createWebhookHandler,
+  parseWebhookPayload,
+  VisualpingWebhookError,
+  WebhookChangeEvent,
+} from "../src/index";
+
+/**
+ * Synthetic payloads written by hand to match `VisualpingWebhookPayload`.
+ * They are not captured from real Visualping deliveries.
+ */
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "webhooks", name), "utf8");
+}
+
+describe("parseWebhookPayload", () => {
+  test("parses a full text-change payload", () => {
+    const event = parseWebhookPayload(fixture("text-change.json"));
+
+    assert.equal(event.type, "change");
+    assert.equal(event.jobId, 4821733);
+    assert.equal(event.workspaceId, 10452);
+    assert.equal(event.mode, "TEXT");
+    assert.equal(event.percentChange, 2.41);
+    assert.equal(event.detectedAt.toISOString(), "2024-03-18T14:02:11.000Z");
+    assert.equal(event.important, true);
+    assert.match(event.summary ?? "", /Pro plan/);
+    assert.equal(
+      event.images.current,
+      "https://cdn.visualping.io/shot/9f1c2e-current.png"
+    );
+  });
+
+  test("normalizes a minimal payload with string numbers and nulls", () => {
+    const event = parseWebhookPayload(
+      Buffer.from(fixture("visual-change-minimal.json"))
+    );
+
+    assert.equal(event.jobId, "4821734");
+    assert.equal(event.percentChange, 0.8);
+    assert.equal(event.summary, undefined);
+    assert.equal(event.important, false);
+    assert.deepEqual(event.images, {
+      diff: undefined,
+      current: undefined,
+      previous: undefined,
+    });
+  });
+
+  test("rejects malformed bodies with every issue", () => {
+    assert.throws(
+      () => parseWebhookPayload(fixture("malformed.json")),
+      (err: any) =>
+        err instanceof VisualpingWebhookError &&
+        err.issues.map((i) => i.path).join() ===
+          "$.description,$.detected_at,$.percent_change"
+    );
+    assert.throws(() => parseWebhookPayload("{not json"), /body is not JSON/);
+    assert.throws(
+      () =>
+        parseWebhookPayload({
+          ...JSON.parse(fixture("text-change.json")),
+          percent_change: "n/a",
+        }),
+      /percent_change/
+    );
+    assert.throws(
+      () =>
+        parseWebhookPayload({
+          ...JSON.parse(fixture("text-change.json")),
+          percent_change: "",
+        }),
+      /percent_change/
+    );
+  });
+});
+
+describe("createWebhookHandler", () => {
+  async function withServer(
+    handler: ReturnType<typeof createWebhookHandler>,
+    fn: (url: string) => Promise<void>
+  ) {
+    const server = createServer(handler);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      await fn(`http://127.0.0.1:${port}/visualping?token=s3cret`);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  test("node:http - emits change events and answers 204", async () => {
+    const events: WebhookChangeEvent[] = [];
+    const handler = createWebhookHandler({ onChange: (e) => void events.push(e) });
+
+    await withServer(handler, async (url) => {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: fixture("text-change.json"),
+      });
+      assert.equal(res.status, 204);
+    });
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].jobId, 4821733);
+  });
+
+  test("node:http - rejects invalid requests", async () => {
+    const errors: unknown[] = [];
+    const handler = createWebhookHandler({
+      onChange: () => assert.fail("not a valid payload"),
+      onError: (err) => errors.push(err),
+      maxBodyBytes: 1000,
+    });
+
+    await withServer(handler, async (url) => {
+      const malformed = await fetch(url, {
+        method: "POST",
+        body: fixture("malformed.json"),
+      });
+      assert.equal(malformed.status, 400);
+      const body = await malformed.json();
+      assert.equal(body.issues.length, 3);
+
+      assert.equal((await fetch(url)).status, 405);
+      assert.equal(
+        (await fetch(url, { method: "POST", body: "x".repeat(2000) })).status,
+        413
+      );
+    });
+
+    assert.equal(errors.length, 1);
+  });
+
+  test("node:http - survives a client aborting its upload", async () => {
+    const errors: unknown[] = [];
+    const handler = createWebhookHandler({
+      onChange: () => assert.fail("body never completed"),
+      onError: (err) => errors.push(err),
+    });
+    const server = createServer(async (req, res) => {
+      await handler(req, res);
+      server.emit("handled");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const handled = new Promise((resolve) => server.once("handled", resolve));
+      const socket = connect(port, "127.0.0.1", () => {
+        socket.write(
+          "POST /visualping HTTP/1.1\r\nHost: localhost\r\n" +
+            "Content-Type: application/json\r\nContent-Length: 1000\r\n\r\n{\"job"
+        );
+        setTimeout(() => socket.destroy(), 20);
+      });
+      await handled;
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+
+    assert.equal(errors.length, 1);
+    assert.ok(errors[0] instanceof VisualpingWebhookError);
+  });
+
+  test("authorize and onChange failures", async () => {
+    const handler = createWebhookHandler({
+      authorize: (req) => new URL(req.url ?? "", "http://x").searchParams.get("token") === "s3cret",
+      onChange: () => {
+        throw new Error("db down");
+      },
+    });
+
+    const payload = JSON.parse(fixture("text-change.json"));
+    assert.equal(
+      (await handler.handle({ method: "POST", url: "/hook", headers: {}, body: payload }))
+        .status,
+      401
+    );
+    // 500 so that the delivery is retried
+    assert.equal(
+      (
+        await handler.handle({
+          method: "POST",
+          url: "/hook?token=s3cret",
+          headers: {},
+          body: payload,
+        })
+      ).status,
+      500
+    );
+  });
+
+  test("uses a body already parsed by a framework", async () => {
+    const events: WebhookChangeEvent[] = [];
+    const handler = createWebhookHandler({ onChange: (e) => void events.push(e) });
+
+    // Express with express.json(): req.body is set, the stream is consumed
+    const req: any = {
+      method: "POST",
+      url: "/hook",
+      headers: {},
+      body: JSON.parse(fixture("visual-change-minimal.json")),
+    };
+    const res: any = {
+      end: () => undefined,
+      setHeader: () => undefined,
+    };
+    await handler(req, res);
+
+    assert.equal(res.statusCode, 204);
+    assert.equal(events[0].percentChange, 0.8);
+  });
+});
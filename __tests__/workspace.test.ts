@@ -0,0 +1,110 @@
+import { strict as assert } from "node:assert";
+import test, { describe } from "node:test";
+import {
+  CreateJobRequest,
+  FakeVisualpingServer,
+  OutputMode,
+  VisualpingClient,
+  VisualpingError,
+} from "../src/index";
+
+function job(workspaceId: number): CreateJobRequest {
+  return { url: "https://example.com", mode: "TEXT", active: true, interval: "60", trigger: "1", target_device: "1", wait_time: 0, workspaceId };
+}
+
+function setup() {
+  const server = new FakeVisualpingServer({
+    organisationId: 77,
+    workspaces: [
+      { id: 1, name: "Marketing", role: "ADMIN" },
+      { id: 2, name: "Legal", role: "VIEWER" },
+      { id: 3, name: "Support", role: "ADMIN" },
+    ],
+    jobs: [job(1), job(2), job(1)],
+  });
+  const client = new VisualpingClient("test@example.com", "password", { fetch: server.fetch });
+  const calls = (method: string, path: string) =>
+    server.requests.filter((r) => r.method === method && r.path.includes(path)).length;
+  return { server, client, calls };
+}
+
+describe("VisualpingClient.workspace", () => {
+  test("scopes reads to the workspace", async () => {
+    const { server, client } = setup();
+    const marketing = client.workspace(1);
+
+    const jobs = await marketing.getAllJobs();
+    assert.deepEqual(jobs.map((j) => j.id), [1, 3]);
+
+    const ids = await marketing.getJobs({ mode: OutputMode.IDS_ONLY });
+    assert.deepEqual([...ids.jobIds].sort(), [1, 3]);
+
+    assert.equal(String((await marketing.getJob(3)).id), "3");
+    assert.ok(server.requests.filter((r) => r.path.includes("/jobs")).every((r) => r.path.includes("workspaceId=1")));
+    assert.equal((await marketing.getWorkspace()).name, "Marketing");
+    await assert.rejects(client.workspace(9).getWorkspace(), VisualpingError);
+    client.dispose();
+  });
+
+  test("adds the workspace and organisation to updates", async () => {
+    const { server, client, calls } = setup();
+    const marketing = client.workspace(1);
+
+    await marketing.updateJob(1, { description: "Homepage" });
+    const report = await marketing.pauseJobs([1, 3]);
+    assert.equal(report.succeeded, 2);
+
+    const puts = server.requests.filter((r) => r.method === "PUT");
+    assert.equal(puts.length, 3);
+    for (const put of puts) {
+      assert.equal((put.body as { workspaceId: number }).workspaceId, 1);
+      assert.equal((put.body as { organisationId: number }).organisationId, 77);
+    }
+    assert.equal(calls("GET", "/describe-user"), 1);
+
+    await client.workspace(1, { organisationId: 5 }).updateJob(1, { active: true });
+    assert.equal((server.requests.at(-1)?.body as { organisationId: number }).organisationId, 5);
+    assert.equal(calls("GET", "/describe-user"), 1);
+    client.dispose();
+  });
+
+  test("creates jobs in the workspace", async () => {
+    const { server, client } = setup();
+    const { workspaceId: _ws, ...spec } = job(0);
+
+    await client.workspace(3).createJob(spec);
+    assert.equal(server.jobs.at(-1)?.workspaceId, 3);
+    client.dispose();
+  });
+});
+
+describe("VisualpingClient.forEachWorkspace", () => {
+  test("runs once per workspace and reports each one", async () => {
+    const { client } = setup();
+
+    const report = await client.forEachWorkspace(
+      async (ws, details) => {
+        if (details.name === "Support") throw new Error("no access");
+        return (await ws.getJobs({ mode: OutputMode.COUNTS_ONLY })).totalJobs;
+      },
+      { concurrency: 1 }
+    );
+
+    assert.equal(report.succeeded, 2);
+    assert.equal(report.failed, 1);
+    assert.deepEqual(
+      report.results.map((r) => [r.workspaceId, r.status === "succeeded" ? r.result : r.status]),
+      [
+        [1, 2],
+        [2, 1],
+        [3, "failed"],
+      ]
+    );
+
+    const admin = await client.forEachWorkspace(async (ws) => ws.workspaceId, {
+      filter: (ws) => ws.role === "ADMIN",
+    });
+    assert.deepEqual(admin.results.map((r) => r.workspace.name), ["Marketing", "Support"]);
+    client.dispose();
+  });
+});
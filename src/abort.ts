@@ -0,0 +1,59 @@
+import { RequestDetails, VisualpingAbortError } from './error';
+
+/**
+ * Signal that aborts as soon as any of `signals` does.
+ *
+ * @returns The combined signal and a function detaching it from its sources
+ */
+export function anySignal(signals: Array<AbortSignal | undefined>): {
+  signal: AbortSignal;
+  cleanup: () => void;
+} {
+  const controller = new AbortController();
+  const sources = signals.filter((s): s is AbortSignal => s !== undefined);
+
+  const aborted = sources.find((s) => s.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, cleanup: () => undefined };
+  }
+
+  const onAbort = (event: Event) => {
+    controller.abort((event.target as AbortSignal).reason);
+    cleanup();
+  };
+  const cleanup = () =>
+    sources.forEach((s) => s.removeEventListener('abort', onAbort));
+  sources.forEach((s) => s.addEventListener('abort', onAbort));
+
+  return { signal: controller.signal, cleanup };
+}
+
+export function throwIfAborted(
+  signal: AbortSignal | undefined,
+  request?: RequestDetails
+): void {
+  if (signal?.aborted) throw new VisualpingAbortError(signal.reason, request);
+}
+
+/**
+ * `setTimeout` as a promise that rejects early when `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new VisualpingAbortError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new VisualpingAbortError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,72 @@
+import { VisualpingAbortError, VisualpingError } from './error';
+import { BulkJobResult, BulkOptions, BulkReport } from './types/client';
+
+/**
+ * Run `task` for every job with at most `concurrency` in flight.
+ *
+ * Failures are recorded and the remaining jobs still run, unless
+ * `stopOnError` is set. Jobs not started when the signal aborts, or after a
+ * failure with `stopOnError`, are reported as skipped.
+ *
+ * @throws {VisualpingError} when `concurrency` is not a positive integer
+ */
+export async function runBulk<T>(
+  jobIds: Array<number | string>,
+  task: (jobId: number | string) => Promise<T | null>,
+  options: BulkOptions = {}
+): Promise<BulkReport<T>> {
+  const { concurrency = 5, stopOnError = false, signal } = options;
+  if (!(Number.isInteger(concurrency) && concurrency >= 1)) {
+    throw new VisualpingError(
+      `Invalid bulk options: concurrency must be an integer of at least 1, got ${concurrency}`
+    );
+  }
+  const results: BulkJobResult<T>[] = new Array(jobIds.length);
+  const seen = new Set<string>();
+  let next = 0;
+  let stopReason: string | null = null;
+
+  const worker = async () => {
+    while (next < jobIds.length) {
+      const index = next++;
+      const jobId = jobIds[index];
+
+      if (signal?.aborted) stopReason ??= 'aborted';
+      if (stopReason !== null) {
+        results[index] = { jobId, status: 'skipped', reason: stopReason };
+        continue;
+      }
+      if (seen.has(String(jobId))) {
+        results[index] = { jobId, status: 'skipped', reason: 'duplicate' };
+        continue;
+      }
+      seen.add(String(jobId));
+
+      try {
+        const result = await task(jobId);
+        results[index] =
+          result === null
+            ? { jobId, status: 'skipped', reason: 'nothing to do' }
+            : { jobId, status: 'succeeded', result };
+      } catch (error) {
+        results[index] = { jobId, status: 'failed', error };
+        if (error instanceof VisualpingAbortError) stopReason ??= 'aborted';
+        else if (stopOnError) stopReason ??= 'previous job failed';
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, jobIds.length)) },
+      worker
+    )
+  );
+
+  return {
+    results,
+    succeeded: results.filter((r) => r.status === 'succeeded').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    skipped: results.filter((r) => r.status === 'skipped').length,
+  };
+}
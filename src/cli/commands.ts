@@ -0,0 +1,414 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { VisualpingClient } from '../client';
+import { JobExportFormat } from '../jobExport';
+import { JobBuilder, JobInterval, parseInterval } from '../jobBuilder';
+import { JobModeType, TargetDeviceType } from '../types/api/common';
+import { CreateJobRequest } from '../types/api/request/createJob';
+import {
+  EventFilterType,
+  FrequencyFilterType,
+  GetJobsParams,
+  JobSortBy,
+} from '../types/api/request/getJobs';
+import { UpdateJobRequest } from '../types/api/request/updateJob';
+import { BulkReport, CallOptions } from '../types/client';
+import { fromYaml } from '../yaml';
+import { CliConfig } from './config';
+import {
+  CliUsageError,
+  exitCodeFor,
+  ExitCode,
+  ExitCodeType,
+} from './exitCodes';
+import { CommandOutput } from './output';
+
+/**
+ * Parsed flags shared by every command. Repeatable flags also accept
+ * comma-separated values.
+ */
+export interface CliFlags {
+  workspace?: string;
+  organisation?: string;
+  yes?: boolean;
+
+  // jobs list
+  page?: string;
+  'page-size'?: string;
+  active?: string[];
+  'mode-filter'?: string[];
+  frequency?: string[];
+  'advanced-schedule'?: string;
+  event?: string[];
+  date?: string;
+  'date-start'?: string;
+  search?: string;
+  label?: string[];
+  'sort-by'?: string[];
+
+  // jobs create / update
+  file?: string;
+  url?: string;
+  mode?: string;
+  description?: string;
+  interval?: string;
+  trigger?: string;
+  device?: string;
+  wait?: string;
+  paused?: boolean;
+
+  // export
+  format?: string;
+  out?: string;
+}
+
+export interface CommandContext {
+  client: VisualpingClient;
+  config: CliConfig;
+  flags: CliFlags;
+  /** Arguments after the command name */
+  args: string[];
+  call: CallOptions;
+  /** Raw output, e.g. for `export` without `--out` */
+  print: (text: string) => void;
+}
+
+export interface CommandResult {
+  output?: CommandOutput;
+  exitCode?: ExitCodeType;
+}
+
+export type Command = (ctx: CommandContext) => Promise<CommandResult>;
+
+export const commands: Record<string, Command> = {
+  whoami: async ({ client, call }) => {
+    const user = await client.describeUser(call);
+    return {
+      output: {
+        data: user,
+        rows: [
+          { field: 'userId', value: user.userId },
+          { field: 'email', value: user.emailAddress },
+          {
+            field: 'name',
+            value: [user.firstName, user.lastName].filter(Boolean).join(' '),
+          },
+          { field: 'organisationIds', value: user.organisationIds?.join(',') },
+          { field: 'workspaces', value: user.workspaces.length },
+        ],
+      },
+    };
+  },
+
+  workspaces: async ({ client, call }) => {
+    const workspaces = await client.getWorkspaces(call);
+    return {
+      output: {
+        data: workspaces,
+        rows: workspaces.map((ws) => ({
+          id: ws.id,
+          name: ws.name,
+          role: ws.role,
+          plan: ws.plan?.name,
+        })),
+      },
+    };
+  },
+
+  'jobs list': async ({ client, flags, call, config }) => {
+    const params = jobFilters(flags, workspaceOf(config, flags));
+    const jobs =
+      flags.page === undefined
+        ? await client.getAllJobs(params, call)
+        : (
+            await client.getJobs(
+              { ...params, pageIndex: toNumber(flags.page, '--page') },
+              call
+            )
+          ).jobs;
+
+    return {
+      output: {
+        data: jobs,
+        rows: jobs.map((job) => ({
+          id: job.id,
+          workspace: job.workspaceId,
+          mode: job.mode,
+          active: job.isActive,
+          interval: job.interval,
+          description: job.description,
+          url: job.url,
+        })),
+        columns: [
+          'id',
+          'workspace',
+          'mode',
+          'active',
+          'interval',
+          'description',
+          'url',
+        ],
+      },
+    };
+  },
+
+  'jobs get': async ({ client, flags, args, call, config }) => {
+    const [jobId] = jobIds(args, 1);
+    const job = await client.getJob(jobId, workspaceOf(config, flags), call);
+    const fields = [
+      'id',
+      'url',
+      'description',
+      'mode',
+      'active',
+      'interval',
+      'notification_threshold',
+      'target_device',
+      'wait_time',
+      'last_run',
+      'next_run',
+      'error_count',
+      'labelIds',
+    ] as const;
+
+    return {
+      output: {
+        data: job,
+        rows: fields.map((field) => ({ field, value: job[field] })),
+      },
+    };
+  },
+
+  'jobs create': async ({ client, flags, call, config }) => {
+    const fromFile = flags.file
+      ? ((await readJsonOrYaml(flags.file)) as Partial<CreateJobRequest>)
+      : {};
+    const url = flags.url ?? fromFile.url;
+    if (!url) throw new CliUsageError('jobs create needs --url or --file');
+
+    const mode: string = flags.mode?.toUpperCase() ?? fromFile.mode ?? 'TEXT';
+    if (mode !== 'TEXT' && mode !== 'VISUAL' && mode !== 'WEB') {
+      throw new CliUsageError(`Unknown job mode "${mode}"`);
+    }
+
+    const builder =
+      mode === 'VISUAL'
+        ? JobBuilder.visual(url)
+        : mode === 'WEB'
+          ? JobBuilder.web(url)
+          : JobBuilder.text(url);
+    const workspaceId = workspaceOf(config, flags);
+    if (workspaceId !== undefined) builder.inWorkspace(workspaceId);
+    if (flags.description) builder.describe(flags.description);
+    if (flags.interval) builder.every(toInterval(flags.interval));
+    if (flags.trigger) builder.triggerAt(toNumber(flags.trigger, '--trigger'));
+    if (flags.device) builder.onDevice(flags.device as TargetDeviceType);
+    if (flags.wait) builder.waitFor(toNumber(flags.wait, '--wait'));
+    if (flags.paused) builder.paused();
+
+    // defaults, then the file, then the flags
+    const job = {
+      ...builder.build(),
+      ...fromFile,
+      ...builder.buildUpdate(),
+    } as CreateJobRequest;
+    const created = await client.createJob(job, call);
+    return { output: { data: created, rows: [{ id: created.id }] } };
+  },
+
+  'jobs update': async ({ client, flags, args, call, config }) => {
+    const [jobId] = jobIds(args, 1);
+    const patch: UpdateJobRequest = flags.file
+      ? ((await readJsonOrYaml(flags.file)) as UpdateJobRequest)
+      : {};
+
+    if (flags.url) patch.url = flags.url;
+    if (flags.description) patch.description = flags.description;
+    if (flags.interval) {
+      patch.interval = String(parseInterval(toInterval(flags.interval)));
+    }
+    if (flags.trigger) {
+      patch.trigger = String(toNumber(flags.trigger, '--trigger'));
+    }
+    if (flags.device) patch.target_device = flags.device as TargetDeviceType;
+    if (flags.wait) patch.wait_time = toNumber(flags.wait, '--wait');
+    if (flags.paused) patch.active = false;
+    if (Object.keys(patch).length === 0) {
+      throw new CliUsageError('jobs update needs --file or fields to change');
+    }
+
+    patch.workspaceId ??= workspaceOf(config, flags);
+    patch.organisationId ??= organisationOf(config, flags);
+    const result = await client.updateJob(jobId, patch, call);
+    return {
+      output: {
+        data: result,
+        rows: [{ updates: result.updates, ...result.estimatedConsumption }],
+      },
+    };
+  },
+
+  'jobs delete': async ({ client, flags, args, call, config }) => {
+    const ids = jobIds(args);
+    if (!flags.yes) {
+      throw new CliUsageError(
+        `Refusing to delete ${ids.length} job(s) without --yes`
+      );
+    }
+    return bulkResult(
+      await client.deleteJobs(ids, workspaceOf(config, flags), call)
+    );
+  },
+
+  'jobs pause': async ({ client, flags, args, call, config }) =>
+    bulkResult(
+      await client.pauseJobs(
+        jobIds(args),
+        {
+          workspaceId: workspaceOf(config, flags),
+          organisationId: organisationOf(config, flags),
+        },
+        call
+      )
+    ),
+
+  'jobs resume': async ({ client, flags, args, call, config }) =>
+    bulkResult(
+      await client.resumeJobs(
+        jobIds(args),
+        {
+          workspaceId: workspaceOf(config, flags),
+          organisationId: organisationOf(config, flags),
+        },
+        call
+      )
+    ),
+
+  export: async ({ client, flags, call, config, print }) => {
+    const format = (flags.format ?? 'json') as JobExportFormat;
+    if (!['json', 'csv', 'yaml'].includes(format)) {
+      throw new CliUsageError(`Unknown --format "${format}"`);
+    }
+
+    const file = await client.exportJobs(
+      {
+        ...jobFilters(flags, workspaceOf(config, flags)),
+        format,
+      },
+      call
+    );
+    if (flags.out) await writeFile(flags.out, file);
+    else print(file);
+    return {};
+  },
+};
+
+function jobFilters(
+  flags: CliFlags,
+  workspaceId: number | undefined
+): Omit<GetJobsParams, 'mode' | 'pageIndex'> {
+  const list = (values?: string[]) =>
+    values?.flatMap((v) => v.split(',')).filter(Boolean);
+
+  return {
+    workspaceId,
+    pageSize: flags['page-size']
+      ? toNumber(flags['page-size'], '--page-size')
+      : undefined,
+    activeFilter: list(flags.active)?.map((v) => toNumber(v, '--active')),
+    modeFilter: list(flags['mode-filter'])?.map(
+      (v) => v.toUpperCase() as JobModeType
+    ),
+    frequencyFilter: list(flags.frequency) as FrequencyFilterType[],
+    hasAdvancedScheduleFilter: flags['advanced-schedule']
+      ? (toNumber(flags['advanced-schedule'], '--advanced-schedule') as 0 | 1)
+      : undefined,
+    eventFilter: list(flags.event) as EventFilterType[],
+    dateFilter: flags.date as GetJobsParams['dateFilter'],
+    dateFilterStart: flags['date-start'],
+    fullTextSearchFilter: flags.search,
+    labelsFilter: list(flags.label)?.map((v) => toNumber(v, '--label')),
+    sortBy: list(flags['sort-by']) as JobSortBy[],
+  };
+}
+
+function bulkResult(report: BulkReport<unknown>): CommandResult {
+  const firstFailure = report.results.find((r) => r.status === 'failed');
+
+  return {
+    output: {
+      data: report,
+      rows: report.results.map((r) => ({
+        jobId: r.jobId,
+        status: r.status,
+        detail:
+          r.status === 'failed'
+            ? r.error instanceof Error
+              ? r.error.message
+              : String(r.error)
+            : r.status === 'skipped'
+              ? r.reason
+              : '',
+      })),
+    },
+    exitCode:
+      firstFailure?.status === 'failed'
+        ? exitCodeFor(firstFailure.error)
+        : ExitCode.OK,
+  };
+}
+
+function workspaceOf(config: CliConfig, flags: CliFlags): number | undefined {
+  return flags.workspace !== undefined
+    ? toNumber(flags.workspace, '--workspace')
+    : config.workspaceId;
+}
+
+function organisationOf(
+  config: CliConfig,
+  flags: CliFlags
+): number | undefined {
+  return flags.organisation !== undefined
+    ? toNumber(flags.organisation, '--organisation')
+    : config.organisationId;
+}
+
+function jobIds(args: string[], count?: number): number[] {
+  if (args.length === 0 || (count !== undefined && args.length !== count)) {
+    throw new CliUsageError(
+      count === 1 ? 'Expected one job ID' : 'Expected job IDs'
+    );
+  }
+  return args.map((arg) => toNumber(arg, 'job ID'));
+}
+
+function toNumber(value: string, name: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new CliUsageError(`${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function toInterval(value: string): JobInterval {
+  if (/^\d+$/.test(value)) return Number(value);
+  if (/^\d+(\.\d+)?[mhdw]$/.test(value)) return value as JobInterval;
+  throw new CliUsageError(
+    `--interval must be minutes or e.g. 15m, 1h, 1d, 1w, got "${value}"`
+  );
+}
+
+async function readJsonOrYaml(path: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch {
+    throw new CliUsageError(`Cannot read ${path}`);
+  }
+  try {
+    return /\.ya?ml$/i.test(path) ? fromYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new CliUsageError(
+      `${path} is not valid ${/\.ya?ml$/i.test(path) ? 'YAML' : 'JSON'}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { VisualpingCredentials } from '../credentials';
+import { CliUsageError } from './exitCodes';
+
+/**
+ * Settings of the `visualping` command, from a JSON config file and
+ * `VISUALPING_*` environment variables
+ */
+export interface CliConfig extends VisualpingCredentials {
+  /** Default `--workspace` */
+  workspaceId?: number;
+  /** Default `--organisation` */
+  organisationId?: number;
+}
+
+const ENV_VARS: Array<[keyof CliConfig, string]> = [
+  ['email', 'VISUALPING_EMAIL'],
+  ['password', 'VISUALPING_PASSWORD'],
+  ['refreshToken', 'VISUALPING_REFRESH_TOKEN'],
+  ['idToken', 'VISUALPING_ID_TOKEN'],
+  ['workspaceId', 'VISUALPING_WORKSPACE_ID'],
+  ['organisationId', 'VISUALPING_ORGANISATION_ID'],
+];
+
+export function defaultConfigPath(
+  env: Record<string, string | undefined>
+): string {
+  const base = env.XDG_CONFIG_HOME || join(env.HOME || homedir(), '.config');
+  return join(base, 'visualping', 'config.json');
+}
+
+/**
+ * Merge the config file with the environment; environment variables win.
+ *
+ * The file is `configPath`, else `$VISUALPING_CONFIG`, else
+ * `$XDG_CONFIG_HOME/visualping/config.json` (`~/.config` by default). Only
+ * an explicitly given file has to exist.
+ */
+export async function loadCliConfig(
+  env: Record<string, string | undefined>,
+  configPath?: string
+): Promise<CliConfig> {
+  const explicit = configPath || env.VISUALPING_CONFIG || undefined;
+  const path = explicit ?? defaultConfigPath(env);
+
+  let config: CliConfig = {};
+  let text: string | undefined;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    const missing =
+      typeof err === 'object' && err !== null && 'code' in err
+        ? err.code === 'ENOENT'
+        : false;
+    if (explicit !== undefined || !missing) {
+      throw new CliUsageError(`Cannot read config file ${path}`);
+    }
+  }
+  if (text !== undefined) {
+    try {
+      config = JSON.parse(text);
+    } catch {
+      throw new CliUsageError(`Config file ${path} is not valid JSON`);
+    }
+  }
+
+  for (const [key, name] of ENV_VARS) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    const isId = key === 'workspaceId' || key === 'organisationId';
+    if (isId && !/^\d+$/.test(value.trim())) {
+      throw new CliUsageError(`${name} must be a numeric ID, got "${value}"`);
+    }
+    Object.assign(config, { [key]: isId ? Number(value) : value });
+  }
+
+  if (
+    !config.idToken &&
+    !config.refreshToken &&
+    !(config.email && config.password)
+  ) {
+    throw new CliUsageError(
+      'No credentials: set VISUALPING_REFRESH_TOKEN, VISUALPING_ID_TOKEN or ' +
+        `VISUALPING_EMAIL and VISUALPING_PASSWORD, or add them to ${path}`
+    );
+  }
+  return config;
+}
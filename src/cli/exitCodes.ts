@@ -0,0 +1,73 @@
+import {
+  VisualpingAbortError,
+  VisualpingAuthenticationError,
+  VisualpingCredentialsError,
+  VisualpingJobValidationError,
+  VisualpingNetworkError,
+  VisualpingNotFoundError,
+  VisualpingPermissionError,
+  VisualpingRateLimitError,
+  VisualpingServerError,
+  VisualpingTimeoutError,
+  VisualpingValidationError,
+} from '../error';
+
+/**
+ * Process exit codes of the `visualping` command
+ */
+export const ExitCode = {
+  OK: 0,
+  /** Unexpected error */
+  ERROR: 1,
+  /** Unknown command, bad flags or missing credentials */
+  USAGE: 2,
+  AUTHENTICATION: 3,
+  PERMISSION: 4,
+  NOT_FOUND: 5,
+  /** Rejected by the API or by client-side job validation */
+  VALIDATION: 6,
+  RATE_LIMITED: 7,
+  /** Server errors, timeouts and network failures - worth retrying */
+  UNAVAILABLE: 8,
+  /** Interrupted with Ctrl+C */
+  ABORTED: 130,
+} as const;
+export type ExitCodeType = (typeof ExitCode)[keyof typeof ExitCode];
+
+/**
+ * Invalid command line, reported with the usage hint
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export function exitCodeFor(error: unknown): ExitCodeType {
+  if (error instanceof CliUsageError) return ExitCode.USAGE;
+  if (
+    error instanceof VisualpingAuthenticationError ||
+    error instanceof VisualpingCredentialsError
+  ) {
+    return ExitCode.AUTHENTICATION;
+  }
+  if (error instanceof VisualpingPermissionError) return ExitCode.PERMISSION;
+  if (error instanceof VisualpingNotFoundError) return ExitCode.NOT_FOUND;
+  if (
+    error instanceof VisualpingValidationError ||
+    error instanceof VisualpingJobValidationError
+  ) {
+    return ExitCode.VALIDATION;
+  }
+  if (error instanceof VisualpingRateLimitError) return ExitCode.RATE_LIMITED;
+  if (
+    error instanceof VisualpingServerError ||
+    error instanceof VisualpingTimeoutError ||
+    error instanceof VisualpingNetworkError
+  ) {
+    return ExitCode.UNAVAILABLE;
+  }
+  if (error instanceof VisualpingAbortError) return ExitCode.ABORTED;
+  return ExitCode.ERROR;
+}
@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+import { runCli } from './run';
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+runCli(process.argv.slice(2), {
+  env: process.env,
+  stdout: (text) =>
+    process.stdout.write(text.endsWith('\n') ? text : `${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+  signal: controller.signal,
+}).then((code) => {
+  process.exitCode = code;
+});
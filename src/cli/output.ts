@@ -0,0 +1,58 @@
+import { toCsv } from '../csv';
+import { CliUsageError } from './exitCodes';
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+/**
+ * What a command prints: the whole `data` as JSON, or `rows` as a table
+ * or CSV
+ */
+export interface CommandOutput {
+  data: unknown;
+  rows: Array<Record<string, unknown>>;
+  /** Column order. @default the keys of the first row */
+  columns?: string[];
+}
+
+export function parseOutputFormat(value: string | undefined): OutputFormat {
+  if (value === undefined) return 'table';
+  if (value === 'table' || value === 'json' || value === 'csv') return value;
+  throw new CliUsageError(
+    `Unknown output format "${value}", use table, json or csv`
+  );
+}
+
+export function formatOutput(
+  output: CommandOutput,
+  format: OutputFormat
+): string {
+  if (format === 'json') return JSON.stringify(output.data, null, 2);
+
+  const columns = output.columns ?? Object.keys(output.rows[0] ?? {});
+  const cells = output.rows.map((row) =>
+    columns.map((column) => cellText(row[column], format === 'table'))
+  );
+  if (format === 'csv') return toCsv(columns, cells);
+
+  if (cells.length === 0) return '(none)';
+  const widths = columns.map((column, i) =>
+    cells.reduce((width, row) => Math.max(width, row[i].length), column.length)
+  );
+  const line = (values: string[]) =>
+    values
+      .map((value, i) => value.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    line(columns.map((column) => column.toUpperCase())),
+    ...cells.map(line),
+  ].join('\n');
+}
+
+function cellText(value: unknown, singleLine: boolean): string {
+  if (value === undefined || value === null) return '';
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return singleLine ? text.replace(/\s*\n\s*/g, ' ') : text;
+}
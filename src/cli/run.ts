@@ -0,0 +1,176 @@
+import { parseArgs } from 'node:util';
+import { VisualpingClient } from '../client';
+import { VisualpingJobValidationError } from '../error';
+import { ClientOptions } from '../types/client';
+import { CliFlags, commands } from './commands';
+import { loadCliConfig } from './config';
+import { CliUsageError, ExitCode, exitCodeFor } from './exitCodes';
+import { formatOutput, parseOutputFormat } from './output';
+
+export const USAGE = `Usage: visualping <command> [options]
+
+Commands:
+  whoami                      Show the logged-in user
+  workspaces                  List workspaces
+  jobs list                   List jobs
+  jobs get <id>               Show a job
+  jobs create                 Create a job from --url/--mode/... or --file
+  jobs update <id>            Change a job from --file and/or field flags
+  jobs delete <id...> --yes   Delete jobs
+  jobs pause <id...>          Pause jobs
+  jobs resume <id...>         Resume jobs
+  export                      Back up job configurations
+
+Options:
+  -o, --output <format>       table (default), json or csv
+  -w, --workspace <id>        Workspace ID, mandatory for business users
+      --organisation <id>     Organisation ID for updates of business users
+      --config <path>         Config file (default ~/.config/visualping/config.json)
+      --timeout <ms>          Timeout per request
+  -h, --help                  Show this help
+
+jobs list filters:
+  --page <n> --page-size <n> --active 0,1 --mode-filter TEXT,VISUAL,WEB
+  --frequency <f,...> --advanced-schedule 0|1 --event <e,...> --date <d>
+  --date-start <iso> --search <text> --label <id,...> --sort-by <s,...>
+
+jobs create / update fields:
+  --url --mode --description --interval (minutes, 15m, 1h, 1d, 1w)
+  --trigger <percent> --device 1|2|3|4 --wait <seconds> --paused
+  --file <job.json|job.yaml>
+
+export:
+  --format json|csv|yaml --out <path>, plus the jobs list filters
+
+Credentials come from VISUALPING_REFRESH_TOKEN, VISUALPING_ID_TOKEN or
+VISUALPING_EMAIL + VISUALPING_PASSWORD, else the config file. The config
+file is JSON with email, password, refreshToken, idToken, workspaceId and
+organisationId.
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 authentication, 4 permission,
+5 not found, 6 validation, 7 rate limited, 8 server/network, 130 aborted`;
+
+export interface CliIO {
+  env: Record<string, string | undefined>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** Aborts in-flight requests, e.g. on Ctrl+C */
+  signal?: AbortSignal;
+  /** Extra client options, e.g. a custom `fetch` */
+  clientOptions?: ClientOptions;
+}
+
+/**
+ * Run the `visualping` command
+ *
+ * @param argv - Arguments without the node and script paths
+ * @returns The process exit code, see `ExitCode`
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  try {
+    const { values, positionals } = parseFlags(argv);
+
+    if (values.help || positionals.length === 0) {
+      io.stdout(USAGE);
+      return values.help ? ExitCode.OK : ExitCode.USAGE;
+    }
+
+    const [group, sub] = positionals;
+    const name = group === 'jobs' ? `jobs ${sub ?? ''}`.trim() : group;
+    const command = commands[name];
+    if (!command) throw new CliUsageError(`Unknown command "${name}"`);
+
+    const outputFormat = parseOutputFormat(values.output);
+    const timeoutMs =
+      values.timeout === undefined ? undefined : Number(values.timeout);
+    if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+      throw new CliUsageError('--timeout must be a positive number');
+    }
+
+    const config = await loadCliConfig(io.env, values.config);
+    const { workspaceId: _ws, organisationId: _org, ...credentials } = config;
+    const client = new VisualpingClient(credentials, io.clientOptions);
+
+    try {
+      const result = await command({
+        client,
+        config,
+        flags: values as CliFlags,
+        args: positionals.slice(group === 'jobs' ? 2 : 1),
+        call: { signal: io.signal, timeoutMs },
+        print: io.stdout,
+      });
+      if (result.output) {
+        io.stdout(formatOutput(result.output, outputFormat));
+      }
+      return result.exitCode ?? ExitCode.OK;
+    } finally {
+      client.dispose();
+    }
+  } catch (error) {
+    io.stderr(describeError(error));
+    return exitCodeFor(error);
+  }
+}
+
+function parseFlags(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        workspace: { type: 'string', short: 'w' },
+        organisation: { type: 'string' },
+        config: { type: 'string' },
+        timeout: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+        yes: { type: 'boolean', short: 'y' },
+
+        page: { type: 'string' },
+        'page-size': { type: 'string' },
+        active: { type: 'string', multiple: true },
+        'mode-filter': { type: 'string', multiple: true },
+        frequency: { type: 'string', multiple: true },
+        'advanced-schedule': { type: 'string' },
+        event: { type: 'string', multiple: true },
+        date: { type: 'string' },
+        'date-start': { type: 'string' },
+        search: { type: 'string' },
+        label: { type: 'string', multiple: true },
+        'sort-by': { type: 'string', multiple: true },
+
+        file: { type: 'string' },
+        url: { type: 'string' },
+        mode: { type: 'string' },
+        description: { type: 'string' },
+        interval: { type: 'string' },
+        trigger: { type: 'string' },
+        device: { type: 'string' },
+        wait: { type: 'string' },
+        paused: { type: 'boolean' },
+
+        format: { type: 'string' },
+        out: { type: 'string' },
+      },
+    });
+  } catch (err) {
+    // unknown flags, missing values
+    throw new CliUsageError((err as Error).message);
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof CliUsageError) {
+    return `${error.message}\nRun "visualping --help" for usage.`;
+  }
+  if (error instanceof VisualpingJobValidationError) {
+    return [
+      'Invalid job:',
+      ...error.violations.map((v) => `  ${v.field} ${v.message}`),
+    ].join('\n');
+  }
+  return error instanceof Error
+    ? `${error.name}: ${error.message}`
+    : String(error);
+}
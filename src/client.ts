@@ -1,9 +1,75 @@
-import { ID_TOKEN_REFRESH_MS, REFRESH_TOKEN_REFRESH_MS } from './constants';
-import { VisualpingApiError } from './error';
+import { anySignal, sleep, throwIfAborted } from './abort';
+import { runBulk } from './bulk';
+import {
+  ACCOUNT_BASE_URL,
+  API_BASE_URL,
+  HOUR_MS,
+  ID_TOKEN_REFRESH_MS,
+  JOB_BASE_URL,
+  MINUTE_MS,
+  REFRESH_TOKEN_REFRESH_MS,
+  SECOND_MS,
+  TOKEN_REFRESH_MARGIN_MS,
+} from './constants';
+import {
+  compareJobConsumption,
+  ConsumptionForecast,
+  ConsumptionJobSpec,
+  forecastConsumption,
+  JobConsumptionEstimate,
+} from './consumption';
+import { Credentials, VisualpingCredentials } from './credentials';
+import {
+  createApiError,
+  RequestDetails,
+  VisualpingAbortError,
+  VisualpingApiError,
+  VisualpingCredentialsError,
+  VisualpingError,
+  VisualpingJobValidationError,
+  VisualpingNetworkError,
+  VisualpingNotFoundError,
+  VisualpingResponseValidationError,
+  VisualpingTimeoutError,
+} from './error';
+import {
+  ExportedJob,
+  jobSpecFromDetails,
+  parseJobs,
+  serializeJobs,
+} from './jobExport';
+import {
+  JobValidationOptions,
+  JobViolation,
+  validateJob,
+} from './jobValidation';
+import { getJwtExpiry } from './jwt';
+import {
+  composeMiddleware,
+  Next,
+  RequestContext,
+  ResponseContext,
+} from './middleware';
+import {
+  EndpointGroup,
+  RateLimiter,
+  rateLimitMiddleware,
+  RateLimitStats,
+} from './rateLimit';
+import { QuotaGuard, QuotaRequest } from './quota';
+import { retryMiddleware } from './retry';
+import { dedupePage, paginate } from './pagination';
+import { MemoryTokenStore, TokenStore } from './tokenStore';
+import { diffJob, nextPollAt } from './watch';
+import { WorkspaceClient } from './workspace';
 import { MinimalJob } from './types/api/common';
 import { QueryParams } from './types/api/request';
 import { CreateJobRequest } from './types/api/request/createJob';
-import { GetJobsParams, OutputMode } from './types/api/request/getJobs';
+import {
+  GetJobsParams,
+  OutputMode,
+  OutputModeType,
+} from './types/api/request/getJobs';
 import { UpdateJobRequest } from './types/api/request/updateJob';
 import {
   PasswordRefreshResp,
@@ -20,6 +86,43 @@ import {
   JobsNormalResponse,
 } from './types/api/response/getJobs';
 import { UpdateJobDetails } from './types/api/response/updateJob';
+import {
+  BulkJobResult,
+  BulkOptions,
+  BulkReport,
+  BulkUpdateReport,
+  CallOptions,
+  ClientOptions,
+  ConsumptionChange,
+  ConsumptionParams,
+  ForEachWorkspaceOptions,
+  JobExportParams,
+  JobImportParams,
+  JobPatchFn,
+  JobRef,
+  JobWatchCursor,
+  JobWatchEvent,
+  PaginationOptions,
+  ValidationMode,
+  WatchOptions,
+  WorkspaceClientOptions,
+  WorkspaceRunReport,
+  WorkspaceRunResult,
+} from './types/client';
+import {
+  createdJobResultSchema,
+  deleteJobResultSchema,
+  fullJobDetailsSchema,
+  jobsCountsOnlyResponseSchema,
+  jobsIdsAndWsIdsResponseSchema,
+  jobsIdsOnlyResponseSchema,
+  jobsNormalResponseSchema,
+  passwordRefreshRespSchema,
+  tokenRefreshRespSchema,
+  updateJobDetailsSchema,
+  visualpingUserSchema,
+} from './validation/responses';
+import { Schema, validate } from './validation/schema';
 
 /**
  * Visualping API Client
@@ -52,11 +155,17 @@ import { UpdateJobDetails } from './types/api/response/updateJob';
  * @see https://api.visualping.io/doc.html for API documentation
  */
 export class VisualpingClient {
-  #baseUrlV2: string = 'https://api.visualping.io/v2';
-  #accountBaseUrl: string = 'https://account.api.visualping.io';
-  #jobBaseUrl = 'https://job.api.visualping.io/v2';
-  private email: string;
-  private password: string;
+  #baseUrlV2: string;
+  #accountBaseUrl: string;
+  #jobBaseUrl: string;
+  #fetch: typeof fetch | undefined;
+  #defaultHeaders: Record<string, string>;
+  #pipeline: Next;
+  #rateLimiter: RateLimiter;
+  #groupRateLimiters: Partial<Record<EndpointGroup, RateLimiter>> = {};
+  #disposeController = new AbortController();
+  #quotaGuard: QuotaGuard | null;
+  private credentials: Credentials;
   private authInFlight: Promise<void> | null = null;
 
   private refreshToken: string | null = null;
@@ -66,11 +175,122 @@ export class VisualpingClient {
   private lastIdTokenRefresh: Date | null = null;
 
   private timeoutMs: number;
+  private tokenStore: TokenStore;
+  private tokenRefreshMarginMs: number;
+  private validation: ValidationMode;
+  private validateJobs: boolean;
+
+  /**
+   * @param email - Visualping account email
+   * @param password - Visualping account password
+   * @param timeoutMs - Per-request timeout in milliseconds
+   * @param tokenStore - Where tokens are persisted. Defaults to in-memory;
+   * use a shared store (e.g. `FileTokenStore`) to reuse sessions across
+   * process restarts.
+   */
+  constructor(
+    email: string,
+    password: string,
+    timeoutMs?: number,
+    tokenStore?: TokenStore
+  );
+  /**
+   * @param email - Visualping account email
+   * @param password - Visualping account password
+   * @param options - Client configuration
+   */
+  constructor(email: string, password: string, options?: ClientOptions);
+  /**
+   * @param credentials - Tokens and/or email/password, or an async provider
+   * returning them
+   * @param timeoutMs - Per-request timeout in milliseconds
+   * @param tokenStore - Where tokens are persisted. Defaults to in-memory.
+   *
+   * @example
+   * ```ts
+   * // Refresh token from a secret manager, no password held by the service
+   * const client = new VisualpingClient({ refreshToken: process.env.VP_RT });
+   *
+   * // Resolved lazily whenever the client needs to re-authenticate
+   * const client = new VisualpingClient(async () => ({
+   *   refreshToken: await secrets.get('visualping-refresh-token'),
+   * }));
+   * ```
+   */
+  constructor(
+    credentials: Credentials,
+    timeoutMs?: number,
+    tokenStore?: TokenStore
+  );
+  /**
+   * @param credentials - Tokens and/or email/password, or an async provider
+   * returning them
+   * @param options - Client configuration
+   */
+  constructor(credentials: Credentials, options?: ClientOptions);
+  constructor(
+    emailOrCredentials: string | Credentials,
+    ...args: Array<string | number | ClientOptions | TokenStore | undefined>
+  ) {
+    if (typeof emailOrCredentials === 'string') {
+      this.credentials = {
+        email: emailOrCredentials,
+        password: args.shift() as string,
+      };
+    } else {
+      this.credentials = emailOrCredentials;
+    }
+
+    const [timeoutMsOrOptions, tokenStore] = args as [
+      number | ClientOptions | undefined,
+      TokenStore | undefined,
+    ];
+    const options: ClientOptions =
+      typeof timeoutMsOrOptions === 'object'
+        ? timeoutMsOrOptions
+        : { timeoutMs: timeoutMsOrOptions, tokenStore };
+
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.tokenStore = options.tokenStore ?? new MemoryTokenStore();
+    this.tokenRefreshMarginMs =
+      options.tokenRefreshMarginMs ?? TOKEN_REFRESH_MARGIN_MS;
+    this.validation = options.validation ?? 'off';
+    this.validateJobs = options.validateJobs ?? false;
+    this.#quotaGuard = options.quotaGuard
+      ? new QuotaGuard(
+          () => this.describeUser(),
+          options.quotaGuard === true ? {} : options.quotaGuard
+        )
+      : null;
+
+    this.#baseUrlV2 = stripTrailingSlash(options.baseUrls?.api ?? API_BASE_URL);
+    this.#accountBaseUrl = stripTrailingSlash(
+      options.baseUrls?.account ?? ACCOUNT_BASE_URL
+    );
+    this.#jobBaseUrl = stripTrailingSlash(
+      options.baseUrls?.job ?? JOB_BASE_URL
+    );
+    this.#fetch = options.fetch;
+    this.#defaultHeaders = {
+      ...options.headers,
+      ...(options.userAgent ? { 'User-Agent': options.userAgent } : {}),
+    };
 
-  constructor(email: string, password: string, timeoutMs: number = 30000) {
-    this.email = email;
-    this.password = password;
-    this.timeoutMs = timeoutMs;
+    const { groups, ...clientRateLimit } = options.rateLimit ?? {};
+    this.#rateLimiter = new RateLimiter(clientRateLimit);
+    for (const [group, config] of Object.entries(groups ?? {})) {
+      this.#groupRateLimiters[group as EndpointGroup] = new RateLimiter(config);
+    }
+
+    this.#pipeline = composeMiddleware(
+      [
+        ...(options.middleware ?? []),
+        ...(options.retry === false ? [] : [retryMiddleware(options.retry)]),
+        ...(options.attemptMiddleware ?? []),
+        rateLimitMiddleware((ctx) => this.rateLimitersFor(ctx.endpoint)),
+      ],
+      (ctx) => this.send(ctx)
+    );
   }
 
   // --------------------
@@ -94,50 +314,82 @@ export class VisualpingClient {
     return queryString ? `?${queryString}` : '';
   }
 
+  private endpointGroup(endpoint: string): EndpointGroup | undefined {
+    if (endpoint.startsWith(this.#baseUrlV2)) return 'token';
+    if (endpoint.startsWith(this.#accountBaseUrl)) return 'account';
+    if (endpoint.startsWith(this.#jobBaseUrl)) return 'job';
+    return undefined;
+  }
+
   /**
-   * Base request handler - makes HTTP calls and handles errors
+   * Group limiter first, then the client-wide one
    */
-  private async baseRequest<T>(
-    endpoint: string,
-    options?: RequestInit
-  ): Promise<T> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+  private rateLimitersFor(endpoint: string): RateLimiter[] {
+    const group = this.endpointGroup(endpoint);
+    const groupLimiter = group ? this.#groupRateLimiters[group] : undefined;
 
-    if (options?.headers) {
-      Object.assign(headers, options.headers);
-    }
+    return groupLimiter
+      ? [groupLimiter, this.#rateLimiter]
+      : [this.#rateLimiter];
+  }
+
+  /**
+   * Terminal handler of the middleware chain - makes the HTTP call and
+   * turns non-2xx responses into errors
+   */
+  private async send(ctx: RequestContext): Promise<ResponseContext> {
+    const timeoutController = new AbortController();
+    const timeoutId = setTimeout(
+      () => timeoutController.abort(),
+      ctx.timeoutMs
+    );
+    const { signal, cleanup } = anySignal([
+      ctx.signal,
+      timeoutController.signal,
+    ]);
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    // resolved per call so a patched global fetch is still picked up
+    const fetchImpl = this.#fetch ?? fetch;
+    const request: RequestDetails = {
+      method: ctx.method,
+      endpoint: ctx.endpoint,
+      attempt: ctx.attempt,
+    };
 
     try {
-      const response = await fetch(endpoint, {
-        ...options,
-        signal: controller.signal,
-        headers,
+      const response = await fetchImpl(ctx.endpoint, {
+        method: ctx.method,
+        headers: ctx.headers,
+        body:
+          ctx.body === undefined || typeof ctx.body === 'string'
+            ? ctx.body
+            : JSON.stringify(ctx.body),
+        signal,
       });
+
+      const text = await response.text();
       clearTimeout(timeoutId);
 
+      let payload: unknown;
+      try {
+        payload = text ? JSON.parse(text) : undefined;
+      } catch {
+        payload = text;
+      }
+
       if (!response.ok) {
-        let payload: unknown;
-        try {
-          payload = await response.json();
-        } catch {
-          const text = await response.text();
-          throw new VisualpingApiError(
+        if (typeof payload !== 'object' || payload === null) {
+          throw createApiError(
             response.status,
-            text || response.statusText
+            text || response.statusText,
+            undefined,
+            response.headers,
+            request
           );
         }
         let msg: string;
 
-        if (
-          typeof payload === 'object' &&
-          payload !== null &&
-          ('message' in payload || 'code' in payload)
-        ) {
+        if ('message' in payload || 'code' in payload) {
           const p = payload as { message?: unknown; code?: unknown };
           msg =
             typeof p.message === 'string'
@@ -148,63 +400,203 @@ export class VisualpingClient {
         } else {
           msg = JSON.stringify(payload);
         }
-        throw new VisualpingApiError(response.status, msg, payload);
+        throw createApiError(
+          response.status,
+          msg,
+          payload,
+          response.headers,
+          request
+        );
       }
-      return response.json() as T;
+
+      return {
+        status: response.status,
+        headers: response.headers,
+        body: payload,
+      };
     } catch (err) {
       clearTimeout(timeoutId);
-      if (err instanceof Error && err.name === 'AbortError') {
-        throw new VisualpingApiError(408, 'Request timeout');
+      if (err instanceof VisualpingError) throw err;
+      if (ctx.signal?.aborted) {
+        throw new VisualpingAbortError(ctx.signal.reason, request);
       }
-      throw err;
+      if (timeoutController.signal.aborted) {
+        throw new VisualpingTimeoutError(ctx.timeoutMs, request);
+      }
+      throw new VisualpingNetworkError(err, request);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Base request handler - runs the call through the middleware chain
+   */
+  private async baseRequest<T>(
+    endpoint: string,
+    options?: RequestInit,
+    authenticated = false,
+    call: CallOptions = {},
+    schema?: Schema<T>
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.#defaultHeaders,
+    };
+
+    if (options?.headers) {
+      Object.assign(headers, options.headers);
+    }
+
+    let body: unknown = options?.body ?? undefined;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // not JSON - sent as-is
+      }
+    }
+
+    const { signal, cleanup } = anySignal([
+      call.signal,
+      this.#disposeController.signal,
+    ]);
+    const method = options?.method ?? 'GET';
+    throwIfAborted(signal, { method, endpoint });
+
+    try {
+      const res = await this.#pipeline({
+        endpoint,
+        method,
+        headers,
+        body,
+        authenticated,
+        attempt: 1,
+        timeoutMs: call.timeoutMs ?? this.timeoutMs,
+        signal,
+        metadata: {},
+      });
+      return this.checkResponse(res.body, schema, { method, endpoint });
+    } finally {
+      cleanup();
     }
   }
 
+  /**
+   * Check a response body against `schema` according to the `validation`
+   * mode. Lenient mode only warns, so callers still get the data.
+   */
+  private checkResponse<T>(
+    body: unknown,
+    schema: Schema<T> | undefined,
+    request: RequestDetails
+  ): T {
+    if (!schema || this.validation === 'off') return body as T;
+
+    const issues = validate(schema, body);
+    if (issues.length === 0) return body as T;
+
+    const error = new VisualpingResponseValidationError(issues, body, request);
+    if (this.validation === 'strict') throw error;
+
+    console.warn(`[visualping] ${error.message} (${request.endpoint})`);
+    return body as T;
+  }
+
   /**
    * Authenticated request - ensures auth before making request
    * Technically, visualping only defines
    * 400, 403, and 500 level errors for its api calls.
+   *
+   * A 401 invalidates the id token once, re-authenticates and replays
+   * the request, so a server-side revoke doesn't fail every later call.
+   * A 403 is only replayed when the id token was close to its expiry;
+   * otherwise it is a genuine permission denial.
    */
   private async authenticatedRequest<T>(
     endpoint: string,
     options?: RequestInit,
-    retries = 2
+    call?: CallOptions,
+    schema?: Schema<T>
+  ): Promise<T> {
+    try {
+      return await this.requestWithToken<T>(endpoint, options, call, schema);
+    } catch (err) {
+      const isAuthRejection =
+        err instanceof VisualpingApiError &&
+        (err.status === 401 ||
+          (err.status === 403 && this.isIdTokenNearExpiry()));
+      if (!isAuthRejection) throw err;
+
+      await this.invalidateIdToken();
+      return this.requestWithToken<T>(endpoint, options, call, schema);
+    }
+  }
+
+  private async requestWithToken<T>(
+    endpoint: string,
+    options?: RequestInit,
+    call?: CallOptions,
+    schema?: Schema<T>
   ): Promise<T> {
+    // the auth flow is shared between calls, so it is not cancelled with
+    // this call - the caller only stops waiting for it
+    throwIfAborted(call?.signal);
     await this.ensureAuthenticated();
+    throwIfAborted(call?.signal);
 
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
       ...(options?.headers as Record<string, string> | undefined),
       ...(this.idToken ? { Authorization: `Bearer ${this.idToken}` } : {}),
     };
 
-    let attempt = 0;
-    // tiny backoff: 200ms, 400ms
-    const backoffMs = (n: number) => 200 * 2 ** n;
-
-    while (true) {
-      try {
-        return await this.baseRequest<T>(endpoint, { ...options, headers });
-      } catch (err) {
-        attempt++;
+    return this.baseRequest<T>(
+      endpoint,
+      { ...options, headers },
+      true,
+      call,
+      schema
+    );
+  }
 
-        const status =
-          err instanceof VisualpingApiError ? err.status : undefined;
+  /**
+   * Throw before sending `job` when `validateJobs` is on and it is invalid
+   */
+  private async assertValidJob(
+    job: CreateJobRequest | UpdateJobRequest,
+    update: boolean,
+    request: RequestDetails,
+    call?: CallOptions
+  ): Promise<void> {
+    if (!this.validateJobs) return;
 
-        const isTransient =
-          status === 429 ||
-          (status !== undefined && status >= 500 && status <= 599);
+    const violations = await this.validateJob(job, { update }, call);
+    if (violations.length > 0) {
+      throw new VisualpingJobValidationError(violations, request);
+    }
+  }
 
-        // fetch threw before we got a response
-        const isNetworkError = status === undefined;
+  /**
+   * Send a job that becomes active through the quota guard, if enabled.
+   * Under the `pause` policy, `send` receives `active: false` instead.
+   */
+  private async withQuota<T>(
+    request: QuotaRequest,
+    details: RequestDetails,
+    send: (active: boolean) => Promise<T>
+  ): Promise<T> {
+    if (!this.#quotaGuard) return send(true);
 
-        // 400/401/403 etc. -> immediate fail
-        if (attempt > retries || (!isTransient && !isNetworkError)) {
-          throw err;
-        }
+    const decision = await this.#quotaGuard.admit(request, details);
+    if (decision.action === 'pause') return send(false);
 
-        await new Promise((r) => setTimeout(r, backoffMs(attempt - 1)));
-      }
+    try {
+      const result = await send(true);
+      decision.done(true);
+      return result;
+    } catch (err) {
+      decision.done(false);
+      throw err;
     }
   }
 
@@ -214,17 +606,22 @@ export class VisualpingClient {
       : '';
   }
 
-  private async passwordAuthFlow(): Promise<void> {
+  private async passwordAuthFlow(
+    credentials: VisualpingCredentials
+  ): Promise<void> {
     const response = await this.baseRequest<PasswordRefreshResp>(
       `${this.#baseUrlV2}/token`,
       {
         method: 'POST',
         body: JSON.stringify({
           method: 'PASSWORD',
-          email: this.email,
-          password: this.password,
+          email: credentials.email,
+          password: credentials.password,
         }),
-      }
+      },
+      false,
+      {},
+      passwordRefreshRespSchema
     );
 
     this.idToken = response.id_token;
@@ -240,49 +637,212 @@ export class VisualpingClient {
           method: 'REFRESH_TOKEN',
           refreshToken: this.refreshToken,
         }),
-      }
+      },
+      false,
+      {},
+      tokenRefreshRespSchema
     );
 
     this.idToken = response.id_token;
   }
 
-  private isRefreshTokenValid(): boolean {
-    if (this.refreshToken === null) return false;
-    if (this.lastRefreshTokenRefresh === null) return false;
+  /**
+   * A token is valid until `tokenRefreshMarginMs` before its `exp` claim.
+   * Opaque tokens fall back to the fixed TTL policy from `constants`.
+   */
+  private isTokenValid(
+    token: string | null,
+    lastRefresh: Date | null,
+    ttlMs: number
+  ): boolean {
+    const refreshAt = this.tokenRefreshAt(token, lastRefresh, ttlMs);
+    return refreshAt !== null && Date.now() < refreshAt;
+  }
 
-    const now = new Date();
+  /**
+   * When a token is due for a refresh, `null` when that's unknown
+   */
+  private tokenRefreshAt(
+    token: string | null,
+    lastRefresh: Date | null,
+    ttlMs: number
+  ): number | null {
+    if (token === null) return null;
+
+    const expiresAt = getJwtExpiry(token);
+    if (expiresAt !== null) return expiresAt - this.tokenRefreshMarginMs;
+    return lastRefresh !== null ? lastRefresh.getTime() + ttlMs : null;
+  }
+
+  /**
+   * Whether the id token is within one refresh margin of being refreshed,
+   * so a rejection may come from its expiry rather than a missing permission
+   */
+  private isIdTokenNearExpiry(): boolean {
+    const refreshAt = this.tokenRefreshAt(
+      this.idToken,
+      this.lastIdTokenRefresh,
+      ID_TOKEN_REFRESH_MS
+    );
     return (
-      now.getTime() - this.lastRefreshTokenRefresh.getTime() <
+      refreshAt === null || Date.now() >= refreshAt - this.tokenRefreshMarginMs
+    );
+  }
+
+  private isRefreshTokenValid(): boolean {
+    return this.isTokenValid(
+      this.refreshToken,
+      this.lastRefreshTokenRefresh,
       REFRESH_TOKEN_REFRESH_MS
     );
   }
 
   private isIdTokenValid(): boolean {
-    if (this.idToken === null) return false;
-    if (this.lastIdTokenRefresh === null) return false;
+    return this.isTokenValid(
+      this.idToken,
+      this.lastIdTokenRefresh,
+      ID_TOKEN_REFRESH_MS
+    );
+  }
+
+  private async loadTokens(): Promise<void> {
+    const stored = await this.tokenStore.get();
+    if (!stored) return;
+
+    this.idToken = stored.idToken;
+    this.refreshToken = stored.refreshToken;
+    this.lastIdTokenRefresh =
+      stored.lastIdTokenRefresh !== null
+        ? new Date(stored.lastIdTokenRefresh)
+        : null;
+    this.lastRefreshTokenRefresh =
+      stored.lastRefreshTokenRefresh !== null
+        ? new Date(stored.lastRefreshTokenRefresh)
+        : null;
+  }
+
+  private async saveTokens(): Promise<void> {
+    await this.tokenStore.set({
+      idToken: this.idToken,
+      refreshToken: this.refreshToken,
+      lastIdTokenRefresh: this.lastIdTokenRefresh?.getTime() ?? null,
+      lastRefreshTokenRefresh: this.lastRefreshTokenRefresh?.getTime() ?? null,
+    });
+  }
+
+  private async clearTokens(): Promise<void> {
+    this.idToken = null;
+    this.refreshToken = null;
+    this.lastIdTokenRefresh = null;
+    this.lastRefreshTokenRefresh = null;
+    await this.tokenStore.clear();
+  }
+
+  private async resolveCredentials(): Promise<VisualpingCredentials> {
+    return typeof this.credentials === 'function'
+      ? this.credentials()
+      : this.credentials;
+  }
+
+  private isPasswordLoginAllowed(credentials: VisualpingCredentials): boolean {
+    if (!credentials.email || !credentials.password) return false;
 
-    const now = new Date();
     return (
-      now.getTime() - this.lastIdTokenRefresh.getTime() < ID_TOKEN_REFRESH_MS
+      credentials.allowPasswordLogin ??
+      (!credentials.refreshToken && !credentials.idToken)
     );
   }
 
-  private async ensureAuthenticated(): Promise<void> {
-    if (this.authInFlight) return this.authInFlight;
+  /**
+   * Adopt tokens handed to the client through its credentials.
+   * Their age is unknown, so they are treated as freshly issued.
+   */
+  private seedTokens(credentials: VisualpingCredentials): void {
+    const now = new Date();
 
-    this.authInFlight = (async () => {
-      if (!this.isRefreshTokenValid()) {
-        await this.passwordAuthFlow();
-        this.lastRefreshTokenRefresh = new Date();
-        this.lastIdTokenRefresh = new Date();
-        return;
+    if (credentials.refreshToken) {
+      this.refreshToken = credentials.refreshToken;
+      this.lastRefreshTokenRefresh = now;
+    }
+    if (credentials.idToken) {
+      this.idToken = credentials.idToken;
+      this.lastIdTokenRefresh = now;
+    }
+  }
+
+  /**
+   * Drop an id token the API rejected. The store is only cleared when it
+   * still holds the rejected token - another process may have replaced it.
+   * The read and write happen under the store lock, so a concurrent login
+   * isn't overwritten.
+   */
+  private async invalidateIdToken(): Promise<void> {
+    const rejected = this.idToken;
+    this.idToken = null;
+    this.lastIdTokenRefresh = null;
+
+    await this.withStoreLock(async () => {
+      const stored = await this.tokenStore.get();
+      if (stored && stored.idToken === rejected) {
+        await this.tokenStore.set({
+          ...stored,
+          idToken: null,
+          lastIdTokenRefresh: null,
+        });
       }
+    });
+  }
+
+  private withStoreLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.tokenStore.withLock ? this.tokenStore.withLock(fn) : fn();
+  }
+
+  private async syncTokens(): Promise<void> {
+    // another process sharing the store may already have logged in
+    await this.loadTokens();
+    if (this.isIdTokenValid()) return;
 
-      if (!this.isIdTokenValid()) {
+    let credentials: VisualpingCredentials | null = null;
+    if (this.refreshToken === null) {
+      credentials = await this.resolveCredentials();
+      this.seedTokens(credentials);
+      if (this.isIdTokenValid()) return;
+    }
+
+    if (this.isRefreshTokenValid()) {
+      try {
         await this.refreshTokenAuthFlow();
         this.lastIdTokenRefresh = new Date();
+        await this.saveTokens();
+        return;
+      } catch (err) {
+        // refresh token was revoked -> fall back to a password login
+        const isRejected =
+          err instanceof VisualpingApiError &&
+          [400, 401, 403].includes(err.status);
+        if (!isRejected) throw err;
+        await this.clearTokens();
       }
-    })();
+    }
+
+    credentials ??= await this.resolveCredentials();
+    if (!this.isPasswordLoginAllowed(credentials)) {
+      throw new VisualpingCredentialsError(
+        'no valid token available and password login is not allowed'
+      );
+    }
+
+    await this.passwordAuthFlow(credentials);
+    this.lastRefreshTokenRefresh = new Date();
+    this.lastIdTokenRefresh = new Date();
+    await this.saveTokens();
+  }
+
+  private async ensureAuthenticated(): Promise<void> {
+    if (this.authInFlight) return this.authInFlight;
+    if (this.isIdTokenValid()) return;
+
+    this.authInFlight = this.withStoreLock(() => this.syncTokens());
 
     try {
       await this.authInFlight;
@@ -301,14 +861,18 @@ export class VisualpingClient {
    * Returns account-level information including user type, subscription
    * details, and workspace access.
    *
+   * @param options - Optional `signal` and `timeoutMs` for this call
    * @returns Promise resolving to the authenticated user's details
    *
    * @example
    * const user = await client.describeUser();
    */
-  async describeUser(): Promise<VisualpingUser> {
+  async describeUser(options?: CallOptions): Promise<VisualpingUser> {
     return this.authenticatedRequest<VisualpingUser>(
-      `${this.#accountBaseUrl}/describe-user`
+      `${this.#accountBaseUrl}/describe-user`,
+      undefined,
+      options,
+      visualpingUserSchema
     );
   }
 
@@ -324,6 +888,7 @@ export class VisualpingClient {
    *
    * @param params - Optional query parameters used to filter jobs and control output format
    * @param params.mode - Output format mode determining the response shape
+   * @param options - Optional `signal` and `timeoutMs` for this call
    *
    * @returns Promise resolving to job data based on the selected output mode
    *
@@ -352,32 +917,36 @@ export class VisualpingClient {
    * });
    */
   async getJobs(
-    jobParams?: GetJobsParams & { mode?: undefined }
+    jobParams?: GetJobsParams & { mode?: undefined },
+    options?: CallOptions
   ): Promise<JobsNormalResponse>;
   async getJobs(
-    jobParams: GetJobsParams & { mode: typeof OutputMode.NORMAL }
+    jobParams: GetJobsParams & { mode: typeof OutputMode.NORMAL },
+    options?: CallOptions
   ): Promise<JobsNormalResponse>;
   async getJobs(
-    jobParams: GetJobsParams & { mode: typeof OutputMode.IDS_ONLY }
+    jobParams: GetJobsParams & { mode: typeof OutputMode.IDS_ONLY },
+    options?: CallOptions
   ): Promise<JobsIdsOnlyResponse>;
   async getJobs(
-    jobParams: GetJobsParams & { mode: typeof OutputMode.IDS_AND_WS_IDS }
+    jobParams: GetJobsParams & { mode: typeof OutputMode.IDS_AND_WS_IDS },
+    options?: CallOptions
   ): Promise<JobsIdsAndWsIdsResponse>;
   async getJobs(
-    jobParams: GetJobsParams & { mode: typeof OutputMode.COUNTS_ONLY }
+    jobParams: GetJobsParams & { mode: typeof OutputMode.COUNTS_ONLY },
+    options?: CallOptions
   ): Promise<JobsCountsOnlyResponse>;
   async getJobs(
-    jobParams: GetJobsParams = {} as GetJobsParams
+    jobParams: GetJobsParams = {} as GetJobsParams,
+    options?: CallOptions
   ): Promise<
     | JobsNormalResponse
     | JobsIdsOnlyResponse
     | JobsIdsAndWsIdsResponse
     | JobsCountsOnlyResponse
   > {
-    const finalParams: QueryParams = {
-      ...jobParams,
-      mode: jobParams.mode ?? OutputMode.NORMAL,
-    };
+    const mode = jobParams.mode ?? OutputMode.NORMAL;
+    const finalParams: QueryParams = { ...jobParams, mode };
 
     const queryString = this.buildQueryString(finalParams);
     return this.authenticatedRequest<
@@ -385,7 +954,12 @@ export class VisualpingClient {
       | JobsIdsOnlyResponse
       | JobsIdsAndWsIdsResponse
       | JobsCountsOnlyResponse
-    >(`${this.#jobBaseUrl}/jobs${queryString}`);
+    >(
+      `${this.#jobBaseUrl}/jobs${queryString}`,
+      undefined,
+      options,
+      jobsResponseSchemas[mode]
+    );
   }
 
   /**
@@ -397,7 +971,10 @@ export class VisualpingClient {
    * For business users, `workspaceId` is mandatory.
    *
    * @param jobData - Full job configuration payload
+   * @param options - Optional `signal` and `timeoutMs` for this call
    * @returns Promise resolving to created job details
+   * @throws VisualpingQuotaError when `quotaGuard` is on and an active job
+   * would exceed the workspace's active job limit
    *
    * @example
    * // Personal user - minimal required fields
@@ -427,13 +1004,34 @@ export class VisualpingClient {
    * });
    *
    */
-  async createJob(jobData: CreateJobRequest): Promise<CreatedJobResult> {
-    return this.authenticatedRequest<CreatedJobResult>(
-      `${this.#jobBaseUrl}/jobs`,
-      {
-        method: 'POST',
-        body: JSON.stringify(jobData),
-      }
+  async createJob(
+    jobData: CreateJobRequest,
+    options?: CallOptions
+  ): Promise<CreatedJobResult> {
+    const endpoint = `${this.#jobBaseUrl}/jobs`;
+    await this.assertValidJob(
+      jobData,
+      false,
+      { method: 'POST', endpoint },
+      options
+    );
+
+    const send = (active: boolean) =>
+      this.authenticatedRequest<CreatedJobResult>(
+        endpoint,
+        {
+          method: 'POST',
+          body: JSON.stringify({ ...jobData, active }),
+        },
+        options,
+        createdJobResultSchema
+      );
+    if (!jobData.active) return send(false);
+
+    return this.withQuota(
+      { workspaceId: jobData.workspaceId, operation: 'create' },
+      { method: 'POST', endpoint },
+      send
     );
   }
 
@@ -442,6 +1040,7 @@ export class VisualpingClient {
    *
    * @param jobId - The ID of the job to retrieve
    * @param workspaceId - The workspace ID. Mandatory for business users.
+   * @param options - Optional `signal` and `timeoutMs` for this call
    * @returns Promise resolving to full job details
    *
    * @example
@@ -454,10 +1053,14 @@ export class VisualpingClient {
    */
   async getJob(
     jobId: number | string,
-    workspaceId?: number | string
+    workspaceId?: number | string,
+    options?: CallOptions
   ): Promise<FullJobDetails> {
     return this.authenticatedRequest<FullJobDetails>(
-      `${this.#jobBaseUrl}/jobs/${jobId}${this.withWorkspace(workspaceId)}`
+      `${this.#jobBaseUrl}/jobs/${jobId}${this.withWorkspace(workspaceId)}`,
+      undefined,
+      options,
+      fullJobDetailsSchema
     );
   }
 
@@ -468,7 +1071,10 @@ export class VisualpingClient {
    *
    * @param jobId - The ID of the job to update
    * @param jobData - Partial job configuration to update. For business users, workspaceId and organisationId are mandatory.
+   * @param options - Optional `signal` and `timeoutMs` for this call
    * @returns Promise resolving to update details including estimated consumption
+   * @throws VisualpingQuotaError when `quotaGuard` is on and activating the
+   * job would exceed the workspace's active job limit
    *
    * @example
    * // Update description and interval
@@ -499,14 +1105,44 @@ export class VisualpingClient {
    */
   async updateJob(
     jobId: number | string,
-    jobData: UpdateJobRequest
+    jobData: UpdateJobRequest,
+    options?: CallOptions
   ): Promise<UpdateJobDetails> {
-    return this.authenticatedRequest<UpdateJobDetails>(
-      `${this.#jobBaseUrl}/jobs/${jobId}`,
+    const endpoint = `${this.#jobBaseUrl}/jobs/${jobId}`;
+    await this.assertValidJob(
+      jobData,
+      true,
+      { method: 'PUT', endpoint },
+      options
+    );
+
+    const send = (active = jobData.active) =>
+      this.authenticatedRequest<UpdateJobDetails>(
+        endpoint,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ ...jobData, active }),
+        },
+        options,
+        updateJobDetailsSchema
+      );
+    if (jobData.active !== true) {
+      const result = await send();
+      // paused jobs free quota
+      if (jobData.active === false) this.#quotaGuard?.invalidate();
+      return result;
+    }
+
+    return this.withQuota(
       {
-        method: 'PUT',
-        body: JSON.stringify(jobData),
-      }
+        workspaceId: jobData.workspaceId,
+        operation: 'activate',
+        jobId,
+        isActive: async () =>
+          (await this.getJob(jobId, jobData.workspaceId, options)).active,
+      },
+      { method: 'PUT', endpoint },
+      send
     );
   }
 
@@ -520,6 +1156,7 @@ export class VisualpingClient {
    *
    * @param jobId - The ID of the job to delete
    * @param workspaceId - The workspace ID. Mandatory for business users.
+   * @param options - Optional `signal` and `timeoutMs` for this call
    * @returns Promise resolving to deletion result details
    *
    * @example
@@ -532,12 +1169,49 @@ export class VisualpingClient {
    */
   async deleteJob(
     jobId: number | string,
-    workspaceId?: number | string
+    workspaceId?: number | string,
+    options?: CallOptions
   ): Promise<DeleteJobResult> {
-    return this.authenticatedRequest<DeleteJobResult>(
+    const result = await this.authenticatedRequest<DeleteJobResult>(
       `${this.#jobBaseUrl}/jobs/${jobId}${this.withWorkspace(workspaceId)}`,
-      { method: 'DELETE' }
+      { method: 'DELETE' },
+      options,
+      deleteJobResultSchema
     );
+    this.#quotaGuard?.invalidate();
+    return result;
+  }
+
+  /**
+   * Abort every in-flight and queued request, e.g. for graceful shutdown.
+   * Calls made after `dispose()` fail immediately with a
+   * `VisualpingAbortError`.
+   *
+   * @example
+   * ```ts
+   * process.on('SIGTERM', () => client.dispose());
+   * ```
+   */
+  dispose(): void {
+    this.#disposeController.abort(new Error('Client disposed'));
+  }
+
+  /**
+   * Queue depth and wait-time statistics of the client-side rate limiters.
+   *
+   * @example
+   * ```ts
+   * const { client: stats } = client.getRateLimitStats();
+   * console.log(stats.queued, stats.averageWaitMs);
+   * ```
+   */
+  getRateLimitStats(): RateLimitStats {
+    const groups: RateLimitStats['groups'] = {};
+    for (const [group, limiter] of Object.entries(this.#groupRateLimiters)) {
+      groups[group as EndpointGroup] = limiter.stats();
+    }
+
+    return { client: this.#rateLimiter.stats(), groups };
   }
 
   // --------------------
@@ -554,6 +1228,9 @@ export class VisualpingClient {
    * @param params - Optional job query parameters. All filters supported by
    * the `/v2/jobs` endpoint may be used. Pagination fields (`pageIndex`) and
    * `mode` are managed internally.
+   * @param options - `signal`, `timeoutMs`, `prefetch` and the
+   * `consistency` handling of jobs changing mid-scan (duplicates are dropped
+   * by default). See `iterateJobPages`. Aborting stops the pagination loop.
    *
    * @returns Promise resolving to an array of all matching jobs
    *
@@ -563,36 +1240,336 @@ export class VisualpingClient {
    *   modeFilter: [JobMode.TEXT]
    * });
    *
+   * // Nightly export: walk again if jobs were added or removed meanwhile
+   * const inventory = await client.getAllJobs({}, {
+   *   consistency: 'rescan',
+   *   onInconsistency: (info) => console.warn('jobs changed', info),
+   * });
    * ```
    */
   async getAllJobs(
-    params: Omit<GetJobsParams, 'mode' | 'pageIndex'> = {}
+    params: Omit<GetJobsParams, 'mode' | 'pageIndex'> = {},
+    options?: PaginationOptions
   ): Promise<MinimalJob[]> {
-    const pageSize = params.pageSize ?? 100;
-
-    let pageIndex = 0;
-    let totalPages = 1;
     const out: MinimalJob[] = [];
+    for await (const job of this.iterateJobs(
+      { ...params, pageSize: params.pageSize ?? 100 },
+      options
+    )) {
+      out.push(job);
+    }
+    return out;
+  }
+
+  /**
+   * Stream every page of `/v2/jobs` for the given filters.
+   *
+   * Unlike `getAllJobs`, pages are not accumulated, and the next
+   * `prefetch` pages are requested while the current one is processed.
+   * Breaking out of the loop aborts the requests still pending.
+   *
+   * Jobs created or deleted during the scan shift the pages. By default,
+   * jobs already yielded are removed from later pages; `consistency` can
+   * also re-scan or throw when `totalJobs` changes.
+   *
+   * @param params - Job filters and output `mode`. `pageIndex` is managed
+   * internally. In `OutputMode.COUNTS_ONLY` a single page is yielded.
+   * @param options - `prefetch`, `consistency`, `signal` and `timeoutMs`
+   *
+   * @example
+   * ```ts
+   * for await (const page of client.iterateJobPages({ pageSize: 500 })) {
+   *   await db.insertMany(page.jobs);
+   * }
+   * ```
+   */
+  iterateJobPages(
+    params?: Omit<GetJobsParams, 'pageIndex'> & { mode?: undefined },
+    options?: PaginationOptions
+  ): AsyncGenerator<JobsNormalResponse, void, undefined>;
+  iterateJobPages(
+    params: Omit<GetJobsParams, 'pageIndex'> & {
+      mode: typeof OutputMode.NORMAL;
+    },
+    options?: PaginationOptions
+  ): AsyncGenerator<JobsNormalResponse, void, undefined>;
+  iterateJobPages(
+    params: Omit<GetJobsParams, 'pageIndex'> & {
+      mode: typeof OutputMode.IDS_ONLY;
+    },
+    options?: PaginationOptions
+  ): AsyncGenerator<JobsIdsOnlyResponse, void, undefined>;
+  iterateJobPages(
+    params: Omit<GetJobsParams, 'pageIndex'> & {
+      mode: typeof OutputMode.IDS_AND_WS_IDS;
+    },
+    options?: PaginationOptions
+  ): AsyncGenerator<JobsIdsAndWsIdsResponse, void, undefined>;
+  iterateJobPages(
+    params: Omit<GetJobsParams, 'pageIndex'> & {
+      mode: typeof OutputMode.COUNTS_ONLY;
+    },
+    options?: PaginationOptions
+  ): AsyncGenerator<JobsCountsOnlyResponse, void, undefined>;
+  async *iterateJobPages(
+    params: Omit<GetJobsParams, 'pageIndex'> = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<
+    | JobsNormalResponse
+    | JobsIdsOnlyResponse
+    | JobsIdsAndWsIdsResponse
+    | JobsCountsOnlyResponse,
+    void,
+    undefined
+  > {
+    const {
+      prefetch = 1,
+      consistency = 'dedupe',
+      maxRescans = 2,
+      onInconsistency,
+      ...call
+    } = options;
+    const mode = params.mode ?? OutputMode.NORMAL;
+    const sortBy =
+      params.sortBy ?? (consistency === 'none' ? undefined : ['id_asc']);
+
+    // counts are the same on every page
+    if (mode === OutputMode.COUNTS_ONLY) {
+      yield await this.getJobs({ ...params, mode, pageIndex: 0 }, call);
+      return;
+    }
+
+    const pages = paginate(
+      (pageIndex, signal) =>
+        this.getJobs(
+          {
+            ...params,
+            mode,
+            pageIndex,
+            ...(sortBy ? { sortBy } : {}),
+          } as GetJobsParams & { mode: typeof OutputMode.NORMAL },
+          { ...call, signal }
+        ),
+      {
+        prefetch,
+        consistency,
+        maxRescans,
+        onInconsistency,
+        signal: call.signal,
+      }
+    );
+
+    if (consistency === 'none') {
+      yield* pages;
+      return;
+    }
+
+    const seen = new Set<number>();
+    for await (const page of pages) {
+      yield dedupePage(page, seen);
+    }
+  }
+
+  /**
+   * Stream every job matching the filters, one at a time.
+   *
+   * The item type follows the output `mode`: `MinimalJob` by default, the
+   * job ID for `OutputMode.IDS_ONLY`, and `{ id, workspaceId }` for
+   * `OutputMode.IDS_AND_WS_IDS`. See `iterateJobPages` for paging details.
+   *
+   * @param params - Job filters and output `mode`
+   * @param options - `prefetch`, `consistency`, `signal` and `timeoutMs`
+   *
+   * @example
+   * ```ts
+   * for await (const job of client.iterateJobs({ activeFilter: [1] })) {
+   *   if (job.url.includes('example.com')) break; // stops fetching
+   * }
+   *
+   * for await (const id of client.iterateJobs({ mode: OutputMode.IDS_ONLY })) {
+   *   ids.add(id);
+   * }
+   * ```
+   */
+  iterateJobs(
+    params?: Omit<GetJobsParams, 'pageIndex'> & {
+      mode?: typeof OutputMode.NORMAL;
+    },
+    options?: PaginationOptions
+  ): AsyncGenerator<MinimalJob, void, undefined>;
+  iterateJobs(
+    params: Omit<GetJobsParams, 'pageIndex'> & {
+      mode: typeof OutputMode.IDS_ONLY;
+    },
+    options?: PaginationOptions
+  ): AsyncGenerator<number, void, undefined>;
+  iterateJobs(
+    params: Omit<GetJobsParams, 'pageIndex'> & {
+      mode: typeof OutputMode.IDS_AND_WS_IDS;
+    },
+    options?: PaginationOptions
+  ): AsyncGenerator<JobRef, void, undefined>;
+  async *iterateJobs(
+    params: Omit<GetJobsParams, 'pageIndex'> = {},
+    options?: PaginationOptions
+  ): AsyncGenerator<MinimalJob | number | JobRef, void, undefined> {
+    const pages = this.iterateJobPages(
+      params as Omit<GetJobsParams, 'pageIndex'> & { mode: undefined },
+      options
+    ) as AsyncGenerator<
+      Partial<
+        JobsNormalResponse & JobsIdsOnlyResponse & JobsIdsAndWsIdsResponse
+      >
+    >;
+
+    for await (const page of pages) {
+      if (page.jobs) yield* page.jobs;
+      if (page.jobIds) yield* page.jobIds;
+      for (const { workspaceId, ids } of page.jobIdsByWsId ?? []) {
+        for (const id of ids) yield { id, workspaceId };
+      }
+    }
+  }
+
+  /**
+   * Poll jobs and stream what happened to them: new changes, failed
+   * checks, runs finishing and jobs being paused.
+   *
+   * Each job is polled shortly after its `next_run`, within
+   * `pollIntervalMs`..`maxPollIntervalMs`, instead of on a fixed timer.
+   * The first poll of a job only records its state, unless a cursor from a
+   * previous watch is passed in `cursors`. Deleted jobs stop being watched;
+   * other failures are reported as `pollError` events and the job is polled
+   * again later.
+   *
+   * @param target - Job IDs, or `getJobs` filters resolved once at start
+   * @param options - Poll timing, `cursors`, `workspaceId`, `signal` and
+   * `timeoutMs`. Aborting ends the iteration with a `VisualpingAbortError`.
+   *
+   * @example
+   * ```ts
+   * for await (const event of client.watchJobs([123, 456])) {
+   *   if (event.type === 'pollError') continue;
+   *   if (event.type === 'change') {
+   *     console.log(event.job.url, event.change.englishSummary);
+   *   }
+   *   await cursorStore.save(event.jobId, event.cursor);
+   * }
+   * ```
+   */
+  async *watchJobs(
+    target: Array<number | string> | Omit<GetJobsParams, 'mode' | 'pageIndex'>,
+    options: WatchOptions = {}
+  ): AsyncGenerator<JobWatchEvent, void, undefined> {
+    const {
+      pollIntervalMs = MINUTE_MS,
+      maxPollIntervalMs = HOUR_MS,
+      runGraceMs = 30 * SECOND_MS,
+      workspaceId,
+      cursors = {},
+      ...call
+    } = options;
+    const schedule = { pollIntervalMs, maxPollIntervalMs, runGraceMs };
 
-    while (pageIndex < totalPages) {
-      const resp = await this.getJobs({
-        ...params,
-        mode: OutputMode.NORMAL,
-        pageIndex,
-        pageSize,
+    const watched = new Map<
+      string,
+      {
+        jobId: number | string;
+        workspaceId?: number | string;
+        dueAt: number;
+        cursor?: JobWatchCursor;
+      }
+    >();
+    const watch = (jobId: number | string, ws?: number | string) =>
+      watched.set(String(jobId), {
+        jobId,
+        workspaceId: ws,
+        dueAt: 0,
+        cursor: cursors[String(jobId)],
       });
 
-      out.push(...resp.jobs);
-      totalPages = resp.totalPages;
-      pageIndex += 1;
+    if (Array.isArray(target)) {
+      target.forEach((jobId) => watch(jobId, workspaceId));
+    } else {
+      for await (const ref of this.iterateJobs(
+        { ...target, mode: OutputMode.IDS_AND_WS_IDS },
+        call
+      )) {
+        watch(ref.id, ref.workspaceId);
+      }
     }
 
-    return out;
+    const { signal, cleanup } = anySignal([
+      call.signal,
+      this.#disposeController.signal,
+    ]);
+    try {
+      while (watched.size > 0) {
+        let dueAt = Infinity;
+        for (const w of watched.values()) dueAt = Math.min(dueAt, w.dueAt);
+        const waitMs = dueAt - Date.now();
+        if (waitMs > 0) await sleep(waitMs, signal);
+
+        for (const [key, w] of watched) {
+          if (w.dueAt > Date.now()) continue;
+
+          let job: FullJobDetails;
+          try {
+            job = await this.getJob(w.jobId, w.workspaceId, {
+              ...call,
+              signal,
+            });
+          } catch (err) {
+            if (err instanceof VisualpingAbortError || signal.aborted)
+              throw err;
+            if (err instanceof VisualpingNotFoundError) {
+              watched.delete(key);
+              continue;
+            }
+            // keep watching the other jobs, retry this one later
+            w.dueAt = Date.now() + pollIntervalMs;
+            yield {
+              type: 'pollError',
+              jobId: w.jobId,
+              error: err,
+              cursor: w.cursor,
+            };
+            continue;
+          }
+
+          const { events, cursor } = diffJob(w.jobId, job, w.cursor);
+          w.cursor = cursor;
+          w.dueAt = nextPollAt(job, Date.now(), schedule);
+          yield* events;
+        }
+      }
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Stream the events of a single job. See `watchJobs`.
+   *
+   * @example
+   * ```ts
+   * for await (const event of client.watchJob(123)) {
+   *   if (event.type === 'checkError') alert(event.entry.error_message);
+   * }
+   * ```
+   */
+  watchJob(
+    jobId: number | string,
+    workspaceId?: number | string,
+    options?: Omit<WatchOptions, 'workspaceId'>
+  ): AsyncGenerator<JobWatchEvent, void, undefined> {
+    return this.watchJobs([jobId], { ...options, workspaceId });
   }
 
   /**
    * Return the workspaces available to the authenticated user.
    *
+   * @param options - Optional `signal` and `timeoutMs` for this call
    * @returns Promise resolving to the user's workspaces
    *
    * @example
@@ -600,20 +1577,253 @@ export class VisualpingClient {
    * const workspaces = await client.getWorkspaces();
    * ```
    */
-  async getWorkspaces(): Promise<Workspace[]> {
-    const user = await this.describeUser();
+  async getWorkspaces(options?: CallOptions): Promise<Workspace[]> {
+    const user = await this.describeUser(options);
     return user.workspaces;
   }
 
+  /**
+   * Bind the job methods to one workspace, so `workspaceId` and the
+   * `organisationId` of updates don't have to be passed to every call.
+   *
+   * @param workspaceId - Workspace every call is scoped to
+   * @param options - `organisationId` for updates; resolved from
+   * `describeUser().organisation` on first use when omitted
+   * @returns A facade with the job methods of the client
+   *
+   * @example
+   * ```ts
+   * const marketing = client.workspace(10);
+   * await marketing.pauseJobs([123, 456]);
+   * const job = await marketing.getJob(123);
+   * ```
+   */
+  workspace(
+    workspaceId: number,
+    options?: WorkspaceClientOptions
+  ): WorkspaceClient {
+    return new WorkspaceClient(this, workspaceId, options);
+  }
+
+  /**
+   * Run `fn` once per workspace of `getWorkspaces()`, with a facade scoped
+   * to it.
+   *
+   * Workspaces run concurrently and a failure doesn't stop the others;
+   * check the returned report for the outcome of each workspace.
+   *
+   * @param fn - Operation receiving the scoped facade and the workspace
+   * @param options - `filter`, `concurrency`, `stopOnError`, `signal` and
+   * `timeoutMs`
+   * @returns Per-workspace results in `getWorkspaces()` order
+   *
+   * @example
+   * ```ts
+   * const report = await client.forEachWorkspace(
+   *   (ws) => ws.getJobs({ mode: OutputMode.COUNTS_ONLY }),
+   *   { filter: (ws) => ws.role === 'ADMIN' }
+   * );
+   * for (const r of report.results) {
+   *   if (r.status === 'succeeded') console.log(r.workspace.name, r.result.totalJobs);
+   * }
+   * ```
+   */
+  async forEachWorkspace<T>(
+    fn: (workspace: WorkspaceClient, details: Workspace) => Promise<T>,
+    options: ForEachWorkspaceOptions = {}
+  ): Promise<WorkspaceRunReport<T>> {
+    const { filter, ...bulk } = options;
+    const workspaces = (await this.getWorkspaces(bulk)).filter(
+      (ws) => !filter || filter(ws)
+    );
+    const byId = new Map(workspaces.map((ws) => [ws.id, ws]));
+
+    const report = await runBulk(
+      workspaces.map((ws) => ws.id),
+      async (id) => {
+        const workspace = byId.get(Number(id)) as Workspace;
+        return { value: await fn(this.workspace(workspace.id), workspace) };
+      },
+      bulk
+    );
+
+    const results = report.results.map((r): WorkspaceRunResult<T> => {
+      const workspace = byId.get(Number(r.jobId)) as Workspace;
+      const { jobId: _id, ...outcome } = r;
+      return outcome.status === 'succeeded'
+        ? {
+            workspaceId: workspace.id,
+            workspace,
+            status: 'succeeded',
+            result: outcome.result.value,
+          }
+        : { workspaceId: workspace.id, workspace, ...outcome };
+    });
+    return { ...report, results };
+  }
+
+  /**
+   * Check a job payload before sending it, using the plan limits of its
+   * workspace (`workspaceId`, or the personal workspace) from
+   * `describeUser()`.
+   *
+   * Checks the URL length and format, `trigger` range, `interval` against
+   * the plan's `maxJobFrequency`, keywords on non-TEXT jobs, SMS alerts and
+   * the active job limit. Every violation is returned at once.
+   *
+   * @param job - Job to create, or the changes of an update
+   * @param params - `update: true` to validate a partial update payload
+   * @param options - Optional `signal` and `timeoutMs` for this call
+   * @returns Every violation found; empty when the job looks valid
+   *
+   * @example
+   * ```ts
+   * const violations = await client.validateJob({
+   *   url: 'https://example.com',
+   *   mode: JobMode.VISUAL,
+   *   active: true,
+   *   interval: '5',
+   *   trigger: '150',
+   *   target_device: TargetDevice.DESKTOP,
+   *   wait_time: 0,
+   *   keywords: 'price',
+   * });
+   * // trigger (range), interval (maxJobFrequency), keywords (textModeOnly)
+   * ```
+   */
+  async validateJob(
+    job: CreateJobRequest | UpdateJobRequest,
+    params: Pick<JobValidationOptions, 'update'> = {},
+    options?: CallOptions
+  ): Promise<JobViolation[]> {
+    const user = await this.describeUser(options);
+    const workspace =
+      job.workspaceId !== undefined
+        ? user.workspaces.find((ws) => ws.id === job.workspaceId)
+        : user.personalWorkspace;
+
+    if (!workspace && job.workspaceId !== undefined) {
+      return [
+        ...validateJob(job, params),
+        {
+          field: 'workspaceId',
+          rule: 'workspace',
+          message: `workspace ${job.workspaceId} is not available to this user`,
+        },
+      ];
+    }
+
+    return validateJob(job, {
+      ...params,
+      features: workspace?.accountFeatures,
+      activeJobCount: workspace?.counts.activeJobCount,
+    });
+  }
+
+  /**
+   * Forecast the checks planned job changes consume, before sending them,
+   * and compare them with the workspace's credit balance.
+   *
+   * New jobs are estimated from their spec. For updates (changes with a
+   * `jobId`), the current job is fetched and the change counts as the
+   * difference. Estimates use `interval`, `active`, the `advanced_schedule`
+   * days and hours, and `target_device`, see `estimateJobConsumption`.
+   *
+   * @param changes - Jobs to create, and/or updates with their `jobId`
+   * @param params - `workspaceId` whose `balances` are checked, and
+   * `deviceChecks` overrides
+   * @param options - Optional `signal` and `timeoutMs` for this call
+   * @returns Per-job estimates, their net `delta`, and whether they would
+   * push the workspace into over-consumption before its credits renew
+   *
+   * @example
+   * ```ts
+   * const forecast = await client.estimateConsumption(
+   *   [newJob, { jobId: 123, interval: '5' }],
+   *   { workspaceId: 10 }
+   * );
+   * if (forecast.wouldOverConsume) {
+   *   throw new Error(`needs ${forecast.delta.monthly} more checks a month`);
+   * }
+   * ```
+   */
+  async estimateConsumption(
+    changes: ConsumptionChange | ConsumptionChange[],
+    params: ConsumptionParams = {},
+    options?: CallOptions
+  ): Promise<ConsumptionForecast> {
+    const list = Array.isArray(changes) ? changes : [changes];
+    const { workspaceId = list[0]?.workspaceId, ...consumption } = params;
+
+    const user = await this.describeUser(options);
+    const workspace =
+      workspaceId !== undefined
+        ? user.workspaces.find((ws) => ws.id === workspaceId)
+        : user.personalWorkspace;
+    if (!workspace && workspaceId !== undefined) {
+      throw new VisualpingError(
+        `Workspace ${workspaceId} is not available to this user`
+      );
+    }
+
+    const jobs: JobConsumptionEstimate[] = [];
+    for (const [index, change] of list.entries()) {
+      if (!('jobId' in change)) {
+        jobs.push({
+          index,
+          url: change.url,
+          ...compareJobConsumption(null, change, consumption),
+        });
+        continue;
+      }
+
+      const job = await this.getJob(
+        change.jobId,
+        change.workspaceId ?? workspaceId,
+        options
+      );
+      const current: ConsumptionJobSpec = {
+        interval: job.interval,
+        active: job.active,
+        target_device: job.target_device,
+        advanced_schedule: job.advanced_schedule,
+      };
+      const planned: ConsumptionJobSpec = {
+        interval: change.interval ?? current.interval,
+        active: change.active ?? current.active,
+        target_device: change.target_device ?? current.target_device,
+        advanced_schedule:
+          change.advanced_schedule !== undefined
+            ? change.advanced_schedule
+            : current.advanced_schedule,
+      };
+      jobs.push({
+        index,
+        jobId: change.jobId,
+        url: change.url ?? job.url,
+        ...compareJobConsumption(current, planned, consumption),
+      });
+    }
+
+    return forecastConsumption(jobs, workspace?.balances);
+  }
+
   /**
    * Pause multiple jobs by setting them to inactive.
    *
+   * Jobs are updated concurrently and a failure doesn't stop the others;
+   * check the returned report for the outcome of each job.
+   *
    * @param jobIds - List of job IDs to pause
    * @param params - Optional business parameters required for business accounts
+   * @param options - `concurrency`, `stopOnError`, `signal` and `timeoutMs`.
+   * Aborting skips the jobs not started yet.
+   * @returns Per-job results and the summed `estimatedConsumption`
    *
    * @example
    * ```ts
-   * await client.pauseJobs([123, 456]);
+   * const report = await client.pauseJobs([123, 456]);
+   * const failed = report.results.filter((r) => r.status === 'failed');
    * ```
    *
    * @example
@@ -627,13 +1837,292 @@ export class VisualpingClient {
    */
   async pauseJobs(
     jobIds: Array<number | string>,
-    params?: Pick<UpdateJobRequest, 'workspaceId' | 'organisationId'>
-  ): Promise<void> {
-    for (const jobId of jobIds) {
-      await this.updateJob(jobId, {
-        ...params,
-        active: false,
-      });
+    params?: Pick<UpdateJobRequest, 'workspaceId' | 'organisationId'>,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport> {
+    return this.updateJobs(jobIds, { ...params, active: false }, options);
+  }
+
+  /**
+   * Resume multiple paused jobs. See `pauseJobs`.
+   *
+   * @example
+   * ```ts
+   * const { succeeded, failed } = await client.resumeJobs([123, 456]);
+   * ```
+   */
+  async resumeJobs(
+    jobIds: Array<number | string>,
+    params?: Pick<UpdateJobRequest, 'workspaceId' | 'organisationId'>,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport> {
+    return this.updateJobs(jobIds, { ...params, active: true }, options);
+  }
+
+  /**
+   * Update multiple jobs concurrently, continuing past failures.
+   *
+   * Takes either a patch per job ID, or the job IDs with one patch for all
+   * of them or a function computing each patch. Jobs for which the function
+   * returns `null` or `undefined` are reported as skipped.
+   *
+   * @param options - `concurrency`, `stopOnError`, `signal` and `timeoutMs`
+   * @returns Per-job results and the summed `estimatedConsumption`
+   *
+   * @example
+   * ```ts
+   * await client.updateJobs({ 123: { interval: '60' }, 456: { interval: '1440' } });
+   *
+   * await client.updateJobs(jobIds, (jobId) =>
+   *   slowJobs.has(jobId) ? { interval: '1440' } : null
+   * );
+   * ```
+   */
+  async updateJobs(
+    patchById:
+      | Record<number | string, UpdateJobRequest>
+      | Map<number | string, UpdateJobRequest>,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport>;
+  async updateJobs(
+    jobIds: Array<number | string>,
+    patch: UpdateJobRequest | JobPatchFn,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport>;
+  async updateJobs(
+    jobIdsOrPatches:
+      | Array<number | string>
+      | Record<number | string, UpdateJobRequest>
+      | Map<number | string, UpdateJobRequest>,
+    patchOrOptions?: UpdateJobRequest | JobPatchFn | BulkOptions,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport> {
+    let jobIds: Array<number | string>;
+    let patchFor: JobPatchFn;
+
+    if (Array.isArray(jobIdsOrPatches)) {
+      const patch = patchOrOptions as UpdateJobRequest | JobPatchFn;
+      jobIds = jobIdsOrPatches;
+      patchFor = typeof patch === 'function' ? patch : () => patch;
+    } else {
+      const patches =
+        jobIdsOrPatches instanceof Map
+          ? jobIdsOrPatches
+          : new Map(
+              Object.entries(jobIdsOrPatches).map(([id, patch]) => [
+                /^\d+$/.test(id) ? Number(id) : id,
+                patch,
+              ])
+            );
+      jobIds = [...patches.keys()];
+      patchFor = (jobId) => patches.get(jobId);
+      options = patchOrOptions as BulkOptions | undefined;
+    }
+
+    const report = await runBulk(
+      jobIds,
+      async (jobId) => {
+        const patch = await patchFor(jobId);
+        return patch ? this.updateJob(jobId, patch, options) : null;
+      },
+      options
+    );
+
+    const estimatedConsumption = { daily: 0, weekly: 0, monthly: 0 };
+    for (const r of report.results) {
+      if (r.status !== 'succeeded') continue;
+      estimatedConsumption.daily += r.result.estimatedConsumption.daily;
+      estimatedConsumption.weekly += r.result.estimatedConsumption.weekly;
+      estimatedConsumption.monthly += r.result.estimatedConsumption.monthly;
+    }
+
+    return { ...report, estimatedConsumption };
+  }
+
+  /**
+   * Delete multiple jobs concurrently, continuing past failures.
+   *
+   * @param jobIds - List of job IDs to delete
+   * @param workspaceId - The workspace ID. Mandatory for business users.
+   * @param options - `concurrency`, `stopOnError`, `signal` and `timeoutMs`
+   * @returns Per-job results
+   *
+   * @example
+   * ```ts
+   * const report = await client.deleteJobs([123, 456], undefined, {
+   *   concurrency: 2,
+   * });
+   * ```
+   */
+  async deleteJobs(
+    jobIds: Array<number | string>,
+    workspaceId?: number | string,
+    options?: BulkOptions
+  ): Promise<BulkReport<DeleteJobResult>> {
+    return runBulk(
+      jobIds,
+      (jobId) => this.deleteJob(jobId, workspaceId, options),
+      options
+    );
+  }
+
+  /**
+   * Back up the configuration of every job matching `params`, including
+   * notification, advanced_schedule, preactions, summalyzer and labelIds.
+   *
+   * @param params - `getJobs` filters and the `format`: `json` (default),
+   * `csv` or `yaml`
+   * @param options - `concurrency`, `signal` and `timeoutMs` for the
+   * per-job `getJob` calls
+   * @returns The backup file content, see `importJobs`
+   * @throws The first error of any `getJob` call, so a backup is complete
+   *
+   * @example
+   * ```ts
+   * const yaml = await client.exportJobs({ workspaceId: 10, format: 'yaml' });
+   * await writeFile('jobs.yaml', yaml);
+   * ```
+   */
+  async exportJobs(
+    params: JobExportParams = {},
+    options?: BulkOptions
+  ): Promise<string> {
+    const { format = 'json', ...filters } = params;
+    const jobs = await this.getAllJobs(filters, options);
+    // each listed job is read from its own workspace
+    const workspaces = new Map(
+      jobs.map((job) => [String(job.id), job.workspaceId ?? params.workspaceId])
+    );
+
+    const report = await runBulk(
+      jobs.map((job) => job.id),
+      (jobId) => this.getJob(jobId, workspaces.get(String(jobId)), options),
+      { ...options, stopOnError: true }
+    );
+
+    const exported: ExportedJob[] = report.results.map((r) => {
+      if (r.status === 'failed') throw r.error;
+      if (r.status === 'skipped') {
+        throw new VisualpingError(
+          `Could not export job ${r.jobId}: ${r.reason}`
+        );
+      }
+      return { id: Number(r.jobId), ...jobSpecFromDetails(r.result) };
+    });
+
+    return serializeJobs(exported, format, {
+      workspaceId: params.workspaceId,
+    });
+  }
+
+  /**
+   * Create the jobs of a backup written by `exportJobs`, e.g. to restore a
+   * workspace or copy its jobs to another one.
+   *
+   * Jobs are matched with the existing jobs of `targetWorkspaceId` by mode
+   * and url; `conflict` decides what happens to matches.
+   *
+   * @param file - Backup file content in any of the export formats
+   * @param params - `targetWorkspaceId`, `conflict` (default `skip`) and
+   * `format`
+   * @param options - `concurrency`, `stopOnError`, `signal` and `timeoutMs`
+   * @returns Per-job results keyed by the job's ID in the backup. Jobs
+   * sharing an ID fail without being imported.
+   * @throws VisualpingJobValidationError when the backup contains invalid
+   * jobs; nothing is imported then
+   *
+   * @example
+   * ```ts
+   * const report = await client.importJobs(await readFile('jobs.yaml', 'utf8'), {
+   *   targetWorkspaceId: 20,
+   *   conflict: 'update',
+   * });
+   * ```
+   */
+  async importJobs(
+    file: string,
+    params: JobImportParams = {},
+    options?: BulkOptions
+  ): Promise<BulkReport<CreatedJobResult | UpdateJobDetails>> {
+    const { targetWorkspaceId, organisationId, conflict = 'skip' } = params;
+    const jobs = parseJobs(file, params.format);
+    const keyOf = (job: { mode: string; url: string }) =>
+      `${job.mode}|${job.url}`;
+
+    const existing = new Map<string, number>();
+    if (conflict !== 'duplicate') {
+      const current = await this.getAllJobs(
+        { workspaceId: targetWorkspaceId },
+        options
+      );
+      for (const job of current) {
+        if (!existing.has(keyOf(job))) existing.set(keyOf(job), job.id);
+      }
     }
+
+    const refs = jobs.map((job, index) => job.id ?? `[${index}]`);
+    const counts = new Map<number | string, number>();
+    for (const ref of refs) counts.set(ref, (counts.get(ref) ?? 0) + 1);
+    const byRef = new Map(jobs.map((job, index) => [refs[index], job]));
+
+    const report = await runBulk(
+      refs.filter((ref) => counts.get(ref) === 1),
+      async (ref) => {
+        const { id: _sourceId, ...spec } = byRef.get(ref) as ExportedJob;
+        const existingId = existing.get(keyOf(spec));
+
+        if (existingId === undefined || conflict === 'duplicate') {
+          return this.createJob(
+            { ...spec, workspaceId: targetWorkspaceId },
+            options
+          );
+        }
+        if (conflict === 'skip') return null;
+        return this.updateJob(
+          existingId,
+          { ...spec, workspaceId: targetWorkspaceId, organisationId },
+          options
+        );
+      },
+      options
+    );
+
+    // jobs sharing an ID can't be told apart, so none of them is imported
+    const imported = new Map(report.results.map((r) => [r.jobId, r]));
+    const results = refs.map(
+      (ref): BulkJobResult<CreatedJobResult | UpdateJobDetails> =>
+        imported.get(ref) ?? {
+          jobId: ref,
+          status: 'failed',
+          error: new VisualpingError(
+            `Backup has ${counts.get(ref)} jobs with id ${ref}`
+          ),
+        }
+    );
+    return {
+      results,
+      succeeded: report.succeeded,
+      failed: results.filter((r) => r.status === 'failed').length,
+      skipped: report.skipped,
+    };
   }
 }
+
+const jobsResponseSchemas: Record<
+  OutputModeType,
+  Schema<
+    | JobsNormalResponse
+    | JobsIdsOnlyResponse
+    | JobsIdsAndWsIdsResponse
+    | JobsCountsOnlyResponse
+  >
+> = {
+  [OutputMode.NORMAL]: jobsNormalResponseSchema,
+  [OutputMode.IDS_ONLY]: jobsIdsOnlyResponseSchema,
+  [OutputMode.IDS_AND_WS_IDS]: jobsIdsAndWsIdsResponseSchema,
+  [OutputMode.COUNTS_ONLY]: jobsCountsOnlyResponseSchema,
+};
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
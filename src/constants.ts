@@ -6,3 +6,11 @@ export const DAY_MS = 24 * HOUR_MS;
 // Token TTL policy (API contract)
 export const ID_TOKEN_REFRESH_MS = 23 * HOUR_MS; // refresh every 23h (24h validity)
 export const REFRESH_TOKEN_REFRESH_MS = 29 * DAY_MS; // refresh every 29d (30d validity)
+
+// Refresh JWTs this long before their `exp` claim
+export const TOKEN_REFRESH_MARGIN_MS = 5 * MINUTE_MS;
+
+// Default API hosts
+export const API_BASE_URL = 'https://api.visualping.io/v2';
+export const ACCOUNT_BASE_URL = 'https://account.api.visualping.io';
+export const JOB_BASE_URL = 'https://job.api.visualping.io/v2';
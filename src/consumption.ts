@@ -0,0 +1,233 @@
+import { DAY_MS } from './constants';
+import { VisualpingJobValidationError } from './error';
+import {
+  LegacyAdvancedSchedule,
+  TargetDevice,
+  TargetDeviceType,
+} from './types/api/common';
+import { Balances } from './types/api/response/describeUser';
+import { EstimatedConsumption } from './types/api/response/updateJob';
+
+/**
+ * The job fields that drive its check consumption
+ */
+export interface ConsumptionJobSpec {
+  /** Minutes between checks, as in `CreateJobRequest` */
+  interval: string | number;
+  /** Paused jobs consume nothing. @default true */
+  active?: boolean;
+  target_device?: TargetDeviceType;
+  advanced_schedule?: LegacyAdvancedSchedule | null;
+}
+
+export interface ConsumptionOptions {
+  /**
+   * Checks billed per run for each target device
+   * @default 1 per run, 3 for `TargetDevice.ALL` (desktop, mobile, tablet)
+   */
+  deviceChecks?: Partial<Record<TargetDeviceType, number>>;
+}
+
+/**
+ * Consumption of one job before and after a planned change
+ */
+export interface JobConsumptionEstimate {
+  /** Position in the list passed to `estimateConsumption` */
+  index: number;
+  /** Set for updates of existing jobs */
+  jobId?: number;
+  url?: string;
+  /** The job as it is now; zero for new jobs */
+  current: EstimatedConsumption;
+  /** The job after the change */
+  planned: EstimatedConsumption;
+  /** `planned - current` */
+  delta: EstimatedConsumption;
+}
+
+/**
+ * Planned changes compared with the workspace's credit balance
+ */
+export interface ConsumptionForecast {
+  jobs: JobConsumptionEstimate[];
+  /** Net change of all jobs */
+  delta: EstimatedConsumption;
+  /** Balance of the workspace, when known */
+  balances?: Balances;
+  /** Days until `nextCreditRenewalAt`, or 30 without a renewal date */
+  daysUntilRenewal: number;
+  /**
+   * Checks expected until the renewal with the changes applied, from
+   * `estimatedMonthlyConsumption` plus `delta.monthly`
+   */
+  projectedUntilRenewal: number;
+  /** `credits - projectedUntilRenewal`, when the credits are known */
+  remainingAtRenewal?: number;
+  /** The workspace is already in over-consumption (`inOverConsumption`) */
+  inOverConsumption: boolean;
+  /**
+   * The changes add consumption while the workspace is in over-consumption,
+   * or would use more than its credits before the renewal
+   */
+  wouldOverConsume: boolean;
+}
+
+const DEFAULT_DEVICE_CHECKS: Record<TargetDeviceType, number> = {
+  [TargetDevice.DESKTOP]: 1,
+  [TargetDevice.MOBILE]: 1,
+  [TargetDevice.TABLET]: 1,
+  [TargetDevice.ALL]: 3,
+};
+
+const DAYS_PER_MONTH = 30;
+
+/**
+ * Checks a job runs per day, week and month, from its `interval`,
+ * `advanced_schedule` (active days and hours) and `target_device`.
+ *
+ * Daily figures are averaged over the week, monthly ones cover 30 days.
+ *
+ * @example
+ * ```ts
+ * estimateJobConsumption({
+ *   interval: '60',
+ *   advanced_schedule: { start_time: 9, stop_time: 17, active_days: [1, 2, 3, 4, 5] },
+ * });
+ * // { daily: 5.71, weekly: 40, monthly: 171.43 } - unrounded
+ * ```
+ */
+export function estimateJobConsumption(
+  job: ConsumptionJobSpec,
+  options: ConsumptionOptions = {}
+): EstimatedConsumption {
+  const interval = Number(job.interval);
+  if (!(interval > 0)) {
+    throw new VisualpingJobValidationError([
+      {
+        field: 'interval',
+        rule: 'range',
+        message: 'must be a positive number of minutes',
+      },
+    ]);
+  }
+  if (job.active === false) return zero();
+
+  const schedule = job.advanced_schedule;
+  const activeDays = schedule
+    ? new Set(schedule.active_days.filter((d) => d >= 1 && d <= 7)).size
+    : 7;
+  const windowMinutes = schedule
+    ? scheduleHours(schedule.start_time, schedule.stop_time) * 60
+    : 24 * 60;
+
+  // jobs checked less often than their window run at most once a day
+  const runsPerActiveDay =
+    interval <= windowMinutes
+      ? windowMinutes / interval
+      : Math.min(1, (24 * 60) / interval);
+  const device = job.target_device ?? TargetDevice.DESKTOP;
+  const checksPerRun =
+    options.deviceChecks?.[device] ?? DEFAULT_DEVICE_CHECKS[device] ?? 1;
+
+  const weekly = runsPerActiveDay * activeDays * checksPerRun;
+  return {
+    daily: weekly / 7,
+    weekly,
+    monthly: (weekly / 7) * DAYS_PER_MONTH,
+  };
+}
+
+/**
+ * Compare planned changes with a workspace's `Balances`
+ *
+ * @param jobs - Estimates of the changed jobs
+ * @param balances - `balances` of the workspace from `describeUser()`
+ * @param now - Reference time for `nextCreditRenewalAt`
+ */
+export function forecastConsumption(
+  jobs: JobConsumptionEstimate[],
+  balances?: Balances,
+  now = Date.now()
+): ConsumptionForecast {
+  const delta = jobs.reduce(
+    (sum, job) => addConsumption(sum, job.delta),
+    zero()
+  );
+
+  const renewal = balances?.nextCreditRenewalAt
+    ? Date.parse(balances.nextCreditRenewalAt)
+    : NaN;
+  const daysUntilRenewal = Number.isNaN(renewal)
+    ? DAYS_PER_MONTH
+    : Math.max(0, (renewal - now) / DAY_MS);
+
+  const monthly = (balances?.estimatedMonthlyConsumption ?? 0) + delta.monthly;
+  const projectedUntilRenewal = Math.max(
+    0,
+    (monthly / DAYS_PER_MONTH) * daysUntilRenewal
+  );
+  const remainingAtRenewal =
+    balances?.credits !== undefined
+      ? balances.credits - projectedUntilRenewal
+      : undefined;
+  const inOverConsumption = balances?.inOverConsumption ?? false;
+
+  return {
+    jobs,
+    delta,
+    balances,
+    daysUntilRenewal,
+    projectedUntilRenewal,
+    remainingAtRenewal,
+    inOverConsumption,
+    wouldOverConsume:
+      delta.monthly > 0 &&
+      (inOverConsumption ||
+        (remainingAtRenewal !== undefined && remainingAtRenewal < 0)),
+  };
+}
+
+/**
+ * Consumption of a job before and after a change
+ *
+ * @param current - The job as it is now, or `null` for a new job
+ * @param planned - The job after the change
+ */
+export function compareJobConsumption(
+  current: ConsumptionJobSpec | null,
+  planned: ConsumptionJobSpec,
+  options?: ConsumptionOptions
+): Pick<JobConsumptionEstimate, 'current' | 'planned' | 'delta'> {
+  const before = current ? estimateJobConsumption(current, options) : zero();
+  const after = estimateJobConsumption(planned, options);
+  return {
+    current: before,
+    planned: after,
+    delta: addConsumption(after, before, -1),
+  };
+}
+
+function addConsumption(
+  a: EstimatedConsumption,
+  b: EstimatedConsumption,
+  sign = 1
+): EstimatedConsumption {
+  return {
+    daily: a.daily + sign * b.daily,
+    weekly: a.weekly + sign * b.weekly,
+    monthly: a.monthly + sign * b.monthly,
+  };
+}
+
+function zero(): EstimatedConsumption {
+  return { daily: 0, weekly: 0, monthly: 0 };
+}
+
+/**
+ * Length of a `start_time`-`stop_time` window in hours. Windows ending
+ * before they start run overnight; equal times mean all day.
+ */
+function scheduleHours(start: number, stop: number): number {
+  if (stop === start) return 24;
+  return stop > start ? stop - start : 24 - start + stop;
+}
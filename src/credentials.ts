@@ -0,0 +1,43 @@
+/**
+ * Ways the client can authenticate.
+ *
+ * Any combination may be given. Tokens are always preferred; the client only
+ * logs in with `email`/`password` when no usable token is available and
+ * password login is allowed.
+ */
+export interface VisualpingCredentials {
+  /** Account email. Used for password login only. */
+  email?: string;
+  /** Account password. Used for password login only. */
+  password?: string;
+
+  /**
+   * Existing refresh token. The client exchanges it for id tokens through the
+   * `REFRESH_TOKEN` flow.
+   */
+  refreshToken?: string;
+
+  /**
+   * Existing id token. Used as-is until it expires; without a refresh token or
+   * password login the client cannot renew it.
+   */
+  idToken?: string;
+
+  /**
+   * Whether the client may fall back to logging in with `email`/`password`.
+   *
+   * Defaults to `true` when only an email and password are given, and to
+   * `false` when a token is given as well.
+   */
+  allowPasswordLogin?: boolean;
+}
+
+/**
+ * Async credential source, e.g. a secret manager lookup.
+ *
+ * Called whenever the client has no usable token (on first use and after a
+ * token is rejected), so it can hand out rotated secrets.
+ */
+export type CredentialProvider = () => Promise<VisualpingCredentials>;
+
+export type Credentials = VisualpingCredentials | CredentialProvider;
@@ -0,0 +1,98 @@
+import { VisualpingError } from './error';
+
+/**
+ * RFC 4180 CSV with a header row. Empty strings are written as `""` so
+ * they can be told apart from missing values.
+ */
+export function toCsv(
+  header: string[],
+  rows: Array<Array<string | undefined>>
+): string {
+  return [header, ...rows].map((row) => row.map(cell).join(',')).join('\r\n');
+}
+
+function cell(value: string | undefined): string {
+  if (value === undefined) return '';
+  return value === '' || /[",\r\n]|^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Parse CSV into records keyed by the header row. Unquoted empty cells are
+ * `undefined`, `""` is an empty string.
+ *
+ * @throws VisualpingError on unterminated quotes or ragged rows
+ */
+export function fromCsv(
+  source: string
+): Array<Record<string, string | undefined>> {
+  const rows: Array<Array<string | undefined>> = [];
+  let row: Array<string | undefined> = [];
+  let value = '';
+  let quoted = false;
+  let wasQuoted = false;
+  let i = 0;
+
+  const end = () => {
+    const cell = value === '' && !wasQuoted ? undefined : value;
+    value = '';
+    wasQuoted = false;
+    return cell;
+  };
+
+  // strip a byte order mark left by spreadsheet exports
+  const text = source.replace(/^\uFEFF/, '');
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else value += char;
+      i += 1;
+      continue;
+    }
+
+    if (char === '"' && value === '') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === ',') {
+      row.push(end());
+    } else if (char === '\n' || char === '\r') {
+      row.push(end());
+      rows.push(row);
+      row = [];
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+    } else {
+      value += char;
+    }
+    i += 1;
+  }
+
+  if (quoted) throw new VisualpingError('Invalid CSV: unterminated quote');
+  if (value !== '' || wasQuoted || row.length > 0) {
+    row.push(end());
+    rows.push(row);
+  }
+
+  // blank lines parse as a single missing cell
+  const [header = [], ...records] = rows.filter(
+    (r) => r.length > 1 || r[0] !== undefined
+  );
+  return records.map((r, index) => {
+    if (r.length !== header.length) {
+      throw new VisualpingError(
+        `Invalid CSV: row ${index + 2} has ${r.length} columns, expected ${header.length}`
+      );
+    }
+    return Object.fromEntries(
+      header.map((name, col) => [String(name), r[col]])
+    );
+  });
+}
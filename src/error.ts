@@ -1,11 +1,463 @@
-export class VisualpingApiError extends Error {
+import { JobViolation } from './jobValidation';
+import { parseRetryAfter } from './retry';
+import { PaginationInconsistency, QuotaExceeded } from './types/client';
+import { ValidationIssue } from './validation/schema';
+
+/**
+ * The call an error belongs to
+ */
+export interface RequestDetails {
+  method?: string;
+  endpoint?: string;
+  /** 1-based attempt that failed */
+  attempt?: number;
+}
+
+/**
+ * Base class of every error thrown by the client
+ */
+export class VisualpingError extends Error {
+  readonly method?: string;
+  readonly endpoint?: string;
+  readonly attempt?: number;
+
+  constructor(message: string, request: RequestDetails = {}, cause?: unknown) {
+    super(message, cause !== undefined ? { cause } : undefined);
+    this.name = 'VisualpingError';
+    this.method = request.method;
+    this.endpoint = request.endpoint;
+    this.attempt = request.attempt;
+  }
+
+  /** Whether sending the same request again may succeed */
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * The API answered with a non-2xx status
+ */
+export class VisualpingApiError extends VisualpingError {
   readonly status: number;
   readonly payload?: unknown;
+  readonly headers?: Headers;
 
-  constructor(status: number, message: string, payload?: unknown) {
-    super(`Visualping API Error (${status}): ${message}`);
+  constructor(
+    status: number,
+    message: string,
+    payload?: unknown,
+    headers?: Headers,
+    request?: RequestDetails
+  ) {
+    super(`Visualping API Error (${status}): ${message}`, request);
     this.name = 'VisualpingApiError';
     this.status = status;
     this.payload = payload;
+    this.headers = headers;
+  }
+
+  get isRetryable(): boolean {
+    return this.status === 408;
+  }
+}
+
+/** 401 - missing, expired or revoked credentials */
+export class VisualpingAuthenticationError extends VisualpingApiError {
+  constructor(
+    message: string,
+    payload?: unknown,
+    headers?: Headers,
+    request?: RequestDetails
+  ) {
+    super(401, message, payload, headers, request);
+    this.name = 'VisualpingAuthenticationError';
+  }
+}
+
+/** 403 - authenticated, but not allowed to access the resource */
+export class VisualpingPermissionError extends VisualpingApiError {
+  constructor(
+    message: string,
+    payload?: unknown,
+    headers?: Headers,
+    request?: RequestDetails
+  ) {
+    super(403, message, payload, headers, request);
+    this.name = 'VisualpingPermissionError';
+  }
+}
+
+/** 404 - the job or resource does not exist */
+export class VisualpingNotFoundError extends VisualpingApiError {
+  constructor(
+    message: string,
+    payload?: unknown,
+    headers?: Headers,
+    request?: RequestDetails
+  ) {
+    super(404, message, payload, headers, request);
+    this.name = 'VisualpingNotFoundError';
+  }
+}
+
+export interface FieldError {
+  /** Offending field, e.g. `url` or `notification.config.slack.url` */
+  field: string;
+  message: string;
+}
+
+/** 400/422 - the request was rejected as invalid */
+export class VisualpingValidationError extends VisualpingApiError {
+  /** Per-field details when the API provides them */
+  readonly fields: FieldError[];
+
+  constructor(
+    status: number,
+    message: string,
+    payload?: unknown,
+    headers?: Headers,
+    request?: RequestDetails
+  ) {
+    super(status, message, payload, headers, request);
+    this.name = 'VisualpingValidationError';
+    this.fields = parseFieldErrors(payload);
+  }
+}
+
+/** 429 - too many requests */
+export class VisualpingRateLimitError extends VisualpingApiError {
+  /** Delay requested through `Retry-After`, in milliseconds */
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    payload?: unknown,
+    headers?: Headers,
+    request?: RequestDetails
+  ) {
+    super(429, message, payload, headers, request);
+    this.name = 'VisualpingRateLimitError';
+    this.retryAfterMs = parseRetryAfter(headers?.get('Retry-After'));
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/** 5xx - the API failed to process the request */
+export class VisualpingServerError extends VisualpingApiError {
+  constructor(
+    status: number,
+    message: string,
+    payload?: unknown,
+    headers?: Headers,
+    request?: RequestDetails
+  ) {
+    super(status, message, payload, headers, request);
+    this.name = 'VisualpingServerError';
+  }
+
+  get isRetryable(): boolean {
+    return this.status !== 501;
+  }
+}
+
+/**
+ * The client stopped waiting for a response after `timeoutMs`.
+ *
+ * A 408 sent by the server is a `VisualpingApiError` instead.
+ */
+export class VisualpingTimeoutError extends VisualpingError {
+  readonly timeoutMs?: number;
+
+  constructor(timeoutMs?: number, request?: RequestDetails) {
+    super(
+      timeoutMs !== undefined
+        ? `Visualping request timeout after ${timeoutMs}ms`
+        : 'Visualping request timeout',
+      request
+    );
+    this.name = 'VisualpingTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * No response was received (DNS failure, connection reset...).
+ * The original error is available as `cause`.
+ */
+export class VisualpingNetworkError extends VisualpingError {
+  constructor(cause: unknown, request?: RequestDetails) {
+    super(
+      `Visualping network error: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      request,
+      cause
+    );
+    this.name = 'VisualpingNetworkError';
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * The call was cancelled through its `signal` or `client.dispose()`.
+ * The abort reason is available as `cause`.
+ */
+export class VisualpingAbortError extends VisualpingError {
+  constructor(reason?: unknown, request?: RequestDetails) {
+    super(
+      reason instanceof Error
+        ? `Visualping request aborted: ${reason.message}`
+        : 'Visualping request aborted',
+      request,
+      reason
+    );
+    this.name = 'VisualpingAbortError';
+  }
+}
+
+/**
+ * A `FileTokenStore` lock held by another process wasn't released in time
+ */
+export class VisualpingLockTimeoutError extends VisualpingError {
+  readonly lockPath: string;
+
+  constructor(lockPath: string, timeoutMs: number) {
+    super(
+      `Timed out after ${timeoutMs}ms waiting for token store lock ${lockPath}`
+    );
+    this.name = 'VisualpingLockTimeoutError';
+    this.lockPath = lockPath;
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * The configured credentials can't produce a token, e.g. no valid token is
+ * left and password login is not allowed. Nothing was sent to the API.
+ */
+export class VisualpingCredentialsError extends VisualpingError {
+  constructor(message: string, request?: RequestDetails) {
+    super(`Visualping credentials: ${message}`, request);
+    this.name = 'VisualpingCredentialsError';
+  }
+}
+
+/**
+ * A job payload broke a documented rule or plan limit and was not sent
+ * (`validateJobs: true`)
+ */
+export class VisualpingJobValidationError extends VisualpingError {
+  readonly violations: JobViolation[];
+
+  constructor(violations: JobViolation[], request?: RequestDetails) {
+    const summary = violations.map((v) => `${v.field} ${v.message}`).join('; ');
+    super(`Invalid Visualping job: ${summary}`, request);
+    this.name = 'VisualpingJobValidationError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Jobs were created or deleted during a scan (`consistency: 'strict'`)
+ */
+export class VisualpingPaginationError extends VisualpingError {
+  readonly inconsistency: PaginationInconsistency;
+
+  constructor(
+    inconsistency: PaginationInconsistency,
+    request?: RequestDetails
+  ) {
+    super(
+      `Visualping jobs changed during pagination: totalJobs went from ${inconsistency.previousTotalJobs} to ${inconsistency.totalJobs} at page ${inconsistency.pageIndex}`,
+      request
+    );
+    this.name = 'VisualpingPaginationError';
+    this.inconsistency = inconsistency;
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * A 2xx response didn't match the expected shape (`validation: 'strict'`)
+ */
+export class VisualpingResponseValidationError extends VisualpingError {
+  /** Every mismatch found in the response */
+  readonly issues: ValidationIssue[];
+  /** Location of the first mismatch, e.g. `$.jobs[3].id` */
+  readonly path: string;
+  readonly payload: unknown;
+
+  constructor(
+    issues: ValidationIssue[],
+    payload?: unknown,
+    request?: RequestDetails
+  ) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    super(
+      `Unexpected Visualping response at ${first.path}: expected ${first.expected}, received ${first.received}${more}`,
+      request
+    );
+    this.name = 'VisualpingResponseValidationError';
+    this.issues = issues;
+    this.path = first.path;
+    this.payload = payload;
   }
 }
+
+/**
+ * A webhook request body was not a valid Visualping payload
+ */
+export class VisualpingWebhookError extends VisualpingError {
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    issues: ValidationIssue[] = [],
+    request?: RequestDetails
+  ) {
+    super(`Invalid Visualping webhook: ${message}`, request);
+    this.name = 'VisualpingWebhookError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A job would exceed the workspace's active job limit and was not sent
+ * (`quotaGuard` with the `throw` policy)
+ */
+export class VisualpingQuotaError extends VisualpingError {
+  readonly quota: QuotaExceeded;
+
+  constructor(quota: QuotaExceeded, request?: RequestDetails) {
+    const workspace =
+      quota.workspaceId !== undefined
+        ? `workspace ${quota.workspaceId}`
+        : 'the personal workspace';
+    super(
+      quota.overflow
+        ? `Visualping quota exceeded: ${workspace} is over its active job limit`
+        : `Visualping quota exceeded: ${workspace} already has ${quota.activeJobCount} of ${quota.limit} active jobs`,
+      request
+    );
+    this.name = 'VisualpingQuotaError';
+    this.quota = quota;
+  }
+}
+
+/**
+ * A replayed call has no matching recorded exchange (`HttpReplayer`)
+ */
+export class VisualpingReplayError extends VisualpingError {
+  constructor(message: string, request?: RequestDetails) {
+    super(`Visualping replay: ${message}`, request);
+    this.name = 'VisualpingReplayError';
+  }
+}
+
+/**
+ * Build the most specific error class for a non-2xx response
+ */
+export function createApiError(
+  status: number,
+  message: string,
+  payload?: unknown,
+  headers?: Headers,
+  request?: RequestDetails
+): VisualpingApiError {
+  switch (status) {
+    case 400:
+    case 422:
+      return new VisualpingValidationError(
+        status,
+        message,
+        payload,
+        headers,
+        request
+      );
+    case 401:
+      return new VisualpingAuthenticationError(
+        message,
+        payload,
+        headers,
+        request
+      );
+    case 403:
+      return new VisualpingPermissionError(message, payload, headers, request);
+    case 404:
+      return new VisualpingNotFoundError(message, payload, headers, request);
+    case 429:
+      return new VisualpingRateLimitError(message, payload, headers, request);
+  }
+
+  if (status >= 500 && status <= 599) {
+    return new VisualpingServerError(
+      status,
+      message,
+      payload,
+      headers,
+      request
+    );
+  }
+  return new VisualpingApiError(status, message, payload, headers, request);
+}
+
+/**
+ * Field details from the common error payload shapes:
+ * `{ errors: [{ field, message }] }`, `{ details: [...] }` or
+ * `{ fields: { name: message } }`
+ */
+function parseFieldErrors(payload: unknown): FieldError[] {
+  if (typeof payload !== 'object' || payload === null) return [];
+  const p = payload as Record<string, unknown>;
+
+  const list = Array.isArray(p.errors)
+    ? p.errors
+    : Array.isArray(p.details)
+      ? p.details
+      : null;
+
+  if (list) {
+    return list.flatMap((item): FieldError[] => {
+      if (typeof item !== 'object' || item === null) return [];
+      const e = item as Record<string, unknown>;
+      const field = e.field ?? e.path ?? e.param ?? e.property;
+      const message = e.message ?? e.msg ?? e.error;
+
+      return typeof field === 'string' || Array.isArray(field)
+        ? [
+            {
+              field: Array.isArray(field) ? field.join('.') : field,
+              message: typeof message === 'string' ? message : 'invalid',
+            },
+          ]
+        : [];
+    });
+  }
+
+  if (typeof p.fields === 'object' && p.fields !== null) {
+    return Object.entries(p.fields).map(([field, message]) => ({
+      field,
+      message: typeof message === 'string' ? message : 'invalid',
+    }));
+  }
+
+  return [];
+}
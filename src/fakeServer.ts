@@ -0,0 +1,759 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+import { MinimalJob, NotificationConfig } from './types/api/common';
+import { CreateJobRequest } from './types/api/request/createJob';
+import { UpdateJobRequest } from './types/api/request/updateJob';
+import {
+  AccountFeatureSet,
+  Balances,
+  Role,
+  VisualpingUser,
+  Workspace,
+} from './types/api/response/describeUser';
+import { FullJobDetails } from './types/api/response/getJob';
+import { JobIdsByWsId } from './types/api/response/getJobs';
+import { BaseUrls } from './types/client';
+
+export interface FakeWorkspace {
+  id: number;
+  name?: string;
+  /** @default 'ADMIN' */
+  role?: Role;
+  accountFeatures?: AccountFeatureSet;
+  balances?: Balances;
+}
+
+/**
+ * A job stored by the fake server
+ */
+export type FakeJob = CreateJobRequest & {
+  id: number;
+  workspaceId: number;
+  created: string;
+};
+
+export interface FakeVisualpingServerOptions {
+  /** Accepted login. @default 'test@example.com' / 'password' */
+  email?: string;
+  password?: string;
+
+  /**
+   * Workspaces of the user. The first one is used when a request has no
+   * `workspaceId`.
+   * @default [{ id: 1, name: 'Personal' }]
+   */
+  workspaces?: FakeWorkspace[];
+
+  /** Business organisation of the user, returned by `/describe-user` */
+  organisationId?: number;
+
+  /** Jobs to start with */
+  jobs?: Array<CreateJobRequest & { id?: number }>;
+
+  /**
+   * Lifetime of issued id tokens, also written to their `exp` claim
+   * @default 3600000
+   */
+  tokenTtlMs?: number;
+
+  /**
+   * Page size when a request doesn't send `pageSize`
+   * @default 20
+   */
+  defaultPageSize?: number;
+
+  /** Delay before every response, in milliseconds */
+  latencyMs?: number;
+}
+
+/**
+ * A failure returned instead of the real response. Matches every request
+ * unless `method` or `path` is set.
+ */
+export interface FakeFault {
+  status: number;
+  /** How many matching requests fail. @default 1 */
+  times?: number;
+  method?: string;
+  /** Substring of, or pattern for, the request path, e.g. `/jobs/12` */
+  path?: string | RegExp;
+  /** Sent as the `Retry-After` header, in seconds */
+  retryAfterS?: number;
+  /** @default { message: 'Injected failure' } */
+  body?: unknown;
+  /** Extra delay for the failing responses */
+  latencyMs?: number;
+}
+
+export interface FakeRequestRecord {
+  method: string;
+  /** Path including the query string */
+  path: string;
+  body: unknown;
+  status: number;
+}
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+class FakeHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const REQUIRED_JOB_FIELDS = [
+  'url',
+  'mode',
+  'active',
+  'interval',
+  'trigger',
+  'target_device',
+] as const;
+
+/**
+ * In-memory stand-in for the Visualping API, for offline integration
+ * tests.
+ *
+ * Emulates `/v2/token` (password and refresh token flows),
+ * `/describe-user` and the `/v2/jobs` endpoints with stateful storage,
+ * pagination, every `OutputMode` and `workspaceId` scoping. Failures,
+ * latency and token expiry can be injected.
+ *
+ * @example
+ * ```ts
+ * const server = new FakeVisualpingServer({ workspaces: [{ id: 10 }] });
+ * const client = new VisualpingClient('test@example.com', 'password', {
+ *   fetch: server.fetch,
+ * });
+ *
+ * server.fail({ status: 429, times: 2, retryAfterS: 0 });
+ * await client.createJob({ ... }); // retried, then stored
+ * assert.equal(server.jobs.length, 1);
+ *
+ * // or over real HTTP
+ * const client = new VisualpingClient(email, password, {
+ *   baseUrls: await server.listen(),
+ * });
+ * await server.close();
+ * ```
+ */
+export class FakeVisualpingServer {
+  /** Every request received, in order */
+  readonly requests: FakeRequestRecord[] = [];
+
+  private options: Required<
+    Pick<
+      FakeVisualpingServerOptions,
+      'email' | 'password' | 'tokenTtlMs' | 'defaultPageSize'
+    >
+  > &
+    Pick<FakeVisualpingServerOptions, 'organisationId'>;
+  private workspaces: FakeWorkspace[];
+  private store = new Map<number, FakeJob>();
+  private nextJobId = 1;
+  private idTokens = new Map<string, number>();
+  private refreshTokens = new Set<string>();
+  private tokenCount = 0;
+  private faults: Array<FakeFault & { remaining: number }> = [];
+  private latencyMs: number;
+  private server: Server | null = null;
+
+  constructor(options: FakeVisualpingServerOptions = {}) {
+    this.options = {
+      email: options.email ?? 'test@example.com',
+      password: options.password ?? 'password',
+      tokenTtlMs: options.tokenTtlMs ?? 60 * 60 * 1000,
+      defaultPageSize: options.defaultPageSize ?? 20,
+      organisationId: options.organisationId,
+    };
+    this.workspaces = options.workspaces ?? [{ id: 1, name: 'Personal' }];
+    this.latencyMs = options.latencyMs ?? 0;
+    for (const job of options.jobs ?? []) this.addJob(job);
+  }
+
+  /**
+   * `fetch` implementation answering from memory. Any host works, so the
+   * client's default base URLs can be kept.
+   */
+  readonly fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    const body = request.body ? await request.text() : '';
+
+    const response = await this.respond(
+      request.method,
+      new URL(request.url),
+      request.headers.get('authorization'),
+      body,
+      init?.signal ?? undefined
+    );
+    return new Response(
+      response.body === undefined ? null : JSON.stringify(response.body),
+      {
+        status: response.status,
+        headers: { 'content-type': 'application/json', ...response.headers },
+      }
+    );
+  };
+
+  /** Copies of the stored jobs, by ID */
+  get jobs(): FakeJob[] {
+    return [...this.store.values()].map((job) => structuredClone(job));
+  }
+
+  /**
+   * Store a job directly, e.g. to seed a test
+   */
+  addJob(job: CreateJobRequest & { id?: number }): FakeJob {
+    const id = job.id ?? this.nextJobId;
+    this.nextJobId = Math.max(this.nextJobId, id + 1);
+
+    const stored: FakeJob = {
+      ...structuredClone(job),
+      id,
+      workspaceId: job.workspaceId ?? this.workspaces[0].id,
+      created: new Date().toISOString(),
+    };
+    this.store.set(id, stored);
+    return structuredClone(stored);
+  }
+
+  /**
+   * Make the next matching requests fail
+   */
+  fail(fault: FakeFault): this {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+    return this;
+  }
+
+  /** Delay every response by `ms` */
+  setLatency(ms: number): this {
+    this.latencyMs = ms;
+    return this;
+  }
+
+  /**
+   * Revoke the issued id tokens, so the next authenticated request gets a
+   * 401. With `refreshTokens`, refresh tokens are revoked as well and only
+   * password login works.
+   */
+  expireTokens(options: { refreshTokens?: boolean } = {}): void {
+    this.idTokens.clear();
+    if (options.refreshTokens) this.refreshTokens.clear();
+  }
+
+  /**
+   * Serve over HTTP on `127.0.0.1`
+   *
+   * @returns Base URLs for the client's `baseUrls` option
+   */
+  async listen(port = 0): Promise<Required<BaseUrls>> {
+    if (!this.server) {
+      this.server = createServer((req, res) => void this.handleHttp(req, res));
+      const server = this.server;
+      await new Promise<void>((resolve) =>
+        server.listen(port, '127.0.0.1', resolve)
+      );
+    }
+
+    const { port: actual } = this.server.address() as AddressInfo;
+    const origin = `http://127.0.0.1:${actual}`;
+    return { api: `${origin}/v2`, account: origin, job: `${origin}/v2` };
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      server.close((err) => (err ? reject(err) : resolve()))
+    );
+  }
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse) {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk);
+
+      const response = await this.respond(
+        req.method ?? 'GET',
+        new URL(req.url ?? '/', 'http://127.0.0.1'),
+        req.headers.authorization ?? null,
+        Buffer.concat(chunks).toString('utf8'),
+        controller.signal
+      );
+      res.writeHead(response.status, {
+        'content-type': 'application/json',
+        ...response.headers,
+      });
+      res.end(
+        response.body === undefined ? undefined : JSON.stringify(response.body)
+      );
+    } catch (err) {
+      if (controller.signal.aborted || req.destroyed || res.headersSent) {
+        // the client went away mid-request or during the latency
+        res.destroy();
+        return;
+      }
+      res.writeHead(500, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ message: String(err) }));
+    }
+  }
+
+  private async respond(
+    method: string,
+    url: URL,
+    authorization: string | null,
+    rawBody: string,
+    signal?: AbortSignal
+  ): Promise<FakeResponse> {
+    const path = `${url.pathname}${url.search}`;
+    let body: unknown;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      body = rawBody;
+    }
+
+    const fault = this.takeFault(method, path);
+    await delay(this.latencyMs + (fault?.latencyMs ?? 0), signal);
+
+    let response: FakeResponse;
+    if (fault) {
+      response = {
+        status: fault.status,
+        body: fault.body ?? { message: 'Injected failure' },
+        headers:
+          fault.retryAfterS !== undefined
+            ? { 'Retry-After': String(fault.retryAfterS) }
+            : undefined,
+      };
+    } else {
+      try {
+        response = this.route(method, url, authorization, body);
+      } catch (err) {
+        if (!(err instanceof FakeHttpError)) throw err;
+        response = { status: err.status, body: { message: err.message } };
+      }
+    }
+
+    this.requests.push({ method, path, body, status: response.status });
+    return response;
+  }
+
+  private takeFault(method: string, path: string): FakeFault | undefined {
+    const index = this.faults.findIndex(
+      (f) =>
+        (f.method === undefined || f.method.toUpperCase() === method) &&
+        (f.path === undefined ||
+          (typeof f.path === 'string'
+            ? path.includes(f.path)
+            : f.path.test(path)))
+    );
+    if (index === -1) return undefined;
+
+    const fault = this.faults[index];
+    fault.remaining -= 1;
+    if (fault.remaining <= 0) this.faults.splice(index, 1);
+    return fault;
+  }
+
+  private route(
+    method: string,
+    url: URL,
+    authorization: string | null,
+    body: unknown
+  ): FakeResponse {
+    const path = url.pathname.replace(/\/+$/, '');
+
+    if (path.endsWith('/v2/token') && method === 'POST') {
+      return this.token(body as Record<string, unknown> | undefined);
+    }
+
+    this.authenticate(authorization);
+    const workspaceId = this.workspaceParam(url.searchParams);
+
+    if (path.endsWith('/describe-user') && method === 'GET') {
+      return { status: 200, body: this.describeUser() };
+    }
+    if (path.endsWith('/v2/jobs')) {
+      if (method === 'GET') return this.listJobs(url.searchParams);
+      if (method === 'POST') {
+        return this.createJob(body as CreateJobRequest | undefined);
+      }
+    }
+
+    const match = /\/v2\/jobs\/([^/]+)$/.exec(path);
+    if (match) {
+      const job = this.findJob(match[1], workspaceId);
+      if (method === 'GET') return { status: 200, body: toDetails(job) };
+      if (method === 'PUT') {
+        return this.updateJob(job, (body ?? {}) as UpdateJobRequest);
+      }
+      if (method === 'DELETE') {
+        this.store.delete(job.id);
+        return {
+          status: 200,
+          body: { changed: true, deletedJobIds: [job.id] },
+        };
+      }
+    }
+
+    throw new FakeHttpError(404, `No route for ${method} ${path}`);
+  }
+
+  private token(body: Record<string, unknown> | undefined): FakeResponse {
+    if (body?.method === 'PASSWORD') {
+      if (
+        body.email !== this.options.email ||
+        body.password !== this.options.password
+      ) {
+        throw new FakeHttpError(401, 'Invalid email or password');
+      }
+      const refreshToken = `refresh-${++this.tokenCount}`;
+      this.refreshTokens.add(refreshToken);
+      return {
+        status: 200,
+        body: { id_token: this.issueIdToken(), refresh_token: refreshToken },
+      };
+    }
+
+    if (body?.method === 'REFRESH_TOKEN') {
+      if (!this.refreshTokens.has(String(body.refreshToken))) {
+        throw new FakeHttpError(401, 'Invalid refresh token');
+      }
+      return { status: 200, body: { id_token: this.issueIdToken() } };
+    }
+
+    throw new FakeHttpError(400, 'Unknown token method');
+  }
+
+  /**
+   * JWT-shaped token with an `exp` claim, so the client refreshes it
+   * ahead of time
+   */
+  private issueIdToken(): string {
+    const expiresAt = Date.now() + this.options.tokenTtlMs;
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const token = [
+      encode({ alg: 'none', typ: 'JWT' }),
+      encode({
+        sub: this.options.email,
+        exp: Math.floor(expiresAt / 1000),
+        jti: ++this.tokenCount,
+      }),
+      'fake',
+    ].join('.');
+
+    this.idTokens.set(token, expiresAt);
+    return token;
+  }
+
+  private authenticate(authorization: string | null) {
+    const token = authorization?.replace(/^Bearer\s+/i, '') ?? '';
+    const expiresAt = this.idTokens.get(token);
+    if (expiresAt === undefined || expiresAt <= Date.now()) {
+      throw new FakeHttpError(401, 'Unauthorized');
+    }
+  }
+
+  private workspaceParam(params: URLSearchParams): number | undefined {
+    const value = params.get('workspaceId');
+    if (value === null) return undefined;
+
+    const id = Number(value);
+    if (!this.workspaces.some((ws) => ws.id === id)) {
+      throw new FakeHttpError(403, `No access to workspace ${value}`);
+    }
+    return id;
+  }
+
+  private findJob(jobId: string, workspaceId: number | undefined): FakeJob {
+    const job = this.store.get(Number(jobId));
+    if (!job || job.workspaceId !== (workspaceId ?? this.workspaces[0].id)) {
+      throw new FakeHttpError(404, `Job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private describeUser(): VisualpingUser {
+    const { organisationId } = this.options;
+    return {
+      userId: 1,
+      emailAddress: this.options.email,
+      ...(organisationId !== undefined
+        ? {
+            organisationIds: [organisationId],
+            organisation: {
+              id: organisationId,
+              name: `Organisation ${organisationId}`,
+              role: 'ADMIN',
+              isSsoActive: false,
+              userHasPersonalSubscription: false,
+              accountFeatures: {},
+              balances: {},
+              counts: {
+                activeJobCount: 0,
+                activeJobOverflow: false,
+                activeUserCount: 1,
+                activeUserOverflow: false,
+              },
+            },
+          }
+        : {}),
+      workspaces: this.workspaces.map(
+        (ws): Workspace => ({
+          id: ws.id,
+          name: ws.name ?? `Workspace ${ws.id}`,
+          role: ws.role ?? 'ADMIN',
+          accountFeatures: ws.accountFeatures ?? {},
+          balances: ws.balances ?? {},
+          counts: {
+            activeJobCount: [...this.store.values()].filter(
+              (job) => job.workspaceId === ws.id && job.active
+            ).length,
+            activeJobOverflow: false,
+            activeUserCount: 1,
+            activeUserOverflow: false,
+          },
+        })
+      ),
+    };
+  }
+
+  private listJobs(params: URLSearchParams): FakeResponse {
+    const list = (name: string) =>
+      params.get(name)?.split(',').filter(Boolean) ?? [];
+    const workspaceId = this.workspaceParam(params) ?? this.workspaces[0].id;
+    const search = params.get('fullTextSearchFilter')?.toLowerCase();
+    const active = list('activeFilter').map(Number);
+    const modes = list('modeFilter');
+    const labels = list('labelsFilter').map(Number);
+
+    const jobs = [...this.store.values()].filter(
+      (job) =>
+        job.workspaceId === workspaceId &&
+        (active.length === 0 || active.includes(job.active ? 1 : 0)) &&
+        (modes.length === 0 || modes.includes(job.mode)) &&
+        (labels.length === 0 ||
+          labels.some((id) => job.labelIds?.includes(id))) &&
+        (!search ||
+          job.url.toLowerCase().includes(search) ||
+          (job.description ?? '').toLowerCase().includes(search))
+    );
+    sortJobs(jobs, list('sortBy'));
+
+    const pageSize = Number(
+      params.get('pageSize') ?? this.options.defaultPageSize
+    );
+    const pageIndex = Number(params.get('pageIndex') ?? 0);
+    const page = jobs.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize);
+    const meta = {
+      totalJobs: jobs.length,
+      activeJobCount: jobs.filter((job) => job.active).length,
+      pageSize,
+      totalPages: Math.ceil(jobs.length / pageSize),
+      pageIndex,
+    };
+
+    switch (params.get('mode') ?? 'normal') {
+      case 'ids_only':
+        return {
+          status: 200,
+          body: { ...meta, jobIds: page.map((j) => j.id) },
+        };
+      case 'ids_and_wsIds': {
+        const byWorkspace: JobIdsByWsId[] =
+          page.length > 0 ? [{ workspaceId, ids: page.map((j) => j.id) }] : [];
+        return { status: 200, body: { ...meta, jobIdsByWsId: byWorkspace } };
+      }
+      case 'counts_only':
+        return { status: 200, body: meta };
+      default:
+        return { status: 200, body: { ...meta, jobs: page.map(toMinimal) } };
+    }
+  }
+
+  private createJob(job: CreateJobRequest | undefined): FakeResponse {
+    const missing = REQUIRED_JOB_FIELDS.filter((f) => job?.[f] === undefined);
+    if (!job || missing.length > 0) {
+      throw new FakeHttpError(400, `Missing fields: ${missing.join(', ')}`);
+    }
+    if (job.workspaceId !== undefined) {
+      this.workspaceParam(
+        new URLSearchParams({ workspaceId: String(job.workspaceId) })
+      );
+    }
+
+    const { id } = this.addJob(job);
+    return { status: 200, body: { id: String(id), jobid: String(id) } };
+  }
+
+  private updateJob(job: FakeJob, patch: UpdateJobRequest): FakeResponse {
+    const {
+      workspaceId: _ws,
+      organisationId: _org,
+      jobId: _id,
+      ...changes
+    } = patch;
+    Object.assign(job, structuredClone(changes));
+
+    const runsPerDay = 1440 / Number(job.interval);
+    return {
+      status: 200,
+      body: {
+        updates: 'none',
+        estimatedConsumption: {
+          daily: runsPerDay,
+          weekly: runsPerDay * 7,
+          monthly: runsPerDay * 30,
+        },
+        result: { jobId: job.id, impact: 'none' },
+      },
+    };
+  }
+}
+
+function sortJobs(jobs: FakeJob[], sortBy: string[]) {
+  const [key = 'id_asc'] = sortBy;
+  const compare: Record<string, (a: FakeJob, b: FakeJob) => number> = {
+    id: (a, b) => a.id - b.id,
+    created: (a, b) => a.created.localeCompare(b.created) || a.id - b.id,
+    frequency: (a, b) => Number(a.interval) - Number(b.interval),
+    alphabetical: (a, b) =>
+      (a.description ?? '').localeCompare(b.description ?? ''),
+  };
+
+  if (key === 'active_first' || key === 'inactive_first') {
+    const first = key === 'active_first';
+    jobs.sort(
+      (a, b) => Number(b.active === first) - Number(a.active === first)
+    );
+    return;
+  }
+  const [, field, direction] = /^(.*)_(asc|desc)$/.exec(key) ?? [];
+  const fn = compare[field] ?? compare.id;
+  jobs.sort((a, b) => (direction === 'desc' ? fn(b, a) : fn(a, b)));
+}
+
+function toMinimal(job: FakeJob): MinimalJob {
+  return {
+    id: job.id,
+    url: job.url,
+    description: job.description ?? '',
+    isActive: job.active,
+    faviconKey: '',
+    mode: job.mode,
+    inProgress: false,
+    workspaceId: job.workspaceId,
+    labelIds: job.labelIds ?? [],
+    notificationThreshold: Number(job.trigger),
+    interval: Number(job.interval),
+  };
+}
+
+const channel = (notificationType: keyof NotificationConfig['config']) => ({
+  url: '',
+  active: false,
+  notificationType,
+  channels: [],
+});
+
+function toDetails(job: FakeJob): FullJobDetails {
+  return structuredClone({
+    id: String(job.id),
+    disable_id: '',
+    interval: Number(job.interval),
+    customer_id: '1',
+    error_count: 0,
+    in_progress: false,
+    runs: 0,
+    history: [],
+    changes: [],
+    notification_threshold: Number(job.trigger),
+    contentType: 'text/html',
+    scheduled_at: job.created,
+    last_run: job.created,
+    next_run: new Date(
+      Date.parse(job.created) + Number(job.interval) * 60_000
+    ).toISOString(),
+    rss_path: '',
+    thumb_full: '',
+    thumb_150: '',
+    favicon: '',
+    active: job.active,
+    description: job.description ?? '',
+    url: job.url,
+    mode: job.mode,
+    crop: job.crop ?? { x: 0, y: 0, width: 0, height: 0 },
+    proxy_id: job.proxy_id ?? 0,
+    prompt_id: null,
+    xpath: job.xpath ?? null,
+    keyword_action: job.keyword_action ?? 'ALL',
+    keyword_config: { list: [] },
+    keywords: job.keywords ?? '',
+    disable_js: job.disable_js ?? false,
+    enable_cookies_and_ad_blocker: job.enable_cookies_and_ad_blocker ?? false,
+    page_height: null,
+    target_device: job.target_device,
+    wait_time: job.wait_time ?? 0,
+    preactions: job.preactions ?? { active: false, actions: [] },
+    advanced_schedule: job.advanced_schedule ?? {
+      start_time: 0,
+      stop_time: 24,
+      active_days: [1, 2, 3, 4, 5, 6, 7],
+    },
+    notification: job.notification ?? {
+      enableSmsAlert: false,
+      enableEmailAlert: true,
+      onlyImportantAlerts: false,
+      config: {
+        slack: channel('slack'),
+        teams: channel('teams'),
+        webhook: channel('webhook'),
+        discord: channel('discord'),
+        slack_app: channel('slack_app'),
+        google_sheets: channel('google_sheets'),
+        google_chat: channel('google_chat'),
+      },
+    },
+    retention_policy: job.retention_policy ?? '3',
+    alert_error: job.alert_error ?? false,
+    summalyzer: job.summalyzer ?? {},
+    labelIds: job.labelIds ?? [],
+  });
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
@@ -1,5 +1,20 @@
 export * from './client';
+export * from './consumption';
+export * from './credentials';
 export * from './error';
+export * from './fakeServer';
+export * from './jobBuilder';
+export * from './jobExport';
+export * from './jobValidation';
+export * from './middleware';
+export * from './rateLimit';
+export * from './reconcile';
+export * from './recording';
+export * from './retry';
+export * from './tokenStore';
+export type { Schema, ValidationIssue } from './validation/schema';
+export * from './webhook';
+export * from './workspace';
 
 export * from './types/api/common';
 
@@ -15,3 +30,5 @@ export * from './types/api/response/describeUser';
 export * from './types/api/response/getJob';
 export * from './types/api/response/getJobs';
 export * from './types/api/response/updateJob';
+
+export * from './types/client';
@@ -0,0 +1,290 @@
+import { DAY_MS, HOUR_MS, MINUTE_MS } from './constants';
+import { VisualpingJobValidationError } from './error';
+import { validateJob } from './jobValidation';
+import {
+  JobCrop,
+  JobKeywordAction,
+  JobMode,
+  JobModeType,
+  NotificationChannelConfig,
+  NotificationConfig,
+  NotificationConfigChannels,
+  RetentionPolicy,
+  TargetDevice,
+  TargetDeviceType,
+} from './types/api/common';
+import { CreateJobRequest } from './types/api/request/createJob';
+import { UpdateJobRequest } from './types/api/request/updateJob';
+
+/**
+ * Check interval such as `'15m'`, `'1h'`, `'1d'` or `'1w'`.
+ * Plain numbers are minutes.
+ */
+export type JobInterval = number | `${number}${'m' | 'h' | 'd' | 'w'}`;
+
+/**
+ * `NotificationConfig` where every field is optional. Channels left out are
+ * sent as inactive.
+ */
+export interface JobNotificationOptions extends Partial<
+  Omit<NotificationConfig, 'config'>
+> {
+  config?: Partial<NotificationConfigChannels>;
+}
+
+const INTERVAL_UNIT_MS: Record<string, number> = {
+  m: MINUTE_MS,
+  h: HOUR_MS,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+};
+
+type TextMode = typeof JobMode.TEXT;
+type VisualMode = typeof JobMode.VISUAL;
+
+/**
+ * Fluent builder for `CreateJobRequest` and `UpdateJobRequest` payloads.
+ *
+ * Takes typed values (durations, numeric percentages, keyword arrays) and
+ * produces the string fields the API expects. Options that only apply to
+ * one mode, such as `keywords()` or `crop()`, are only available on
+ * builders of that mode.
+ *
+ * @example
+ * ```ts
+ * const job = JobBuilder.text('https://example.com/pricing')
+ *   .describe('Pricing page')
+ *   .every('1h')
+ *   .triggerAt(0.5)
+ *   .keywords(['price', 'discount'], 'ADDED')
+ *   .onDevice(TargetDevice.MOBILE)
+ *   .notify({ enableEmailAlert: true })
+ *   .build();
+ *
+ * await client.createJob(job);
+ * ```
+ */
+export class JobBuilder<M extends JobModeType = JobModeType> {
+  #job: Partial<CreateJobRequest> & Pick<CreateJobRequest, 'url' | 'mode'>;
+  #keywords: string[] = [];
+
+  readonly mode: M;
+
+  private constructor(url: string, mode: M) {
+    this.mode = mode;
+    this.#job = { url, mode };
+  }
+
+  static text(url: string): JobBuilder<TextMode> {
+    return new JobBuilder(url, JobMode.TEXT);
+  }
+
+  static visual(url: string): JobBuilder<VisualMode> {
+    return new JobBuilder(url, JobMode.VISUAL);
+  }
+
+  static web(url: string): JobBuilder<typeof JobMode.WEB> {
+    return new JobBuilder(url, JobMode.WEB);
+  }
+
+  describe(description: string): this {
+    this.#job.description = description;
+    return this;
+  }
+
+  inWorkspace(workspaceId: number): this {
+    this.#job.workspaceId = workspaceId;
+    return this;
+  }
+
+  /** Create the job paused */
+  paused(): this {
+    this.#job.active = false;
+    return this;
+  }
+
+  /**
+   * How often the page is checked
+   *
+   * @param interval - e.g. `'15m'`, `'1h'`, `'1d'`, or a number of minutes
+   */
+  every(interval: JobInterval): this {
+    this.#job.interval = String(parseInterval(interval));
+    return this;
+  }
+
+  /**
+   * Minimum change that triggers an alert
+   *
+   * @param percent - Percentage between 0 and 100, e.g. `0.5` for 0.5%
+   */
+  triggerAt(percent: number): this {
+    this.#job.trigger = String(percent);
+    return this;
+  }
+
+  onDevice(device: TargetDeviceType): this {
+    this.#job.target_device = device;
+    return this;
+  }
+
+  /** Seconds to wait after the page loads before capturing it */
+  waitFor(seconds: number): this {
+    this.#job.wait_time = seconds;
+    return this;
+  }
+
+  /** Only monitor the element matching `xpath` */
+  xpath(xpath: string): this {
+    this.#job.xpath = xpath;
+    return this;
+  }
+
+  labels(labelIds: number[]): this {
+    this.#job.labelIds = [...labelIds];
+    return this;
+  }
+
+  retention(policy: RetentionPolicy): this {
+    this.#job.retention_policy = policy;
+    return this;
+  }
+
+  /** Alert when the page can't be checked */
+  alertOnError(enabled = true): this {
+    this.#job.alert_error = enabled;
+    return this;
+  }
+
+  notify(options: JobNotificationOptions): this {
+    this.#job.notification = {
+      enableEmailAlert: options.enableEmailAlert ?? true,
+      enableSmsAlert: options.enableSmsAlert ?? false,
+      onlyImportantAlerts: options.onlyImportantAlerts ?? false,
+      config: {
+        slack: channel('slack', options.config),
+        teams: channel('teams', options.config),
+        webhook: channel('webhook', options.config),
+        discord: channel('discord', options.config),
+        slack_app: channel('slack_app', options.config),
+        google_sheets: channel('google_sheets', options.config),
+        google_chat: channel('google_chat', options.config),
+      },
+    };
+    return this;
+  }
+
+  /**
+   * Keywords to watch for. TEXT jobs only.
+   *
+   * @param keywords - Individual keywords; they may not contain commas
+   * @param action - Alert when keywords are added, deleted, or both
+   */
+  keywords(
+    this: JobBuilder<TextMode>,
+    keywords: string[],
+    action: JobKeywordAction = 'ALL'
+  ): JobBuilder<TextMode> {
+    this.#keywords = keywords.map((k) => k.trim());
+    this.#job.keywords = this.#keywords.join(',');
+    this.#job.keyword_action = action;
+    return this;
+  }
+
+  /** Area to compare, in pixels. VISUAL jobs only. */
+  crop(this: JobBuilder<VisualMode>, crop: JobCrop): JobBuilder<VisualMode> {
+    this.#job.crop = { ...crop };
+    return this;
+  }
+
+  /**
+   * Payload for `createJob`. Unset fields get defaults: active, checked
+   * daily, 1% trigger, desktop, no wait.
+   *
+   * @throws VisualpingJobValidationError when the payload breaks a rule of
+   * `validateJob()`
+   */
+  build(): CreateJobRequest {
+    const job: CreateJobRequest = {
+      active: true,
+      interval: String(DAY_MS / MINUTE_MS),
+      trigger: '1',
+      target_device: TargetDevice.DESKTOP,
+      wait_time: 0,
+      ...this.#job,
+    };
+    this.check(job, false);
+    return job;
+  }
+
+  /**
+   * Payload for `updateJob`, containing only the fields that were set
+   *
+   * @throws VisualpingJobValidationError when the payload breaks a rule of
+   * `validateJob()`
+   */
+  buildUpdate(): UpdateJobRequest {
+    const job: UpdateJobRequest = { ...this.#job };
+    this.check(job, true);
+    return job;
+  }
+
+  private check(job: CreateJobRequest | UpdateJobRequest, update: boolean) {
+    const violations = validateJob(job, { update });
+
+    // a comma would silently split one keyword into several
+    if (this.#keywords.some((k) => k.includes(','))) {
+      violations.push({
+        field: 'keywords',
+        rule: 'format',
+        message: 'may not contain commas within a keyword',
+      });
+    }
+
+    if (this.#job.crop && this.#job.mode !== JobMode.VISUAL) {
+      violations.push({
+        field: 'crop',
+        rule: 'visualModeOnly',
+        message: 'is only supported on VISUAL jobs',
+      });
+    }
+
+    if (violations.length > 0)
+      throw new VisualpingJobValidationError(violations);
+  }
+}
+
+/**
+ * Minutes of a `JobInterval`, e.g. `60` for `'1h'`
+ *
+ * @throws VisualpingJobValidationError on an invalid format
+ */
+export function parseInterval(interval: JobInterval): number {
+  if (typeof interval === 'number') return interval;
+
+  const match = /^(\d+(?:\.\d+)?)([mhdw])$/.exec(interval.trim());
+  if (!match) {
+    throw new VisualpingJobValidationError([
+      {
+        field: 'interval',
+        rule: 'format',
+        message: `invalid interval "${interval}", expected e.g. "15m", "1h" or "1d"`,
+      },
+    ]);
+  }
+  return (Number(match[1]) * INTERVAL_UNIT_MS[match[2]]) / MINUTE_MS;
+}
+
+function channel(
+  type: keyof NotificationConfigChannels,
+  config: Partial<NotificationConfigChannels> = {}
+): NotificationChannelConfig {
+  return (
+    config[type] ?? {
+      url: '',
+      active: false,
+      notificationType: type,
+      channels: [],
+    }
+  );
+}
@@ -0,0 +1,239 @@
+import { fromCsv, toCsv } from './csv';
+import { VisualpingError, VisualpingJobValidationError } from './error';
+import { JobViolation, validateJob } from './jobValidation';
+import { CreateJobRequest } from './types/api/request/createJob';
+import { FullJobDetails } from './types/api/response/getJob';
+import { fromYaml, toYaml } from './yaml';
+
+export type JobExportFormat = 'json' | 'csv' | 'yaml';
+
+/**
+ * Configuration of one job in a backup. `id` is the job's ID in the
+ * exported workspace, for reference only.
+ */
+export type ExportedJob = Omit<CreateJobRequest, 'workspaceId'> & {
+  id?: number;
+};
+
+/**
+ * Document written by `exportJobs` in the `json` and `yaml` formats
+ */
+export interface JobBackup {
+  version: 1;
+  exportedAt: string;
+  workspaceId?: number;
+  jobs: ExportedJob[];
+}
+
+type ColumnKind = 'string' | 'number' | 'boolean' | 'json';
+
+/**
+ * Every exported field in CSV column order. Nested settings are stored as
+ * JSON in their cell.
+ */
+const COLUMNS: Array<[keyof ExportedJob, ColumnKind]> = [
+  ['id', 'number'],
+  ['url', 'string'],
+  ['description', 'string'],
+  ['mode', 'string'],
+  ['active', 'boolean'],
+  ['interval', 'string'],
+  ['trigger', 'string'],
+  ['target_device', 'string'],
+  ['wait_time', 'number'],
+  ['crop', 'json'],
+  ['proxy_id', 'number'],
+  ['xpath', 'string'],
+  ['keyword_action', 'string'],
+  ['keywords', 'string'],
+  ['disable_js', 'boolean'],
+  ['enable_cookies_and_ad_blocker', 'boolean'],
+  ['preactions', 'json'],
+  ['advanced_schedule', 'json'],
+  ['notification', 'json'],
+  ['retention_policy', 'string'],
+  ['alert_error', 'boolean'],
+  ['summalyzer', 'json'],
+  ['labelIds', 'json'],
+];
+
+/**
+ * The create payload reproducing an existing job
+ */
+export function jobSpecFromDetails(
+  job: FullJobDetails
+): Omit<CreateJobRequest, 'workspaceId'> {
+  const spec: Omit<CreateJobRequest, 'workspaceId'> = {
+    url: job.url,
+    description: job.description,
+    mode: job.mode,
+    active: job.active,
+    interval: String(job.interval),
+    trigger: String(job.notification_threshold),
+    target_device: job.target_device,
+    wait_time: job.wait_time,
+    crop: job.crop,
+    proxy_id: job.proxy_id,
+    xpath: job.xpath ?? undefined,
+    keyword_action: job.keyword_action,
+    keywords: job.keywords,
+    disable_js: job.disable_js,
+    enable_cookies_and_ad_blocker: job.enable_cookies_and_ad_blocker,
+    preactions: job.preactions,
+    advanced_schedule: job.advanced_schedule,
+    notification: job.notification,
+    retention_policy: job.retention_policy,
+    alert_error: job.alert_error,
+    summalyzer: job.summalyzer,
+    labelIds: job.labelIds,
+  };
+  return pickDefined(spec);
+}
+
+/**
+ * Write jobs as a backup file
+ *
+ * @example
+ * ```ts
+ * writeFileSync('jobs.yaml', serializeJobs(jobs, 'yaml'));
+ * ```
+ */
+export function serializeJobs(
+  jobs: ExportedJob[],
+  format: JobExportFormat = 'json',
+  meta: { workspaceId?: number; exportedAt?: Date } = {}
+): string {
+  if (format === 'csv') {
+    return toCsv(
+      COLUMNS.map(([name]) => name),
+      jobs.map((job) =>
+        COLUMNS.map(([name, kind]) => {
+          const value = job[name];
+          if (value === undefined || value === null) return undefined;
+          return kind === 'json' ? JSON.stringify(value) : String(value);
+        })
+      )
+    );
+  }
+
+  const backup: JobBackup = {
+    version: 1,
+    exportedAt: (meta.exportedAt ?? new Date()).toISOString(),
+    workspaceId: meta.workspaceId,
+    jobs: jobs.map(pickDefined),
+  };
+  return format === 'yaml'
+    ? toYaml(backup)
+    : JSON.stringify(backup, null, 2) + '\n';
+}
+
+/**
+ * Read jobs from a backup file. Accepts a `JobBackup` document or a bare
+ * list of jobs in JSON and YAML. Fields that aren't part of a job's
+ * configuration are dropped; empty CSV cells are left unset.
+ *
+ * @param format - Detected from the content when omitted
+ * @throws VisualpingError when the file can't be parsed
+ * @throws VisualpingJobValidationError when a job is invalid, with fields
+ * prefixed by the job's index, e.g. `[2].url`
+ */
+export function parseJobs(
+  file: string,
+  format: JobExportFormat = detectFormat(file)
+): ExportedJob[] {
+  let records: unknown[];
+
+  if (format === 'csv') {
+    records = fromCsv(file).map((row, index) => fromCsvRow(row, index));
+  } else {
+    let parsed: unknown;
+    if (format === 'yaml') {
+      parsed = fromYaml(file);
+    } else {
+      try {
+        parsed = JSON.parse(file);
+      } catch (err) {
+        throw new VisualpingError('Invalid JSON backup', {}, err);
+      }
+    }
+
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as JobBackup | null)?.jobs;
+    if (!Array.isArray(list)) {
+      throw new VisualpingError('Backup has no list of jobs');
+    }
+    records = list;
+  }
+
+  const violations: JobViolation[] = [];
+  const jobs = records.map((record, index) => {
+    if (typeof record !== 'object' || record === null) {
+      throw new VisualpingError(`Job at index ${index} is not an object`);
+    }
+    const job = Object.fromEntries(
+      COLUMNS.flatMap(([name, kind]) => {
+        const value = (record as Record<string, unknown>)[name];
+        if (value === undefined || value === null) return [];
+        // hand-edited YAML may leave e.g. `interval: 60` unquoted
+        return [[name, kind === 'string' ? String(value) : value]];
+      })
+    ) as ExportedJob;
+
+    for (const violation of validateJob(job)) {
+      violations.push({ ...violation, field: `[${index}].${violation.field}` });
+    }
+    return job;
+  });
+
+  if (violations.length > 0) {
+    throw new VisualpingJobValidationError(violations);
+  }
+  return jobs;
+}
+
+function detectFormat(file: string): JobExportFormat {
+  const text = file.replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('{') || text.startsWith('[')) return 'json';
+
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return /^[\w"]+(,[\w"]+)+$/.test(firstLine) ? 'csv' : 'yaml';
+}
+
+function fromCsvRow(
+  row: Record<string, string | undefined>,
+  index: number
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const [name, kind] of COLUMNS) {
+    const cell = row[name];
+    if (cell === undefined) continue;
+
+    if (kind === 'string') {
+      record[name] = cell;
+    } else if (cell === '') {
+      continue;
+    } else if (kind === 'number') {
+      record[name] = Number(cell);
+    } else if (kind === 'boolean') {
+      record[name] = cell.toLowerCase() === 'true';
+    } else {
+      try {
+        record[name] = JSON.parse(cell);
+      } catch (err) {
+        throw new VisualpingError(
+          `Invalid CSV: ${name} of row ${index + 2} is not JSON`,
+          {},
+          err
+        );
+      }
+    }
+  }
+  return record;
+}
+
+function pickDefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && v !== null)
+  ) as T;
+}
@@ -0,0 +1,186 @@
+import { FieldError } from './error';
+import { JobMode, TargetDevice } from './types/api/common';
+import { CreateJobRequest } from './types/api/request/createJob';
+import { UpdateJobRequest } from './types/api/request/updateJob';
+import { AccountFeatureSet } from './types/api/response/describeUser';
+
+export const MAX_URL_LENGTH = 2000;
+
+export interface JobViolation extends FieldError {
+  /** Machine-readable rule name, e.g. `maxLength` or `maxJobFrequency` */
+  rule: string;
+}
+
+export interface JobValidationOptions {
+  /**
+   * Plan features of the job's workspace, from `describeUser()`.
+   * Plan-dependent rules are skipped without them.
+   */
+  features?: AccountFeatureSet;
+
+  /**
+   * Active jobs already in the workspace, checked against
+   * `maxActiveJobsPerWorkspace` when the job is created active
+   */
+  activeJobCount?: number;
+
+  /**
+   * Validate a partial `UpdateJobRequest`: missing fields are not reported
+   * and only the fields present are checked.
+   */
+  update?: boolean;
+}
+
+const JOB_MODES: readonly string[] = Object.values(JobMode);
+const TARGET_DEVICES: readonly string[] = Object.values(TargetDevice);
+
+/**
+ * Check a job payload against the API's documented rules and the plan
+ * limits in `options.features`, without calling the API.
+ *
+ * @returns Every violation found; empty when the job looks valid
+ *
+ * @example
+ * ```ts
+ * const violations = validateJob(job, { features: workspace.accountFeatures });
+ * // [{ field: 'trigger', rule: 'range', message: 'must be a percentage between 0 and 100' }]
+ * ```
+ */
+export function validateJob(
+  job: CreateJobRequest | UpdateJobRequest,
+  options: JobValidationOptions = {}
+): JobViolation[] {
+  const violations: JobViolation[] = [];
+  const add = (field: string, rule: string, message: string) =>
+    violations.push({ field, rule, message });
+  const { features, update = false } = options;
+
+  if (!update) {
+    for (const field of [
+      'url',
+      'mode',
+      'active',
+      'interval',
+      'trigger',
+      'target_device',
+      'wait_time',
+    ] as const) {
+      if (job[field] === undefined) add(field, 'required', 'is required');
+    }
+  }
+
+  if (job.url !== undefined) {
+    if (job.url.length > MAX_URL_LENGTH) {
+      add(
+        'url',
+        'maxLength',
+        `must be at most ${MAX_URL_LENGTH} characters (got ${job.url.length})`
+      );
+    } else if (!isHttpUrl(job.url)) {
+      add('url', 'format', 'must be an absolute http(s) URL');
+    }
+  }
+
+  if (job.mode !== undefined && !JOB_MODES.includes(job.mode)) {
+    add('mode', 'enum', `must be one of ${JOB_MODES.join(', ')}`);
+  }
+
+  if (
+    job.target_device !== undefined &&
+    !TARGET_DEVICES.includes(job.target_device)
+  ) {
+    add(
+      'target_device',
+      'enum',
+      `must be one of ${TARGET_DEVICES.map((d) => `"${d}"`).join(', ')}`
+    );
+  }
+
+  if (job.trigger !== undefined) {
+    const trigger = toNumber(job.trigger);
+    if (trigger === null || trigger < 0 || trigger > 100) {
+      add('trigger', 'range', 'must be a percentage between 0 and 100');
+    }
+  }
+
+  if (job.interval !== undefined) {
+    const interval = toNumber(job.interval);
+    const minInterval = features?.maxJobFrequency?.enabled
+      ? features.maxJobFrequency.value
+      : undefined;
+
+    if (interval === null || interval <= 0) {
+      add('interval', 'range', 'must be a positive number of minutes');
+    } else if (minInterval !== undefined && interval < minInterval) {
+      add(
+        'interval',
+        'maxJobFrequency',
+        `must be at least ${minInterval} minutes on this plan`
+      );
+    }
+  }
+
+  if (
+    job.wait_time !== undefined &&
+    !(Number.isFinite(job.wait_time) && job.wait_time >= 0)
+  ) {
+    add('wait_time', 'range', 'must be a non-negative number of seconds');
+  }
+
+  if (job.mode !== undefined && job.mode !== JobMode.TEXT) {
+    if (job.keywords) {
+      add('keywords', 'textModeOnly', 'is only supported on TEXT jobs');
+    }
+    if (job.keyword_action !== undefined) {
+      add('keyword_action', 'textModeOnly', 'is only supported on TEXT jobs');
+    }
+  }
+
+  if (job.crop) {
+    for (const key of ['x', 'y', 'width', 'height'] as const) {
+      if (!(job.crop[key] >= 0)) {
+        add(`crop.${key}`, 'range', 'must be a non-negative number of pixels');
+      }
+    }
+  }
+
+  if (job.notification?.enableSmsAlert && features && !features.sms?.enabled) {
+    add(
+      'notification.enableSmsAlert',
+      'sms',
+      'SMS alerts are not available on this plan'
+    );
+  }
+
+  const maxActive = features?.maxActiveJobsPerWorkspace;
+  if (
+    !update &&
+    job.active &&
+    maxActive?.enabled &&
+    options.activeJobCount !== undefined &&
+    options.activeJobCount >= maxActive.value &&
+    !features?.allowOverConsumption?.enabled
+  ) {
+    add(
+      'active',
+      'maxActiveJobsPerWorkspace',
+      `the workspace already has ${options.activeJobCount} of ${maxActive.value} active jobs`
+    );
+  }
+
+  return violations;
+}
+
+function toNumber(value: string): number | null {
+  const n = Number(value);
+  return String(value).trim() !== '' && Number.isFinite(n) ? n : null;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
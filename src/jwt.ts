@@ -0,0 +1,29 @@
+import { SECOND_MS } from './constants';
+
+/**
+ * Read the `exp` claim of a JWT without verifying it.
+ *
+ * @returns Expiry as epoch milliseconds, or `null` when the token is not a
+ * JWT or carries no `exp` claim
+ */
+export function getJwtExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const payload: unknown = JSON.parse(
+      Buffer.from(parts[1], 'base64url').toString('utf8')
+    );
+    if (
+      typeof payload === 'object' &&
+      payload !== null &&
+      'exp' in payload &&
+      typeof payload.exp === 'number'
+    ) {
+      return payload.exp * SECOND_MS;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
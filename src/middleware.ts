@@ -0,0 +1,144 @@
+import { VisualpingApiError } from './error';
+import { redactSecrets } from './redact';
+
+/**
+ * Outgoing request as seen by middlewares.
+ *
+ * Middlewares may change any field before calling `next`, or pass a modified
+ * copy instead.
+ */
+export interface RequestContext {
+  /** Absolute URL, query string included */
+  endpoint: string;
+  method: string;
+  headers: Record<string, string>;
+  /** Parsed request body. Serialized to JSON by the transport. */
+  body?: unknown;
+  /** `true` for API calls, `false` for `/token` calls */
+  authenticated: boolean;
+  /** 1-based attempt number, incremented by retrying middlewares */
+  attempt: number;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs: number;
+  /** Aborted when the caller cancels the call or the client is disposed */
+  signal?: AbortSignal;
+  /** Scratch space shared by middlewares for the lifetime of the call */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Successful response as seen by middlewares.
+ *
+ * Non-2xx responses surface as a thrown `VisualpingApiError` instead, so
+ * middlewares observe failures with `try`/`catch` around `next`.
+ */
+export interface ResponseContext {
+  status: number;
+  headers: Headers;
+  /** Parsed JSON body, or the raw text when it isn't JSON */
+  body: unknown;
+}
+
+export type Next = (ctx: RequestContext) => Promise<ResponseContext>;
+
+/**
+ * Interceptor around every HTTP call.
+ *
+ * Call `next(ctx)` to continue the chain, or return a response without
+ * calling it to short-circuit.
+ *
+ * @example
+ * ```ts
+ * const correlationId: Middleware = (ctx, next) =>
+ *   next({
+ *     ...ctx,
+ *     headers: { ...ctx.headers, 'X-Correlation-Id': randomUUID() },
+ *   });
+ * ```
+ */
+export type Middleware = (
+  ctx: RequestContext,
+  next: Next
+) => Promise<ResponseContext>;
+
+/**
+ * Chain middlewares in order around a terminal handler.
+ * The first middleware is the outermost one.
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  terminal: Next
+): Next {
+  return middleware.reduceRight<Next>(
+    (next, mw) => (ctx) => mw(ctx, next),
+    terminal
+  );
+}
+
+export interface RequestLogEntry {
+  method: string;
+  endpoint: string;
+  attempt: number;
+  durationMs: number;
+  status?: number;
+  error?: unknown;
+  requestBody?: unknown;
+  responseBody?: unknown;
+}
+
+export interface LoggingMiddlewareOptions {
+  /** @default writes a one-line summary to `console.error` */
+  log?: (entry: RequestLogEntry) => void;
+  /** Include request and response bodies in entries */
+  includeBodies?: boolean;
+  /**
+   * Applied to bodies before they are logged.
+   * @default replaces token, password and email values with `[REDACTED]`
+   */
+  redact?: (body: unknown) => unknown;
+}
+
+/**
+ * Log every call with its outcome and duration.
+ */
+export function loggingMiddleware(
+  options: LoggingMiddlewareOptions = {}
+): Middleware {
+  const log =
+    options.log ??
+    ((entry: RequestLogEntry) =>
+      console.error(
+        `[visualping] ${entry.method} ${entry.endpoint} -> ${
+          entry.status ?? 'error'
+        } (${entry.durationMs}ms)`
+      ));
+  const redact = options.redact ?? redactSecrets;
+
+  return async (ctx, next) => {
+    const startedAt = Date.now();
+    const entry = (): RequestLogEntry => ({
+      method: ctx.method,
+      endpoint: ctx.endpoint,
+      attempt: ctx.attempt,
+      durationMs: Date.now() - startedAt,
+      ...(options.includeBodies ? { requestBody: redact(ctx.body) } : {}),
+    });
+
+    try {
+      const res = await next(ctx);
+      log({
+        ...entry(),
+        status: res.status,
+        ...(options.includeBodies ? { responseBody: redact(res.body) } : {}),
+      });
+      return res;
+    } catch (err) {
+      log({
+        ...entry(),
+        status: err instanceof VisualpingApiError ? err.status : undefined,
+        error: err,
+      });
+      throw err;
+    }
+  };
+}
@@ -0,0 +1,137 @@
+import { anySignal, throwIfAborted } from './abort';
+import { VisualpingPaginationError } from './error';
+import {
+  JobsIdsAndWsIdsResponse,
+  JobsIdsOnlyResponse,
+  JobsMeta,
+  JobsNormalResponse,
+} from './types/api/response/getJobs';
+import { PaginationConsistency, PaginationInconsistency } from './types/client';
+
+export interface PaginateOptions {
+  /** Pages requested ahead of the one being consumed */
+  prefetch: number;
+  consistency: PaginationConsistency;
+  maxRescans: number;
+  onInconsistency?: (info: PaginationInconsistency) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingPage<P> {
+  pageIndex: number;
+  page: Promise<P>;
+}
+
+/**
+ * Walk every page of a `pageIndex`-paginated endpoint, starting at 0.
+ *
+ * Up to `prefetch` following pages are requested while the caller consumes
+ * the current one. Pending requests are aborted when the caller stops
+ * iterating early.
+ *
+ * A `totalJobs` that differs between pages means jobs were created or
+ * deleted mid-scan; `consistency` decides whether that throws or triggers
+ * another pass. Duplicates are not removed here - see `dedupePage`.
+ */
+export async function* paginate<P extends JobsMeta>(
+  fetchPage: (pageIndex: number, signal: AbortSignal) => Promise<P>,
+  options: PaginateOptions
+): AsyncGenerator<P, void, undefined> {
+  const stop = new AbortController();
+  const { signal, cleanup } = anySignal([options.signal, stop.signal]);
+  const pending: Array<PendingPage<P>> = [];
+
+  let nextIndex = 0;
+  let totalPages = 1;
+  let previousTotalJobs: number | undefined;
+  let changed = false;
+  let pass = 0;
+
+  const request = (pageIndex: number) => {
+    const page = fetchPage(pageIndex, signal);
+    // rejections are observed when the page is awaited - avoid unhandled
+    // rejection warnings for pages abandoned by an early `break`
+    page.catch(() => undefined);
+    pending.push({ pageIndex, page });
+  };
+
+  try {
+    for (;;) {
+      if (pending.length === 0) {
+        if (nextIndex >= totalPages) {
+          const rescan =
+            options.consistency === 'rescan' &&
+            changed &&
+            pass < options.maxRescans;
+          if (!rescan) return;
+
+          pass += 1;
+          changed = false;
+          nextIndex = 0;
+        }
+        request(nextIndex++);
+      }
+
+      const { pageIndex, page: pagePromise } =
+        pending.shift() as PendingPage<P>;
+      const page = await pagePromise;
+      throwIfAborted(options.signal);
+
+      if (
+        previousTotalJobs !== undefined &&
+        page.totalJobs !== previousTotalJobs
+      ) {
+        const info: PaginationInconsistency = {
+          pageIndex,
+          previousTotalJobs,
+          totalJobs: page.totalJobs,
+          pass,
+        };
+        options.onInconsistency?.(info);
+        if (options.consistency === 'strict') {
+          throw new VisualpingPaginationError(info);
+        }
+        changed = true;
+      }
+      previousTotalJobs = page.totalJobs;
+
+      totalPages = page.totalPages;
+      while (nextIndex < totalPages && pending.length < options.prefetch) {
+        request(nextIndex++);
+      }
+
+      yield page;
+    }
+  } finally {
+    stop.abort(new Error('Pagination stopped'));
+    cleanup();
+  }
+}
+
+/**
+ * Copy of `page` without the jobs whose ID is in `seen`, which is updated
+ * with the IDs of the page
+ */
+export function dedupePage<P extends JobsMeta>(page: P, seen: Set<number>): P {
+  const unseen = (id: number) => {
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  };
+  const p = page as P &
+    Partial<JobsNormalResponse & JobsIdsOnlyResponse & JobsIdsAndWsIdsResponse>;
+
+  return {
+    ...page,
+    ...(p.jobs ? { jobs: p.jobs.filter((job) => unseen(job.id)) } : {}),
+    ...(p.jobIds ? { jobIds: p.jobIds.filter(unseen) } : {}),
+    ...(p.jobIdsByWsId
+      ? {
+          jobIdsByWsId: p.jobIdsByWsId.map((ws) => ({
+            ...ws,
+            ids: ws.ids.filter(unseen),
+          })),
+        }
+      : {}),
+  };
+}
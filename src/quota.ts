@@ -0,0 +1,167 @@
+import { RequestDetails, VisualpingQuotaError } from './error';
+import {
+  PersonalWorkspace,
+  VisualpingUser,
+  Workspace,
+} from './types/api/response/describeUser';
+import { QuotaExceeded, QuotaGuardOptions } from './types/client';
+
+/**
+ * Outcome of `QuotaGuard.admit`: send the job as-is and report whether the
+ * request succeeded with `done`, or send it paused
+ */
+export type QuotaDecision =
+  | { action: 'send'; done: (succeeded: boolean) => void }
+  | { action: 'pause' };
+
+export interface QuotaRequest {
+  workspaceId?: number;
+  operation: QuotaExceeded['operation'];
+  jobId?: number | string;
+  /** Whether the job is already active, so activating it is free */
+  isActive?: () => Promise<boolean>;
+}
+
+const PERSONAL = 'personal';
+
+/**
+ * Active job limit checks of the client's `quotaGuard` option.
+ *
+ * Limits and counts come from a cached `describeUser()` snapshot. Jobs
+ * activated since the snapshot, or being activated, are counted locally,
+ * so concurrent bulk calls can't overshoot the limit between two snapshots.
+ */
+export class QuotaGuard {
+  private loadUser: () => Promise<VisualpingUser>;
+  private policy: NonNullable<QuotaGuardOptions['policy']>;
+  private cacheTtlMs: number;
+  private snapshot: { user: VisualpingUser; fetchedAt: number } | null = null;
+  private loading: Promise<VisualpingUser> | null = null;
+  /** Activations sent since the snapshot, by workspace */
+  private activated = new Map<string, number>();
+  /** Activations in flight, by workspace */
+  private pending = new Map<string, number>();
+
+  constructor(
+    loadUser: () => Promise<VisualpingUser>,
+    options: QuotaGuardOptions = {}
+  ) {
+    this.loadUser = loadUser;
+    this.policy = options.policy ?? 'throw';
+    this.cacheTtlMs = options.cacheTtlMs ?? 60_000;
+  }
+
+  /**
+   * Decide whether a job may become active, reserving a slot if so
+   *
+   * @throws VisualpingQuotaError under the `throw` policy
+   */
+  async admit(
+    request: QuotaRequest,
+    details: RequestDetails
+  ): Promise<QuotaDecision> {
+    const user = await this.user();
+    const workspace =
+      request.workspaceId !== undefined
+        ? user.workspaces.find((ws) => ws.id === request.workspaceId)
+        : user.personalWorkspace;
+    if (!workspace) return { action: 'send', done: () => {} };
+
+    const key =
+      request.workspaceId !== undefined
+        ? String(request.workspaceId)
+        : PERSONAL;
+
+    // an already active job holds its slot, so it's neither limited nor
+    // counted again
+    if (request.isActive && (await request.isActive())) {
+      return { action: 'send', done: () => {} };
+    }
+    const exceeded = this.exceeded(workspace, key, request);
+
+    const policy = !exceeded
+      ? 'allow'
+      : typeof this.policy === 'function'
+        ? this.policy(exceeded)
+        : this.policy;
+
+    if (policy === 'throw') {
+      throw new VisualpingQuotaError(exceeded as QuotaExceeded, details);
+    }
+    if (policy === 'pause') return { action: 'pause' };
+
+    add(this.pending, key, 1);
+    let settled = false;
+    return {
+      action: 'send',
+      done: (succeeded) => {
+        if (settled) return;
+        settled = true;
+        add(this.pending, key, -1);
+        if (succeeded) add(this.activated, key, 1);
+      },
+    };
+  }
+
+  /**
+   * Drop the snapshot, e.g. after jobs were paused or deleted
+   */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  private exceeded(
+    workspace: Workspace | PersonalWorkspace,
+    key: string,
+    request: QuotaRequest
+  ): QuotaExceeded | null {
+    const { accountFeatures: features, counts } = workspace;
+    if (features.allowOverConsumption?.enabled) return null;
+
+    const limit = features.maxActiveJobsPerWorkspace?.enabled
+      ? features.maxActiveJobsPerWorkspace.value
+      : undefined;
+    const activeJobCount =
+      counts.activeJobCount +
+      (this.activated.get(key) ?? 0) +
+      (this.pending.get(key) ?? 0);
+    const overflow = counts.activeJobOverflow;
+
+    if (!overflow && (limit === undefined || activeJobCount < limit)) {
+      return null;
+    }
+    return {
+      workspaceId: request.workspaceId,
+      operation: request.operation,
+      jobId: request.jobId,
+      activeJobCount,
+      limit,
+      overflow,
+    };
+  }
+
+  private async user(): Promise<VisualpingUser> {
+    if (
+      this.snapshot &&
+      Date.now() - this.snapshot.fetchedAt < this.cacheTtlMs
+    ) {
+      return this.snapshot.user;
+    }
+
+    this.loading ??= this.loadUser()
+      .then((user) => {
+        // the fresh counts include the finished activations
+        this.snapshot = { user, fetchedAt: Date.now() };
+        this.activated.clear();
+        return user;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+}
+
+function add(counts: Map<string, number>, key: string, n: number) {
+  counts.set(key, (counts.get(key) ?? 0) + n);
+}
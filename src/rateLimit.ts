@@ -0,0 +1,236 @@
+import { SECOND_MS } from './constants';
+import { VisualpingAbortError, VisualpingError } from './error';
+import { Middleware, RequestContext } from './middleware';
+
+/**
+ * Hosts the client talks to. Each can be limited separately.
+ */
+export type EndpointGroup = 'account' | 'job' | 'token';
+
+export interface RateLimitConfig {
+  /**
+   * Sustained rate of the token bucket. Unlimited when omitted.
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Bucket capacity, i.e. how many requests may start back to back.
+   * Only used together with `requestsPerSecond`.
+   * @default requestsPerSecond (at least 1)
+   */
+  burst?: number;
+
+  /**
+   * Maximum number of requests in flight at once. Unlimited when omitted.
+   */
+  maxConcurrency?: number;
+}
+
+/**
+ * Client-side throttling. Top-level settings apply to every call of the
+ * client; `groups` adds a separate limit per host.
+ *
+ * @example
+ * ```ts
+ * const client = new VisualpingClient(email, password, {
+ *   rateLimit: {
+ *     maxConcurrency: 10,
+ *     groups: { job: { requestsPerSecond: 5, burst: 10 } },
+ *   },
+ * });
+ * ```
+ */
+export interface RateLimitOptions extends RateLimitConfig {
+  groups?: Partial<Record<EndpointGroup, RateLimitConfig>>;
+}
+
+export interface RateLimiterStats {
+  /** Requests currently in flight */
+  active: number;
+  /** Requests waiting for a slot */
+  queued: number;
+  /** Requests that got a slot so far */
+  acquired: number;
+  /** Time spent waiting for a slot, summed over all acquired requests */
+  totalWaitMs: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface RateLimitStats {
+  client: RateLimiterStats;
+  groups: Partial<Record<EndpointGroup, RateLimiterStats>>;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+}
+
+/**
+ * Token bucket combined with a max-concurrency FIFO queue.
+ */
+export class RateLimiter {
+  private ratePerMs: number;
+  private capacity: number;
+  private maxConcurrency: number;
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private acquired = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  /**
+   * @throws VisualpingError when `requestsPerSecond` is not a positive
+   * number, `burst` is below 1 or `maxConcurrency` is not a positive integer
+   */
+  constructor(config: RateLimitConfig = {}) {
+    const rps = config.requestsPerSecond;
+    if (rps !== undefined && !(Number.isFinite(rps) && rps > 0)) {
+      throw new VisualpingError(
+        `Invalid rate limit: requestsPerSecond must be a positive number, got ${rps}`
+      );
+    }
+    if (
+      config.burst !== undefined &&
+      !(Number.isFinite(config.burst) && config.burst >= 1)
+    ) {
+      throw new VisualpingError(
+        `Invalid rate limit: burst must be a number of at least 1, got ${config.burst}`
+      );
+    }
+    if (
+      config.maxConcurrency !== undefined &&
+      !(Number.isInteger(config.maxConcurrency) && config.maxConcurrency >= 1)
+    ) {
+      throw new VisualpingError(
+        `Invalid rate limit: maxConcurrency must be an integer of at least 1, got ${config.maxConcurrency}`
+      );
+    }
+    this.ratePerMs = rps !== undefined ? rps / SECOND_MS : Infinity;
+    this.capacity =
+      rps !== undefined ? (config.burst ?? Math.max(1, rps)) : Infinity;
+    this.maxConcurrency = config.maxConcurrency ?? Infinity;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Wait for a slot.
+   *
+   * @param signal - Leaves the queue when aborted
+   * @returns Function that must be called once the request has finished
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new VisualpingAbortError(signal.reason));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((w) => w !== waiter);
+        reject(new VisualpingAbortError(signal?.reason));
+      };
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        resolve: (release) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  stats(): RateLimiterStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      acquired: this.acquired,
+      totalWaitMs: this.totalWaitMs,
+      averageWaitMs: this.acquired ? this.totalWaitMs / this.acquired : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens =
+      this.ratePerMs === Infinity
+        ? this.capacity
+        : Math.min(
+            this.capacity,
+            this.tokens + (now - this.lastRefill) * this.ratePerMs
+          );
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (
+      this.queue.length > 0 &&
+      this.active < this.maxConcurrency &&
+      this.tokens >= 1
+    ) {
+      const waiter = this.queue.shift() as Waiter;
+      this.tokens -= 1;
+      this.active += 1;
+
+      const waitMs = Date.now() - waiter.enqueuedAt;
+      this.acquired += 1;
+      this.totalWaitMs += waitMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.active -= 1;
+        this.drain();
+      });
+    }
+
+    // out of tokens -> wake up once the next one has been refilled
+    if (
+      this.queue.length > 0 &&
+      this.active < this.maxConcurrency &&
+      this.timer === null
+    ) {
+      this.timer = setTimeout(
+        () => {
+          this.timer = null;
+          this.drain();
+        },
+        Math.ceil((1 - this.tokens) / this.ratePerMs)
+      );
+    }
+  }
+}
+
+/**
+ * Hold a slot of every limiter returned by `limitersFor` while the call is
+ * in flight. Limiters are acquired in the order given.
+ */
+export function rateLimitMiddleware(
+  limitersFor: (ctx: RequestContext) => RateLimiter[]
+): Middleware {
+  return async (ctx, next) => {
+    const releases: Array<() => void> = [];
+    try {
+      for (const limiter of limitersFor(ctx)) {
+        releases.push(await limiter.acquire(ctx.signal));
+      }
+      return await next(ctx);
+    } finally {
+      releases.forEach((release) => release());
+    }
+  };
+}
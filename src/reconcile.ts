@@ -0,0 +1,466 @@
+import { runBulk } from './bulk';
+import { VisualpingClient } from './client';
+import { VisualpingError, VisualpingJobValidationError } from './error';
+import { JobViolation, validateJob } from './jobValidation';
+import { CreateJobRequest } from './types/api/request/createJob';
+import { GetJobsParams } from './types/api/request/getJobs';
+import { UpdateJobRequest } from './types/api/request/updateJob';
+import { CreatedJobResult } from './types/api/response/createJob';
+import { DeleteJobResult } from './types/api/response/deleteJob';
+import { FullJobDetails } from './types/api/response/getJob';
+import { UpdateJobDetails } from './types/api/response/updateJob';
+import { BulkOptions, BulkReport } from './types/client';
+
+/**
+ * Fields identifying a job across plan runs
+ */
+export interface JobIdentityFields {
+  url: string;
+  mode: string;
+  workspaceId?: number;
+}
+
+export interface JobReconcilerOptions {
+  /**
+   * Stable key of a job. Specs and existing jobs with the same key are the
+   * same job.
+   * @default workspaceId + mode + url
+   */
+  identity?: (job: JobIdentityFields) => string;
+
+  /**
+   * Filters selecting the existing jobs managed by the specs, e.g. a
+   * `workspaceId` or `labelsFilter`. Managed jobs without a spec are
+   * planned for deletion.
+   */
+  scope?: Omit<GetJobsParams, 'mode' | 'pageIndex'>;
+
+  /**
+   * Safety switch - deletions are planned but not applied unless set
+   * @default false
+   */
+  allowDeletes?: boolean;
+
+  /** Added to update payloads. Mandatory for business users. */
+  organisationId?: number;
+}
+
+export interface FieldDiff {
+  field: keyof CreateJobRequest;
+  current: unknown;
+  desired: unknown;
+}
+
+export interface PlannedCreate {
+  key: string;
+  spec: CreateJobRequest;
+}
+
+export interface PlannedUpdate {
+  key: string;
+  jobId: number;
+  changes: FieldDiff[];
+  /** Payload sent to `updateJob` */
+  patch: UpdateJobRequest;
+}
+
+export interface PlannedDelete {
+  key: string;
+  jobId: number;
+  workspaceId?: number;
+  url: string;
+  /** Not applied because `allowDeletes` is off */
+  blocked: boolean;
+}
+
+export interface JobPlan {
+  creates: PlannedCreate[];
+  updates: PlannedUpdate[];
+  deletes: PlannedDelete[];
+  unchanged: Array<{ key: string; jobId: number }>;
+}
+
+export interface JobApplyReport {
+  created: BulkReport<CreatedJobResult>;
+  updated: BulkReport<UpdateJobDetails>;
+  deleted: BulkReport<DeleteJobResult>;
+}
+
+export interface JobApplyOptions extends BulkOptions {
+  /** Send nothing; every step of the report is skipped */
+  dryRun?: boolean;
+  /** Receives the formatted plan of a dry run, e.g. `console.error` */
+  log?: (line: string) => void;
+}
+
+/**
+ * Fields of a spec that are compared with the existing job, and how to
+ * read them from `FullJobDetails`
+ */
+const COMPARED_FIELDS: Array<
+  [keyof CreateJobRequest, (job: FullJobDetails) => unknown]
+> = [
+  ['description', (job) => job.description],
+  ['active', (job) => job.active],
+  ['interval', (job) => String(job.interval)],
+  ['trigger', (job) => String(job.notification_threshold)],
+  ['crop', (job) => job.crop],
+  ['proxy_id', (job) => job.proxy_id],
+  ['xpath', (job) => job.xpath],
+  ['keyword_action', (job) => job.keyword_action],
+  ['keywords', (job) => job.keywords],
+  ['disable_js', (job) => job.disable_js],
+  ['enable_cookies_and_ad_blocker', (job) => job.enable_cookies_and_ad_blocker],
+  ['target_device', (job) => job.target_device],
+  ['wait_time', (job) => job.wait_time],
+  ['preactions', (job) => job.preactions],
+  ['advanced_schedule', (job) => job.advanced_schedule],
+  ['notification', (job) => job.notification],
+  ['retention_policy', (job) => job.retention_policy],
+  ['alert_error', (job) => job.alert_error],
+  ['summalyzer', (job) => job.summalyzer],
+  ['labelIds', (job) => job.labelIds],
+];
+
+export function defaultJobIdentity(job: JobIdentityFields): string {
+  return `${job.workspaceId ?? '-'}|${job.mode}|${job.url}`;
+}
+
+/**
+ * Keeps Visualping jobs in line with a list of job specs ("jobs as code").
+ *
+ * `plan()` compares the specs with the existing jobs and lists the
+ * creates, updates (with field-level diffs) and deletes needed; `apply()`
+ * runs a plan. Deletions only happen with `allowDeletes`.
+ *
+ * @example
+ * ```ts
+ * const reconciler = new JobReconciler(client, {
+ *   scope: { workspaceId: 10 },
+ * });
+ *
+ * const plan = await reconciler.plan(specs);
+ * console.log(formatJobPlan(plan));
+ * await reconciler.apply(plan);
+ * ```
+ */
+export class JobReconciler {
+  private client: VisualpingClient;
+  private options: JobReconcilerOptions;
+  private identity: (job: JobIdentityFields) => string;
+
+  constructor(client: VisualpingClient, options: JobReconcilerOptions = {}) {
+    this.client = client;
+    this.options = options;
+    this.identity = options.identity ?? defaultJobIdentity;
+  }
+
+  /**
+   * Compare `specs` with the existing jobs in `scope`
+   *
+   * @throws VisualpingJobValidationError when a spec is invalid
+   * @throws VisualpingError when two specs share the same identity
+   */
+  async plan(
+    specs: CreateJobRequest[],
+    options?: BulkOptions
+  ): Promise<JobPlan> {
+    const desired = new Map<string, CreateJobRequest>();
+    const violations: JobViolation[] = [];
+
+    const scopeWorkspaceId = this.options.scope?.workspaceId;
+    specs.forEach((spec, i) => {
+      // specs live in the scoped workspace unless they name their own, the
+      // same way existing jobs are keyed below
+      if (spec.workspaceId === undefined && scopeWorkspaceId !== undefined) {
+        spec = { ...spec, workspaceId: scopeWorkspaceId };
+      }
+      const key = this.identity(spec);
+      if (desired.has(key)) {
+        throw new VisualpingError(`Duplicate job spec for ${key}`);
+      }
+      desired.set(key, spec);
+      for (const violation of validateJob(spec)) {
+        violations.push({ ...violation, field: `[${i}].${violation.field}` });
+      }
+    });
+    if (violations.length > 0) {
+      throw new VisualpingJobValidationError(violations);
+    }
+
+    const plan: JobPlan = {
+      creates: [],
+      updates: [],
+      deletes: [],
+      unchanged: [],
+    };
+    const matched = new Map<string, { jobId: number; workspaceId?: number }>();
+
+    const existing = await this.client.getAllJobs(
+      this.options.scope ?? {},
+      options
+    );
+    for (const job of existing) {
+      const workspaceId = job.workspaceId ?? scopeWorkspaceId;
+      const key = this.identity({ url: job.url, mode: job.mode, workspaceId });
+
+      if (desired.has(key) && !matched.has(key)) {
+        matched.set(key, { jobId: job.id, workspaceId });
+      } else {
+        // unmanaged, or a duplicate of a job that is already matched
+        plan.deletes.push({
+          key,
+          jobId: job.id,
+          workspaceId,
+          url: job.url,
+          blocked: !this.options.allowDeletes,
+        });
+      }
+    }
+
+    for (const [key, spec] of desired) {
+      if (!matched.has(key)) plan.creates.push({ key, spec });
+    }
+
+    const keys = [...matched.keys()];
+    const details = await runBulk(
+      keys,
+      (key) => {
+        const { jobId, workspaceId } = matched.get(String(key)) as {
+          jobId: number;
+          workspaceId?: number;
+        };
+        return this.client.getJob(jobId, workspaceId, options);
+      },
+      options
+    );
+
+    for (const result of details.results) {
+      const key = String(result.jobId);
+      const { jobId } = matched.get(key) as { jobId: number };
+      if (result.status === 'failed') throw result.error;
+      if (result.status === 'skipped') {
+        throw new VisualpingError(
+          `Could not read job ${jobId}: ${result.reason}`
+        );
+      }
+
+      const spec = desired.get(key) as CreateJobRequest;
+      const changes = diffJobSpec(spec, result.result);
+      if (changes.length === 0) {
+        plan.unchanged.push({ key, jobId });
+        continue;
+      }
+
+      const patch: UpdateJobRequest = {};
+      if (spec.workspaceId !== undefined) patch.workspaceId = spec.workspaceId;
+      if (this.options.organisationId !== undefined) {
+        patch.organisationId = this.options.organisationId;
+      }
+      for (const change of changes) {
+        Object.assign(patch, { [change.field]: change.desired });
+      }
+      plan.updates.push({ key, jobId, changes, patch });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Run `plan`: creates, then updates, then deletes. Each step continues
+   * past failures, see the returned report. Blocked deletes, and every
+   * delete when `allowDeletes` is off, are reported as skipped.
+   */
+  async apply(
+    plan: JobPlan,
+    options: JobApplyOptions = {}
+  ): Promise<JobApplyReport> {
+    const { dryRun = false, log, ...bulk } = options;
+
+    if (dryRun) {
+      log?.(formatJobPlan(plan));
+      return {
+        created: skippedReport(
+          plan.creates.map((c) => c.key),
+          'dry run'
+        ),
+        updated: skippedReport(
+          plan.updates.map((u) => u.jobId),
+          'dry run'
+        ),
+        deleted: skippedReport(
+          plan.deletes.map((d) => d.jobId),
+          'dry run'
+        ),
+      };
+    }
+
+    const creates = new Map(plan.creates.map((c) => [c.key, c.spec]));
+    const created = await runBulk(
+      [...creates.keys()],
+      (key) =>
+        this.client.createJob(
+          creates.get(String(key)) as CreateJobRequest,
+          bulk
+        ),
+      bulk
+    );
+
+    const updates = new Map(plan.updates.map((u) => [u.jobId, u.patch]));
+    const updated = await runBulk(
+      [...updates.keys()],
+      (jobId) =>
+        this.client.updateJob(
+          jobId,
+          updates.get(Number(jobId)) as UpdateJobRequest,
+          bulk
+        ),
+      bulk
+    );
+
+    const allowed = plan.deletes.filter(
+      (d) => !d.blocked && this.options.allowDeletes
+    );
+    const workspaces = new Map(allowed.map((d) => [d.jobId, d.workspaceId]));
+    const deleted = await runBulk(
+      allowed.map((d) => d.jobId),
+      (jobId) =>
+        this.client.deleteJob(jobId, workspaces.get(Number(jobId)), bulk),
+      bulk
+    );
+    const blocked = skippedReport<DeleteJobResult>(
+      plan.deletes.filter((d) => !allowed.includes(d)).map((d) => d.jobId),
+      'deletes not allowed'
+    );
+
+    return {
+      created,
+      updated,
+      deleted: {
+        results: [...deleted.results, ...blocked.results],
+        succeeded: deleted.succeeded,
+        failed: deleted.failed,
+        skipped: deleted.skipped + blocked.skipped,
+      },
+    };
+  }
+}
+
+function skippedReport<T>(
+  jobIds: Array<number | string>,
+  reason: string
+): BulkReport<T> {
+  return {
+    results: jobIds.map((jobId) => ({ jobId, status: 'skipped', reason })),
+    succeeded: 0,
+    failed: 0,
+    skipped: jobIds.length,
+  };
+}
+
+/**
+ * Field-level differences between a spec and the existing job. Fields
+ * missing from the spec are left alone.
+ */
+export function diffJobSpec(
+  spec: CreateJobRequest,
+  current: FullJobDetails
+): FieldDiff[] {
+  return COMPARED_FIELDS.flatMap(([field, read]) => {
+    const desired = spec[field];
+    if (desired === undefined) return [];
+
+    const value = read(current);
+    return isEquivalent(desired, value)
+      ? []
+      : [{ field, current: value, desired }];
+  });
+}
+
+/**
+ * Human-readable plan, e.g. for dry runs and code review
+ *
+ * @example
+ * ```
+ * + create  -|TEXT|https://example.com/new
+ * ~ update  -|TEXT|https://example.com/pricing (#123)
+ *     interval: "1440" -> "60"
+ * - delete  -|VISUAL|https://example.com/old (#456) [blocked]
+ * Plan: 1 to create, 1 to update, 1 to delete (1 blocked), 3 unchanged
+ * ```
+ */
+export function formatJobPlan(plan: JobPlan): string {
+  const lines: string[] = [];
+  const show = (value: unknown) => JSON.stringify(value) ?? 'undefined';
+
+  for (const c of plan.creates) lines.push(`+ create  ${c.key}`);
+  for (const u of plan.updates) {
+    lines.push(`~ update  ${u.key} (#${u.jobId})`);
+    for (const d of u.changes) {
+      lines.push(`    ${d.field}: ${show(d.current)} -> ${show(d.desired)}`);
+    }
+  }
+  for (const d of plan.deletes) {
+    lines.push(
+      `- delete  ${d.key} (#${d.jobId})${d.blocked ? ' [blocked]' : ''}`
+    );
+  }
+
+  const blocked = plan.deletes.filter((d) => d.blocked).length;
+  lines.push(
+    `Plan: ${plan.creates.length} to create, ${plan.updates.length} to update, ` +
+      `${plan.deletes.length} to delete` +
+      (blocked ? ` (${blocked} blocked)` : '') +
+      `, ${plan.unchanged.length} unchanged`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Finite number, or numeric string, as a number. Empty strings aren't
+ * numeric, even though `Number('')` is `0`.
+ */
+function asNumber(value: number | string): number | undefined {
+  const n =
+    typeof value === 'number' || value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Deep equality where numbers and numeric strings compare by value and
+ * object key order doesn't matter
+ */
+function isEquivalent(a: unknown, b: unknown): boolean {
+  if (
+    (typeof a === 'number' || typeof a === 'string') &&
+    (typeof b === 'number' || typeof b === 'string')
+  ) {
+    if (String(a) === String(b)) return true;
+    const x = asNumber(a);
+    const y = asNumber(b);
+    return x !== undefined && x === y;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((v, i) => isEquivalent(v, b[i]))
+    );
+  }
+  if (
+    typeof a === 'object' &&
+    a !== null &&
+    typeof b === 'object' &&
+    b !== null
+  ) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((k) =>
+      isEquivalent(
+        (a as Record<string, unknown>)[k],
+        (b as Record<string, unknown>)[k]
+      )
+    );
+  }
+  return a === b;
+}
@@ -0,0 +1,289 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  createApiError,
+  VisualpingApiError,
+  VisualpingReplayError,
+} from './error';
+import { Middleware, RequestContext } from './middleware';
+import { redactSecrets } from './redact';
+
+/**
+ * One call and its response, as stored in a fixture
+ */
+export interface RecordedExchange {
+  method: string;
+  /** Absolute URL, query string included */
+  endpoint: string;
+  /** 1-based attempt of the call, > 1 for retries */
+  attempt?: number;
+  requestBody?: unknown;
+  status: number;
+  /** Only the headers the client reads (`content-type`, `retry-after`) */
+  headers: Record<string, string>;
+  body?: unknown;
+  /** Error message of non-2xx responses */
+  message?: string;
+}
+
+export interface HttpFixture {
+  version: 1;
+  exchanges: RecordedExchange[];
+}
+
+export interface HttpRecorderOptions {
+  /**
+   * Applied to request and response bodies, headers and error messages
+   * before they are stored.
+   * @default replaces token, password and email values, and email
+   * addresses anywhere, with `[REDACTED]`
+   */
+  redact?: (value: unknown) => unknown;
+}
+
+/**
+ * How `HttpReplayer` picks the response of a call:
+ * - `sequential` serves the exchanges in recorded order and fails when the
+ *   method or URL differ
+ * - `request` serves the first unused exchange with the same method, URL and
+ *   (redacted) body, so independent calls may run in any order
+ */
+export type ReplayMatch = 'sequential' | 'request';
+
+export interface HttpReplayerOptions {
+  /** @default 'sequential' */
+  match?: ReplayMatch;
+  /**
+   * Applied to request bodies before comparing them to the recorded ones.
+   * Use the same function as when recording.
+   * @default replaces token, password and email values, and email
+   * addresses anywhere, with `[REDACTED]`
+   */
+  redact?: (value: unknown) => unknown;
+}
+
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+/**
+ * Capture every call of a client into a fixture, with credentials redacted.
+ *
+ * Put `recorder.middleware` in the client's `attemptMiddleware` option so it
+ * records one exchange per HTTP attempt, retries included. In `middleware`
+ * it records one exchange per call, after retries.
+ *
+ * @example
+ * ```ts
+ * const recorder = new HttpRecorder();
+ * const client = new VisualpingClient(email, password, {
+ *   attemptMiddleware: [recorder.middleware],
+ * });
+ * await client.getAllJobs();
+ * await recorder.save('__tests__/fixtures/http/jobs.json');
+ * ```
+ */
+export class HttpRecorder {
+  readonly exchanges: RecordedExchange[] = [];
+  readonly middleware: Middleware;
+  private redact: (value: unknown) => unknown;
+
+  constructor(options: HttpRecorderOptions = {}) {
+    this.redact = options.redact ?? redactSecrets;
+    this.middleware = async (ctx, next) => {
+      try {
+        const res = await next(ctx);
+        this.record(ctx, res.status, res.headers, res.body);
+        return res;
+      } catch (err) {
+        if (err instanceof VisualpingApiError) {
+          this.record(
+            ctx,
+            err.status,
+            err.headers,
+            err.payload,
+            apiErrorMessage(err)
+          );
+        }
+        throw err;
+      }
+    };
+  }
+
+  toFixture(): HttpFixture {
+    return { version: 1, exchanges: structuredClone(this.exchanges) };
+  }
+
+  /**
+   * Write the fixture as indented JSON, creating missing directories
+   */
+  async save(path: string): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(this.toFixture(), null, 2)}\n`);
+  }
+
+  private record(
+    ctx: RequestContext,
+    status: number,
+    headers: Headers | undefined,
+    body: unknown,
+    message?: string
+  ) {
+    const kept: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = headers?.get(name);
+      if (value !== null && value !== undefined) kept[name] = value;
+    }
+
+    this.exchanges.push({
+      method: ctx.method,
+      endpoint: ctx.endpoint,
+      attempt: ctx.attempt,
+      ...(ctx.body !== undefined ? { requestBody: this.redact(ctx.body) } : {}),
+      status,
+      headers: this.redact(kept) as Record<string, string>,
+      ...(body !== undefined ? { body: this.redact(body) } : {}),
+      ...(message !== undefined
+        ? { message: this.redact(message) as string }
+        : {}),
+    });
+  }
+}
+
+/**
+ * Serve recorded responses instead of calling the API.
+ *
+ * Put `replayer.middleware` where the recorder was: in `attemptMiddleware`,
+ * recorded errors go through the client's retries again, reproducing retry
+ * sequences; in `middleware`, they are thrown without retries. Either way
+ * they are thrown as the same error classes.
+ * With `validation: 'strict'`, replayed bodies are still checked, so
+ * re-recording a fixture surfaces response shape changes.
+ *
+ * @example
+ * ```ts
+ * const replayer = new HttpReplayer(await loadFixture(path));
+ * const client = new VisualpingClient(email, password, {
+ *   attemptMiddleware: [replayer.middleware],
+ *   validation: 'strict',
+ * });
+ * await codeUnderTest(client);
+ * assert.equal(replayer.pending.length, 0);
+ * ```
+ */
+export class HttpReplayer {
+  readonly middleware: Middleware;
+  private exchanges: RecordedExchange[];
+  private used: boolean[];
+  private match: ReplayMatch;
+  private redact: (value: unknown) => unknown;
+
+  constructor(fixture: HttpFixture, options: HttpReplayerOptions = {}) {
+    this.exchanges = fixture.exchanges;
+    this.used = fixture.exchanges.map(() => false);
+    this.match = options.match ?? 'sequential';
+    this.redact = options.redact ?? redactSecrets;
+    this.middleware = async (ctx) => this.replay(ctx);
+  }
+
+  /** Recorded exchanges no call has used yet */
+  get pending(): RecordedExchange[] {
+    return this.exchanges.filter((_, i) => !this.used[i]);
+  }
+
+  private async replay(ctx: RequestContext) {
+    const request = {
+      method: ctx.method,
+      endpoint: ctx.endpoint,
+      attempt: ctx.attempt,
+    };
+    const index = this.find(ctx);
+    const exchange = this.exchanges[index];
+    this.used[index] = true;
+
+    const headers = new Headers(exchange.headers);
+    if (exchange.status < 200 || exchange.status > 299) {
+      throw createApiError(
+        exchange.status,
+        exchange.message ?? String(exchange.status),
+        exchange.body,
+        headers,
+        request
+      );
+    }
+    return { status: exchange.status, headers, body: exchange.body };
+  }
+
+  private find(ctx: RequestContext): number {
+    const call = `${ctx.method} ${ctx.endpoint}`;
+    const request = { method: ctx.method, endpoint: ctx.endpoint };
+
+    if (this.match === 'sequential') {
+      const index = this.used.indexOf(false);
+      if (index === -1) {
+        throw new VisualpingReplayError(
+          `no exchange left for ${call}`,
+          request
+        );
+      }
+      const next = this.exchanges[index];
+      if (next.method !== ctx.method || next.endpoint !== ctx.endpoint) {
+        throw new VisualpingReplayError(
+          `expected ${next.method} ${next.endpoint} as exchange ${index}, got ${call}`,
+          request
+        );
+      }
+      return index;
+    }
+
+    const body = stableStringify(
+      ctx.body === undefined ? undefined : this.redact(ctx.body)
+    );
+    const index = this.exchanges.findIndex(
+      (e, i) =>
+        !this.used[i] &&
+        e.method === ctx.method &&
+        e.endpoint === ctx.endpoint &&
+        stableStringify(e.requestBody) === body
+    );
+    if (index === -1) {
+      throw new VisualpingReplayError(
+        `no recorded exchange matches ${call}`,
+        request
+      );
+    }
+    return index;
+  }
+}
+
+/**
+ * Read a fixture written by `HttpRecorder.save`
+ */
+export async function loadFixture(path: string): Promise<HttpFixture> {
+  const fixture = JSON.parse(await readFile(path, 'utf8')) as HttpFixture;
+  if (fixture?.version !== 1 || !Array.isArray(fixture.exchanges)) {
+    throw new VisualpingReplayError(`${path} is not a version 1 fixture`);
+  }
+  return fixture;
+}
+
+/**
+ * The server's message without the `Visualping API Error (status): ` prefix
+ */
+function apiErrorMessage(err: VisualpingApiError): string {
+  const prefix = `Visualping API Error (${err.status}): `;
+  return err.message.startsWith(prefix)
+    ? err.message.slice(prefix.length)
+    : err.message;
+}
+
+/**
+ * JSON with sorted object keys, so bodies compare independently of key order
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    typeof v === 'object' && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
+  );
+}
@@ -0,0 +1,28 @@
+const SECRET_KEY = /token|password|secret|authorization|email/i;
+
+const EMAIL_ADDRESS = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Deep copy of `value` with credential-like fields replaced by `[REDACTED]`.
+ * Email addresses inside other strings, e.g. descriptions, notification
+ * channels or error messages, are replaced too.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (typeof value === 'string') return value.replace(EMAIL_ADDRESS, REDACTED);
+  if (Array.isArray(value)) return value.map(redactSecrets);
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        SECRET_KEY.test(key) && typeof v === 'string'
+          ? REDACTED
+          : redactSecrets(v),
+      ])
+    );
+  }
+
+  return value;
+}
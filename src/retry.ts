@@ -0,0 +1,169 @@
+import { SECOND_MS } from './constants';
+import { sleep } from './abort';
+import {
+  VisualpingAbortError,
+  VisualpingApiError,
+  VisualpingTimeoutError,
+} from './error';
+import { Middleware, RequestContext } from './middleware';
+
+export interface RetryInfo {
+  method: string;
+  endpoint: string;
+  /** Attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt */
+  delayMs: number;
+  error: unknown;
+}
+
+/**
+ * When and how failed calls are retried.
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts including the first one.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry; doubles on every further retry.
+   * @default 200
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for a single delay. A `Retry-After` asking for longer than
+   * this is not retried.
+   * @default 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Fraction of each delay that is randomized (0 = none, 1 = full jitter).
+   * @default 0.5
+   */
+  jitter?: number;
+
+  /**
+   * Server statuses worth retrying.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatuses?: number[];
+
+  /**
+   * Retry when the client gave up waiting (`timeoutMs`). The server may
+   * still have processed the request.
+   * @default true
+   */
+  retryOnTimeout?: boolean;
+
+  /**
+   * Methods safe to send twice. Others are never retried, so e.g. a
+   * `createJob` POST that times out can't create a duplicate job.
+   * @default ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+   */
+  idempotentMethods?: string[];
+
+  /** Wait for the `Retry-After` header of 429/503 responses. @default true */
+  respectRetryAfter?: boolean;
+
+  /** Called before every retry */
+  onRetry?: (info: RetryInfo) => void | Promise<void>;
+}
+
+const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date).
+ *
+ * @returns Delay in milliseconds, or `null` when absent or malformed
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * SECOND_MS;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Retry transient failures of authenticated calls according to `policy`.
+ *
+ * Installed by the client by default. Pass `retry: false` in `ClientOptions`
+ * to place it elsewhere in your own middleware chain.
+ */
+export function retryMiddleware(policy: RetryPolicy = {}): Middleware {
+  const maxAttempts = policy.maxAttempts ?? 3;
+  const baseDelayMs = policy.baseDelayMs ?? 200;
+  const maxDelayMs = policy.maxDelayMs ?? 10 * SECOND_MS;
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? 0.5));
+  const retryableStatuses =
+    policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+  const retryOnTimeout = policy.retryOnTimeout ?? true;
+  const idempotentMethods = (
+    policy.idempotentMethods ?? DEFAULT_IDEMPOTENT_METHODS
+  ).map((m) => m.toUpperCase());
+  const respectRetryAfter = policy.respectRetryAfter ?? true;
+
+  const isRetryable = (ctx: RequestContext, err: unknown): boolean => {
+    if (!idempotentMethods.includes(ctx.method.toUpperCase())) return false;
+    if (err instanceof VisualpingAbortError) return false;
+
+    if (err instanceof VisualpingTimeoutError) return retryOnTimeout;
+    if (err instanceof VisualpingApiError) {
+      return retryableStatuses.includes(err.status);
+    }
+
+    // fetch threw before we got a response
+    return true;
+  };
+
+  const backoffMs = (attempt: number): number => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(delay * (1 - jitter * Math.random()));
+  };
+
+  return async (ctx, next) => {
+    if (!ctx.authenticated) return next(ctx);
+
+    let attempt = ctx.attempt;
+    while (true) {
+      try {
+        return await next({ ...ctx, attempt });
+      } catch (err) {
+        if (attempt >= maxAttempts || !isRetryable(ctx, err)) throw err;
+
+        let delayMs = backoffMs(attempt);
+        if (respectRetryAfter && err instanceof VisualpingApiError) {
+          const retryAfter = parseRetryAfter(err.headers?.get('Retry-After'));
+          if (retryAfter !== null) {
+            // the server asked for more than we are willing to wait
+            if (retryAfter > maxDelayMs) throw err;
+            delayMs = retryAfter;
+          }
+        }
+
+        await policy.onRetry?.({
+          method: ctx.method,
+          endpoint: ctx.endpoint,
+          attempt,
+          delayMs,
+          error: err,
+        });
+        await sleep(delayMs, ctx.signal);
+        attempt++;
+      }
+    }
+  };
+}
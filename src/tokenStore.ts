@@ -0,0 +1,264 @@
+import { randomUUID } from 'node:crypto';
+import {
+  mkdir,
+  open,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+} from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { SECOND_MS } from './constants';
+import { VisualpingLockTimeoutError } from './error';
+
+/**
+ * Persisted authentication state.
+ *
+ * Timestamps are epoch milliseconds so the set can be serialized as plain JSON
+ * by any store implementation.
+ */
+export interface TokenSet {
+  idToken: string | null;
+  refreshToken: string | null;
+  lastIdTokenRefresh: number | null;
+  lastRefreshTokenRefresh: number | null;
+}
+
+/**
+ * Storage backend for authentication tokens.
+ *
+ * Implement this to share a session between processes (file, Redis, a secret
+ * manager...). Stores shared by several processes should also implement
+ * `withLock` so only one of them logs in or refreshes at a time.
+ */
+export interface TokenStore {
+  get(): Promise<TokenSet | null>;
+  set(tokens: TokenSet): Promise<void>;
+  clear(): Promise<void>;
+
+  /**
+   * Run `fn` while holding an exclusive lock on the store.
+   * Optional - stores that are not shared between processes can omit it.
+   */
+  withLock?<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Default store - keeps tokens for the lifetime of the process only.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens: TokenSet | null = null;
+
+  async get(): Promise<TokenSet | null> {
+    return this.tokens ? { ...this.tokens } : null;
+  }
+
+  async set(tokens: TokenSet): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+export interface FileTokenStoreOptions {
+  /**
+   * Lock files older than this are considered abandoned and removed. The
+   * holder refreshes its lock while it runs, so only crashed holders go stale.
+   */
+  staleLockMs?: number;
+  /** Delay between attempts to acquire the lock. */
+  lockRetryMs?: number;
+  /** Give up acquiring the lock after this long, see `VisualpingLockTimeoutError`. */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * File-backed store so sessions survive process restarts.
+ *
+ * Writes are atomic (temp file + rename) and the file is created with `0600`
+ * permissions. Concurrent processes coordinate through a `<path>.lock` file
+ * holding the owner's token.
+ *
+ * @example
+ * ```ts
+ * const store = new FileTokenStore('/var/run/myapp/visualping-tokens.json');
+ * const client = new VisualpingClient(email, password, 30000, store);
+ * ```
+ */
+export class FileTokenStore implements TokenStore {
+  readonly path: string;
+  private staleLockMs: number;
+  private lockRetryMs: number;
+  private lockTimeoutMs: number;
+
+  constructor(path: string, options: FileTokenStoreOptions = {}) {
+    this.path = path;
+    this.staleLockMs = options.staleLockMs ?? 30 * SECOND_MS;
+    this.lockRetryMs = options.lockRetryMs ?? 50;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 60 * SECOND_MS;
+  }
+
+  async get(): Promise<TokenSet | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Partial<TokenSet>;
+      return {
+        idToken: parsed.idToken ?? null,
+        refreshToken: parsed.refreshToken ?? null,
+        lastIdTokenRefresh: parsed.lastIdTokenRefresh ?? null,
+        lastRefreshTokenRefresh: parsed.lastRefreshTokenRefresh ?? null,
+      };
+    } catch {
+      // A corrupt file is treated as an empty session
+      return null;
+    }
+  }
+
+  async set(tokens: TokenSet): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+
+    const tmpPath = `${this.path}.${randomUUID()}.tmp`;
+    const handle = await open(tmpPath, 'w', 0o600);
+    try {
+      await handle.writeFile(JSON.stringify(tokens));
+    } finally {
+      await handle.close();
+    }
+    await rename(tmpPath, this.path);
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.path, { force: true });
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.path}.lock`;
+    const token = randomUUID();
+    await mkdir(dirname(this.path), { recursive: true });
+
+    const deadline = Date.now() + this.lockTimeoutMs;
+    while (true) {
+      try {
+        const handle = await open(lockPath, 'wx', 0o600);
+        try {
+          await handle.writeFile(token);
+        } finally {
+          await handle.close();
+        }
+        break;
+      } catch (err) {
+        if (!isAlreadyExists(err)) throw err;
+      }
+
+      if (await this.removeStaleLock(lockPath)) continue;
+
+      if (Date.now() > deadline) {
+        throw new VisualpingLockTimeoutError(lockPath, this.lockTimeoutMs);
+      }
+
+      await new Promise((r) => setTimeout(r, this.lockRetryMs));
+    }
+
+    // keep the lock fresh so waiters don't take over a slow holder
+    const heartbeat = setInterval(
+      () => {
+        void this.touchLock(lockPath, token);
+      },
+      Math.max(10, Math.floor(this.staleLockMs / 3))
+    );
+    heartbeat.unref();
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      if ((await readLockOwner(lockPath)) === token) {
+        await rm(lockPath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Remove the lock if it is stale. The lock is never moved: it is only
+   * unlinked once the same owner and mtime are seen twice, so a lock
+   * re-acquired or refreshed in between is left alone.
+   *
+   * @returns Whether a stale lock was removed
+   */
+  private async removeStaleLock(lockPath: string): Promise<boolean> {
+    const seen = await this.readLock(lockPath);
+    if (!seen || Date.now() - seen.mtimeMs <= this.staleLockMs) return false;
+
+    const current = await this.readLock(lockPath);
+    if (
+      !current ||
+      current.owner !== seen.owner ||
+      current.mtimeMs !== seen.mtimeMs
+    ) {
+      return false;
+    }
+    await rm(lockPath, { force: true });
+    return true;
+  }
+
+  private async readLock(
+    lockPath: string
+  ): Promise<{ owner: string; mtimeMs: number } | null> {
+    try {
+      const { mtimeMs } = await stat(lockPath);
+      const owner = await readLockOwner(lockPath);
+      return owner === undefined ? null : { owner, mtimeMs };
+    } catch (err) {
+      // Lock was released between open() and stat()
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  private async touchLock(lockPath: string, token: string): Promise<void> {
+    try {
+      if ((await readLockOwner(lockPath)) === token) {
+        const now = new Date();
+        await utimes(lockPath, now, now);
+      }
+    } catch {
+      // released meanwhile; the next attempt or `finally` settles it
+    }
+  }
+}
+
+/**
+ * Owner token of a lock file, `undefined` once it's gone
+ */
+async function readLockOwner(lockPath: string): Promise<string | undefined> {
+  try {
+    return await readFile(lockPath, 'utf8');
+  } catch (err) {
+    if (isNotFound(err)) return undefined;
+    throw err;
+  }
+}
+
+function errorCode(err: unknown): unknown {
+  return typeof err === 'object' && err !== null && 'code' in err
+    ? err.code
+    : undefined;
+}
+
+function isNotFound(err: unknown): boolean {
+  return errorCode(err) === 'ENOENT';
+}
+
+function isAlreadyExists(err: unknown): boolean {
+  return errorCode(err) === 'EEXIST';
+}
@@ -0,0 +1,449 @@
+import { ConsumptionOptions } from '../consumption';
+import { JobExportFormat } from '../jobExport';
+import { Middleware } from '../middleware';
+import { RateLimitOptions } from '../rateLimit';
+import { RetryPolicy } from '../retry';
+import { TokenStore } from '../tokenStore';
+import { JobChange, JobHistory } from './api/common';
+import { CreateJobRequest } from './api/request/createJob';
+import { GetJobsParams } from './api/request/getJobs';
+import { UpdateJobRequest } from './api/request/updateJob';
+import { Workspace } from './api/response/describeUser';
+import { FullJobDetails } from './api/response/getJob';
+import {
+  EstimatedConsumption,
+  UpdateJobDetails,
+} from './api/response/updateJob';
+
+/**
+ * Base URL overrides, e.g. for a staging host or a local stand-in server.
+ * Each defaults to the production Visualping host.
+ */
+export interface BaseUrls {
+  /** Token endpoint host. @default "https://api.visualping.io/v2" */
+  api?: string;
+  /** Account endpoints (`/describe-user`). @default "https://account.api.visualping.io" */
+  account?: string;
+  /** Job endpoints (`/jobs`). @default "https://job.api.visualping.io/v2" */
+  job?: string;
+}
+
+/**
+ * Optional client configuration
+ */
+export interface ClientOptions {
+  /**
+   * Per-request timeout in milliseconds.
+   * @default 30000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Where tokens are persisted. Use a shared store (e.g. `FileTokenStore`)
+   * to reuse sessions across process restarts.
+   * @default MemoryTokenStore
+   */
+  tokenStore?: TokenStore;
+
+  /**
+   * Refresh tokens this long before the expiry in their `exp` claim.
+   * @default 300000 (5 minutes)
+   */
+  tokenRefreshMarginMs?: number;
+
+  /** Base URL overrides */
+  baseUrls?: BaseUrls;
+
+  /**
+   * Custom fetch implementation, e.g. one routed through an egress proxy.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /** `User-Agent` header sent with every request */
+  userAgent?: string;
+
+  /** Extra headers sent with every request, auth token calls included */
+  headers?: Record<string, string>;
+
+  /**
+   * Middlewares run in order around every HTTP call, auth token calls
+   * included. They run outside the built-in retries, so each sees one
+   * logical call.
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Middlewares run inside the built-in retries, once per HTTP attempt,
+   * e.g. `HttpRecorder` and `HttpReplayer` so retried attempts are recorded
+   * and replayed one by one.
+   */
+  attemptMiddleware?: Middleware[];
+
+  /**
+   * Retry policy for authenticated calls. `false` disables the built-in
+   * retries, e.g. to add `retryMiddleware()` at another position yourself.
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * Client-side rate limiting and concurrency control. Every attempt of
+   * every call waits for a slot. Unlimited by default.
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Runtime checks of response bodies against the response types.
+   * - `strict` throws a `VisualpingResponseValidationError`
+   * - `lenient` logs a warning and returns the data as-is
+   * - `off` skips the checks
+   * @default 'off'
+   */
+  validation?: ValidationMode;
+
+  /**
+   * Run `validateJob()` before `createJob`/`updateJob` and throw a
+   * `VisualpingJobValidationError` instead of sending an invalid job.
+   * Costs one extra `describeUser()` call per job.
+   * @default false
+   */
+  validateJobs?: boolean;
+
+  /**
+   * Check the workspace's active job limit before `createJob` creates an
+   * active job or `updateJob` activates one, bulk operations included.
+   * `true` uses the defaults of `QuotaGuardOptions`.
+   * @default false
+   */
+  quotaGuard?: boolean | QuotaGuardOptions;
+}
+
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+/**
+ * What happens to a job that would exceed the active job limit:
+ * - `throw` a `VisualpingQuotaError` without sending the request
+ * - `pause` sends it with `active: false`
+ * - `allow` sends it unchanged
+ */
+export type QuotaPolicy = 'throw' | 'pause' | 'allow';
+
+export interface QuotaGuardOptions {
+  /**
+   * Policy for every blocked job, or a function choosing one per job
+   * @default 'throw'
+   */
+  policy?: QuotaPolicy | ((exceeded: QuotaExceeded) => QuotaPolicy);
+
+  /**
+   * How long the limits and counts of one `describeUser()` call are reused.
+   * Jobs activated by this client in the meantime are counted locally.
+   * @default 60000
+   */
+  cacheTtlMs?: number;
+}
+
+/**
+ * A job blocked by the quota guard
+ */
+export interface QuotaExceeded {
+  /** `undefined` for the personal workspace */
+  workspaceId?: number;
+  operation: 'create' | 'activate';
+  /** Set for activations */
+  jobId?: number | string;
+  /** Active jobs, including the ones this client activated since the snapshot */
+  activeJobCount: number;
+  /** `maxActiveJobsPerWorkspace` of the plan, when it has one */
+  limit?: number;
+  /** The workspace already reports `activeJobOverflow` */
+  overflow: boolean;
+}
+
+/**
+ * Options accepted by every public client method
+ */
+export interface CallOptions {
+  /** Cancels the call, including retries, rate-limit waits and pagination */
+  signal?: AbortSignal;
+  /** Per-request timeout overriding the client's `timeoutMs` */
+  timeoutMs?: number;
+}
+
+/**
+ * Options of the paginating methods (`iterateJobs`, `iterateJobPages`)
+ */
+export interface PaginationOptions extends CallOptions {
+  /**
+   * Pages requested ahead while the current one is consumed.
+   * `0` fetches strictly one page at a time.
+   * @default 1
+   */
+  prefetch?: number;
+
+  /**
+   * How to handle jobs created or deleted while the scan is running, which
+   * shifts pages and can skip or repeat jobs:
+   * - `none` yields pages as received
+   * - `dedupe` drops jobs already yielded
+   * - `rescan` dedupes, and walks all pages again when `totalJobs` changed
+   *   during the scan, so jobs shifted into visited pages are picked up
+   * - `strict` throws a `VisualpingPaginationError` as soon as `totalJobs`
+   *   changes
+   *
+   * Outside `none`, jobs are sorted by `id_asc` unless `sortBy` is given,
+   * so new jobs land on the last pages.
+   * @default 'dedupe'
+   */
+  consistency?: PaginationConsistency;
+
+  /**
+   * Maximum number of extra passes in `rescan` mode
+   * @default 2
+   */
+  maxRescans?: number;
+
+  /** Called whenever `totalJobs` differs from the previous page, in any mode */
+  onInconsistency?: (info: PaginationInconsistency) => void;
+}
+
+export type PaginationConsistency = 'none' | 'dedupe' | 'rescan' | 'strict';
+
+export interface PaginationInconsistency {
+  /** Page on which the change was seen */
+  pageIndex: number;
+  /** `totalJobs` of the previous page */
+  previousTotalJobs: number;
+  totalJobs: number;
+  /** 0 for the first pass, 1+ for rescans */
+  pass: number;
+}
+
+/**
+ * Job ID with its workspace, yielded by `iterateJobs` in
+ * `OutputMode.IDS_AND_WS_IDS` mode
+ */
+export interface JobRef {
+  id: number;
+  workspaceId: number;
+}
+
+/**
+ * Options of the bulk job methods (`pauseJobs`, `updateJobs`...)
+ */
+export interface BulkOptions extends CallOptions {
+  /**
+   * Jobs processed at the same time, a positive integer
+   * @default 5
+   */
+  concurrency?: number;
+
+  /**
+   * Skip the remaining jobs after the first failure
+   * @default false
+   */
+  stopOnError?: boolean;
+}
+
+export type BulkJobResult<T> =
+  | { jobId: number | string; status: 'succeeded'; result: T }
+  | { jobId: number | string; status: 'failed'; error: unknown }
+  | { jobId: number | string; status: 'skipped'; reason: string };
+
+/**
+ * Outcome of a bulk operation, one entry per job in input order
+ */
+export interface BulkReport<T> {
+  results: BulkJobResult<T>[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface BulkUpdateReport extends BulkReport<UpdateJobDetails> {
+  /** Sum of the `estimatedConsumption` of every successful update */
+  estimatedConsumption: EstimatedConsumption;
+}
+
+/**
+ * Patch for one job of `updateJobs`, or `null`/`undefined` to skip it
+ */
+export type JobPatchFn = (
+  jobId: number | string
+) =>
+  | UpdateJobRequest
+  | null
+  | undefined
+  | Promise<UpdateJobRequest | null | undefined>;
+
+/**
+ * What `watchJobs` has already reported for a job. Persist it from
+ * `JobWatchEvent.cursor` and pass it back through `cursors` to resume
+ * without replaying old events.
+ */
+export interface JobWatchCursor {
+  /** `created` of the newest change reported, epoch ms */
+  lastChangeAt: number | null;
+  /** `created` of the newest history entry seen, epoch ms */
+  lastHistoryAt: number | null;
+  active: boolean;
+  inProgress: boolean;
+  /** `last_run` of the job at the previous poll */
+  lastRun?: string | null;
+}
+
+interface JobWatchEventBase {
+  jobId: number | string;
+  job: FullJobDetails;
+  /** The job's cursor including this event */
+  cursor: JobWatchCursor;
+}
+
+export type JobWatchEventData =
+  /** A new change was detected */
+  | { type: 'change'; change: JobChange }
+  /** A new history entry carries an `error_message` */
+  | { type: 'checkError'; entry: JobHistory }
+  /** The job was paused */
+  | { type: 'inactive' }
+  /**
+   * A run finished since the previous poll - `in_progress` went back to
+   * false, or a new history entry or `last_run` appeared - with the newest
+   * history entry
+   */
+  | { type: 'runFinished'; entry?: JobHistory };
+
+/**
+ * Polling one job failed, e.g. a 5xx after retries ran out. The job is
+ * polled again after `pollIntervalMs`; the other jobs are unaffected.
+ */
+export interface JobWatchPollError {
+  type: 'pollError';
+  jobId: number | string;
+  error: unknown;
+  /** The job's cursor, unless it was never polled successfully */
+  cursor?: JobWatchCursor;
+}
+
+export type JobWatchEvent =
+  | (JobWatchEventBase & JobWatchEventData)
+  | JobWatchPollError;
+
+export interface WatchOptions extends CallOptions {
+  /**
+   * Minimum time between two polls of the same job
+   * @default 60000
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Maximum time between two polls of the same job, even when its
+   * `next_run` is further away
+   * @default 3600000
+   */
+  maxPollIntervalMs?: number;
+
+  /**
+   * Delay after a job's `next_run` before polling it, giving the run time
+   * to finish
+   * @default 30000
+   */
+  runGraceMs?: number;
+
+  /** Workspace of the watched jobs. Mandatory for business users. */
+  workspaceId?: number | string;
+
+  /** Cursors from a previous watch, keyed by job ID */
+  cursors?: Record<string, JobWatchCursor>;
+}
+
+export interface JobExportParams extends Omit<
+  GetJobsParams,
+  'mode' | 'pageIndex'
+> {
+  /** @default 'json' */
+  format?: JobExportFormat;
+}
+
+/**
+ * What `importJobs` does with a job whose workspace, mode and url match an
+ * existing job:
+ * - `skip` leaves the existing job alone
+ * - `update` overwrites its configuration with the imported one
+ * - `duplicate` creates the job anyway
+ */
+export type JobImportConflict = 'skip' | 'update' | 'duplicate';
+
+export interface JobImportParams {
+  /** Workspace the jobs are created in. Mandatory for business users. */
+  targetWorkspaceId?: number;
+
+  /** Mandatory for business users when `conflict` is `update` */
+  organisationId?: number;
+
+  /** @default 'skip' */
+  conflict?: JobImportConflict;
+
+  /** Detected from the file content when omitted */
+  format?: JobExportFormat;
+}
+
+/**
+ * A planned change for `estimateConsumption`: a job to create, or the
+ * changes of an update with its `jobId`
+ */
+export type ConsumptionChange =
+  | CreateJobRequest
+  | (UpdateJobRequest & { jobId: number });
+
+export interface ConsumptionParams extends ConsumptionOptions {
+  /**
+   * Workspace whose balance is checked, else the `workspaceId` of the first
+   * change, else the personal workspace
+   */
+  workspaceId?: number;
+}
+
+export interface WorkspaceClientOptions {
+  /**
+   * Organisation ID sent with updates. Resolved from
+   * `describeUser().organisation` on first use when omitted.
+   */
+  organisationId?: number;
+}
+
+export type WorkspaceRunResult<T> =
+  | {
+      workspaceId: number;
+      workspace: Workspace;
+      status: 'succeeded';
+      result: T;
+    }
+  | {
+      workspaceId: number;
+      workspace: Workspace;
+      status: 'failed';
+      error: unknown;
+    }
+  | {
+      workspaceId: number;
+      workspace: Workspace;
+      status: 'skipped';
+      reason: string;
+    };
+
+/**
+ * Outcome of `forEachWorkspace`, one entry per workspace in `getWorkspaces()`
+ * order
+ */
+export interface WorkspaceRunReport<T> {
+  results: WorkspaceRunResult<T>[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ForEachWorkspaceOptions extends BulkOptions {
+  /** Only run for the workspaces it returns `true` for */
+  filter?: (workspace: Workspace) => boolean;
+}
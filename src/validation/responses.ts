@@ -0,0 +1,649 @@
+import {
+  ChangeFeedback,
+  Diff,
+  JobChange,
+  JobCrop,
+  JobHistory,
+  JobMode,
+  JobSummalyzerSettings,
+  KeywordConfig,
+  KeywordConfigItem,
+  LegacyAdvancedSchedule,
+  LegacyJobPreactions,
+  MinimalJob,
+  NotificationChannelConfig,
+  NotificationConfig,
+  NotificationConfigChannels,
+  SuggestedTargetXpath,
+  TargetDevice,
+} from '../types/api/common';
+import {
+  PasswordRefreshResp,
+  TokenRefreshResp,
+} from '../types/api/response/auth.types';
+import { CreatedJobResult } from '../types/api/response/createJob';
+import { DeleteJobResult } from '../types/api/response/deleteJob';
+import {
+  AccountFeatureSet,
+  Address,
+  Balances,
+  BillingDetails,
+  CcEmailsFeature,
+  Counts,
+  CreditCardInfo,
+  ExtraProductItem,
+  ExtraProducts,
+  FeatureFlag,
+  FeatureWithValue,
+  NotificationMember,
+  Organisation,
+  PersonalWorkspace,
+  Product,
+  SlackInstallation,
+  Subscription,
+  SubscriptionItem,
+  SupportFeature,
+  UserBillingDetails,
+  VisualpingUser,
+  Workspace,
+} from '../types/api/response/describeUser';
+import { FullJobDetails } from '../types/api/response/getJob';
+import {
+  JobIdsByWsId,
+  JobsCountsOnlyResponse,
+  JobsIdsAndWsIdsResponse,
+  JobsIdsOnlyResponse,
+  JobsNormalResponse,
+} from '../types/api/response/getJobs';
+import {
+  EstimatedConsumption,
+  JobUpdateImpact,
+  UpdateJobDetails,
+} from '../types/api/response/updateJob';
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  Schema,
+  string,
+  unknown,
+} from './schema';
+
+// --------------------
+// COMMON
+// --------------------
+
+const jobMode = oneOf(Object.values(JobMode));
+const targetDevice = oneOf(Object.values(TargetDevice));
+const keywordAction = oneOf(['ALL', 'ADDED', 'DELETED'] as const);
+const retentionPolicy = oneOf(['3', '12'] as const);
+const feedbackType = oneOf(['GOOD', 'BAD'] as const);
+
+export const minimalJobSchema = object<MinimalJob>(
+  {
+    id: number(),
+    url: string(),
+    description: string(),
+    isActive: boolean(),
+    faviconKey: string(),
+    mode: jobMode,
+    inProgress: boolean(),
+    workspaceId: optional(number()),
+    labelIds: optional(array(number())),
+    notificationThreshold: number(),
+    interval: number(),
+    isSpiderJob: optional(boolean()),
+  },
+  'MinimalJob'
+);
+
+const jobCropSchema = object<JobCrop>({
+  x: number(),
+  y: number(),
+  width: number(),
+  height: number(),
+});
+
+const suggestedTargetXpathSchema = object<SuggestedTargetXpath>({
+  parent: string(),
+  'strict-move': string(),
+  'xpath-match': string(),
+});
+
+const diffSchema = object<Diff>({
+  nodePercentDiff: number(),
+  areaPercentDiff: number(),
+  wordPercentDiff: number(),
+  pixelPercentDiff: number(),
+  suggestedTargetXpath: suggestedTargetXpathSchema,
+  VISUAL: number(),
+  TEXT: number(),
+});
+
+const jobHistorySchema = object<JobHistory>(
+  {
+    image: string(),
+    image_uncropped: string(),
+    screenshot_id: string(),
+    crop_dimensions: string(),
+    PercentDifference: number(),
+    diff: diffSchema,
+    process_log_id: string(),
+    error_log_id: string(),
+    error_message: string(),
+    error_label: string(),
+    created: string(),
+    notification_send: boolean(),
+    process_id: string(),
+    process_created: string(),
+    initial: boolean(),
+    mode: jobMode,
+  },
+  'JobHistory'
+);
+
+const jobChangeSchema = object<JobChange>(
+  {
+    mode: jobMode,
+    created: string(),
+    id: string(),
+    process_id: number(),
+    PercentDifference: number(),
+    diff: diffSchema,
+    thumb_diff_full: string(),
+    thumb_diff_90: string(),
+    htmlDiffUrl: string(),
+    target: oneOf(['DIFF', 'SUMMARY'] as const),
+    feedback: object<ChangeFeedback>({
+      DIFF: feedbackType,
+      SUMMARY: feedbackType,
+    }),
+    englishSummary: string(),
+    analyzerAlertTriggered: boolean(),
+  },
+  'JobChange'
+);
+
+const keywordConfigSchema = object<KeywordConfig>({
+  list: array(
+    object<KeywordConfigItem>({
+      keyword: string(),
+      action: keywordAction,
+      type: oneOf(['REGEX', 'EXACT'] as const),
+    })
+  ),
+});
+
+const preactionsSchema = object<LegacyJobPreactions>({
+  active: optional(boolean()),
+  actions: optional(array(record(unknown()))),
+});
+
+const advancedScheduleSchema = object<LegacyAdvancedSchedule>({
+  stop_time: number(),
+  start_time: number(),
+  active_days: array(number()),
+});
+
+const channelSchema = object<NotificationChannelConfig>({
+  url: string(),
+  active: boolean(),
+  notificationType: oneOf([
+    'slack',
+    'teams',
+    'webhook',
+    'discord',
+    'slack_app',
+    'google_sheets',
+    'google_chat',
+  ] as const),
+  channels: array(string()),
+});
+
+const notificationSchema = object<NotificationConfig>({
+  enableSmsAlert: boolean(),
+  enableEmailAlert: boolean(),
+  onlyImportantAlerts: boolean(),
+  config: object<NotificationConfigChannels>({
+    slack: channelSchema,
+    teams: channelSchema,
+    webhook: channelSchema,
+    discord: channelSchema,
+    slack_app: channelSchema,
+    google_sheets: channelSchema,
+    google_chat: channelSchema,
+  }),
+});
+
+const summalyzerSchema = object<JobSummalyzerSettings>({
+  importantDefinition: optional(string()),
+  importantDefinitionType: optional(
+    oneOf(['custom', 'none', 'default'] as const)
+  ),
+});
+
+// --------------------
+// AUTH
+// --------------------
+
+export const passwordRefreshRespSchema = object<PasswordRefreshResp>(
+  {
+    id_token: string(),
+    refresh_token: string(),
+  },
+  'PasswordRefreshResp'
+);
+
+export const tokenRefreshRespSchema = object<TokenRefreshResp>(
+  {
+    id_token: string(),
+  },
+  'TokenRefreshResp'
+);
+
+// --------------------
+// DESCRIBE USER
+// --------------------
+
+const notificationMemberSchema = object<NotificationMember>({
+  id: number(),
+  type: oneOf(['ccEmail', 'phone'] as const),
+  value: string(),
+  confirmed: boolean(),
+});
+
+const creditCardSchema = object<CreditCardInfo>({
+  brand: string(),
+  lastFourDigits: string(),
+});
+
+const billingDetailsShape = {
+  address: optional(
+    object<Address>({
+      city: optional(string()),
+      country: optional(string()),
+      line1: optional(string()),
+      line2: optional(string()),
+      postalCode: optional(string()),
+      state: optional(string()),
+    })
+  ),
+  email: optional(string()),
+  firstName: optional(string()),
+  lastName: optional(string()),
+  companyName: optional(string()),
+  taxId: optional(string()),
+  phoneNumber: optional(string()),
+  creditCard: optional(creditCardSchema),
+};
+
+const billingDetailsSchema = object<BillingDetails>(billingDetailsShape);
+const userBillingDetailsSchema =
+  object<UserBillingDetails>(billingDetailsShape);
+
+const featureFlagSchema = object<FeatureFlag>({ enabled: boolean() });
+const featureWithValueSchema = object<FeatureWithValue<number>>({
+  enabled: boolean(),
+  value: number(),
+});
+
+const accountFeatureSetSchema: Schema<AccountFeatureSet> = record(
+  optional(featureFlagSchema)
+);
+
+// Known features are checked more precisely than the open-ended record
+const knownAccountFeaturesSchema = object<
+  Pick<
+    AccountFeatureSet,
+    'maxActiveJobsPerWorkspace' | 'maxJobFrequency' | 'seatCount'
+  > & { support?: SupportFeature; ccEmails?: CcEmailsFeature }
+>({
+  maxActiveJobsPerWorkspace: optional(featureWithValueSchema),
+  maxJobFrequency: optional(featureWithValueSchema),
+  seatCount: optional(featureWithValueSchema),
+  support: optional(
+    object<SupportFeature>({
+      enabled: boolean(),
+      duration: number(),
+      responseTime: number(),
+    })
+  ),
+  ccEmails: optional(
+    object<CcEmailsFeature>({ enabled: boolean(), maxAddressCount: number() })
+  ),
+});
+
+const accountFeaturesSchema: Schema<AccountFeatureSet> = {
+  description: 'AccountFeatureSet',
+  check: (value, path) => {
+    const issues = accountFeatureSetSchema.check(value, path);
+    return issues.length > 0
+      ? issues
+      : knownAccountFeaturesSchema.check(value, path);
+  },
+};
+
+const productSchema = object<Product>(
+  {
+    name: string(),
+    type: oneOf(['plan', 'add-on', 'misc'] as const),
+    subType: oneOf([
+      'free',
+      'payg',
+      'personal',
+      'business',
+      'custom',
+      'misc',
+      'trial_active',
+      'trial_ended',
+      'additional_pages',
+      'support',
+      'inactive',
+    ] as const),
+    isMostPopular: boolean(),
+    availability: oneOf([
+      'none',
+      'pricing_page_only',
+      'subscription_page_only',
+      'both_pricing_and_subscription_pages',
+    ] as const),
+    price: optional(number()),
+    credits: optional(number()),
+    billingPeriod: oneOf(['monthly', 'yearly'] as const),
+    stripeId: optional(string()),
+    paypalId: optional(string()),
+    label: optional(string()),
+    accountFeatureSet: optional(accountFeaturesSchema),
+    otherPeriodEquivalentProductName: optional(string()),
+    latestGenEquivalentProductName: optional(string()),
+  },
+  'Product'
+);
+
+const subscriptionSchema = object<Subscription>(
+  {
+    createdAt: string(),
+    activatedAt: optional(string()),
+    groupId: optional(number()),
+    items: array(
+      object<SubscriptionItem>({
+        name: string(),
+        type: oneOf(['plan', 'additional_pages', 'support'] as const),
+        quantity: number(),
+        remoteSubscriptionItemId: optional(string()),
+      })
+    ),
+    upcomingPlanName: optional(string()),
+    upcomingPlanEffectiveAt: unknown(),
+    provider: oneOf(['stripe', 'paypal', 'cheque', 'terminal'] as const),
+    nextBillingAt: optional(string()),
+    lastSuccessPaymentAt: optional(string()),
+    creditCard: optional(creditCardSchema),
+    billingDetails: optional(billingDetailsSchema),
+    status: oneOf(['active', 'cancelled', 'update'] as const),
+  },
+  'Subscription'
+);
+
+const balancesSchema = object<Balances>(
+  {
+    credits: optional(number()),
+    subscriptionCredits: optional(number()),
+    nextCreditRenewalAt: optional(string()),
+    estimatedMonthlyConsumption: optional(number()),
+    inOverConsumption: optional(boolean()),
+  },
+  'Balances'
+);
+
+const countsSchema = object<Counts>(
+  {
+    activeJobCount: number(),
+    activeJobFreeCount: optional(number()),
+    activeJobOverflow: boolean(),
+    activeUserCount: number(),
+    activeUserFreeCount: optional(number()),
+    activeUserOverflow: boolean(),
+  },
+  'Counts'
+);
+
+const role = oneOf([
+  'ADMIN',
+  'BASIC',
+  'EDITOR',
+  'SUPERADMIN',
+  'VIEWER',
+] as const);
+
+const extraProductItems = optional(
+  array(object<ExtraProductItem>({ name: string(), quantity: number() }))
+);
+
+const workspaceSchema = object<Workspace>(
+  {
+    notificationMembers: optional(array(notificationMemberSchema)),
+    extraProducts: optional(
+      object<ExtraProducts>({
+        free: extraProductItems,
+        payg: extraProductItems,
+        personal: extraProductItems,
+        business: extraProductItems,
+        custom: extraProductItems,
+        misc: extraProductItems,
+        trial_active: extraProductItems,
+        trial_ended: extraProductItems,
+        additional_pages: extraProductItems,
+        support: extraProductItems,
+        inactive: extraProductItems,
+      })
+    ),
+    status: optional(
+      oneOf(['active', 'cancellation_requested', 'deleted'] as const)
+    ),
+    id: number(),
+    name: string(),
+    plan: optional(productSchema),
+    role,
+    timeZone: optional(string()),
+    accountFeatures: accountFeaturesSchema,
+    promptId: optional(string()),
+    balances: balancesSchema,
+    counts: countsSchema,
+  },
+  'Workspace'
+);
+
+const personalWorkspaceSchema = object<PersonalWorkspace>(
+  {
+    plan: productSchema,
+    subscription: optional(subscriptionSchema),
+    pendingInviteOrgId: optional(number()),
+    groupId: optional(number()),
+    groupCompanyName: optional(string()),
+    notificationMembers: optional(array(notificationMemberSchema)),
+    allowBusinessTrial: optional(boolean()),
+    timeZone: optional(string()),
+    accountFeatures: accountFeaturesSchema,
+    promptId: optional(string()),
+    balances: balancesSchema,
+    counts: countsSchema,
+  },
+  'PersonalWorkspace'
+);
+
+const organisationSchema = object<Organisation>(
+  {
+    subscription: optional(subscriptionSchema),
+    isSsoActive: boolean(),
+    verifiedDomain: optional(string()),
+    trialEndDate: optional(string()),
+    userHasPersonalSubscription: boolean(),
+    logoUrl: optional(string()),
+    id: number(),
+    name: string(),
+    plan: optional(productSchema),
+    role,
+    timeZone: optional(string()),
+    accountFeatures: accountFeaturesSchema,
+    promptId: optional(string()),
+    balances: balancesSchema,
+    counts: countsSchema,
+  },
+  'Organisation'
+);
+
+export const visualpingUserSchema = object<VisualpingUser>(
+  {
+    userId: number(),
+    emailAddress: string(),
+    phoneNumberNotificationMember: optional(notificationMemberSchema),
+    country: optional(string()),
+    locale: optional(string()),
+    timeZone: optional(string()),
+    firstName: optional(string()),
+    lastName: optional(string()),
+    jobTitle: optional(string()),
+    avatarUrl: optional(string()),
+    billingDetails: optional(userBillingDetailsSchema),
+    slackInstallationStatus: optional(
+      object<SlackInstallation>({
+        initialHandshake: optional(oneOf(['success', 'error'] as const)),
+        privateChannelHandshake: optional(oneOf(['success', 'error'] as const)),
+      })
+    ),
+    googleChatIntegrated: optional(boolean()),
+    organisationIds: optional(array(number())),
+    personalWorkspace: optional(personalWorkspaceSchema),
+    organisation: optional(organisationSchema),
+    workspaces: array(workspaceSchema),
+    intentForBusiness: optional(boolean()),
+    refreshToken: optional(boolean()),
+  },
+  'VisualpingUser'
+);
+
+// --------------------
+// JOBS
+// --------------------
+
+const jobsMetaShape = {
+  totalJobs: number(),
+  activeJobCount: number(),
+  pageSize: number(),
+  totalPages: number(),
+  pageIndex: number(),
+};
+
+export const jobsNormalResponseSchema = object<JobsNormalResponse>(
+  { ...jobsMetaShape, jobs: array(minimalJobSchema) },
+  'JobsNormalResponse'
+);
+
+export const jobsIdsOnlyResponseSchema = object<JobsIdsOnlyResponse>(
+  { ...jobsMetaShape, jobIds: array(number()) },
+  'JobsIdsOnlyResponse'
+);
+
+export const jobsIdsAndWsIdsResponseSchema = object<JobsIdsAndWsIdsResponse>(
+  {
+    ...jobsMetaShape,
+    jobIdsByWsId: array(
+      object<JobIdsByWsId>({ workspaceId: number(), ids: array(number()) })
+    ),
+  },
+  'JobsIdsAndWsIdsResponse'
+);
+
+export const jobsCountsOnlyResponseSchema = object<JobsCountsOnlyResponse>(
+  jobsMetaShape,
+  'JobsCountsOnlyResponse'
+);
+
+export const fullJobDetailsSchema = object<FullJobDetails>(
+  {
+    id: string(),
+    disable_id: string(),
+    interval: number(),
+    customer_id: string(),
+    error_count: number(),
+    in_progress: boolean(),
+    runs: number(),
+    history: array(jobHistorySchema),
+    changes: array(jobChangeSchema),
+    notification_threshold: number(),
+    contentType: string(),
+    scheduled_at: string(),
+    last_run: string(),
+    next_run: string(),
+    rss_path: string(),
+    thumb_full: string(),
+    thumb_150: string(),
+    favicon: string(),
+    active: boolean(),
+    description: string(),
+    url: string(),
+    mode: jobMode,
+    crop: jobCropSchema,
+    proxy_id: number(),
+    prompt_id: nullable(string()),
+    xpath: nullable(string()),
+    keyword_action: keywordAction,
+    keyword_config: keywordConfigSchema,
+    keywords: string(),
+    disable_js: boolean(),
+    enable_cookies_and_ad_blocker: boolean(),
+    page_height: unknown(),
+    target_device: targetDevice,
+    wait_time: number(),
+    preactions: preactionsSchema,
+    advanced_schedule: advancedScheduleSchema,
+    notification: notificationSchema,
+    retention_policy: retentionPolicy,
+    alert_error: boolean(),
+    summalyzer: summalyzerSchema,
+    labelIds: array(number()),
+  },
+  'FullJobDetails'
+);
+
+export const createdJobResultSchema = object<CreatedJobResult>(
+  {
+    jobid: string(),
+    id: string(),
+  },
+  'CreatedJobResult'
+);
+
+const jobUpdateImpact = oneOf(Object.values(JobUpdateImpact));
+
+export const updateJobDetailsSchema = object<UpdateJobDetails>(
+  {
+    updates: jobUpdateImpact,
+    estimatedConsumption: object<EstimatedConsumption>({
+      daily: number(),
+      weekly: number(),
+      monthly: number(),
+    }),
+    result: optional(
+      object<NonNullable<UpdateJobDetails['result']>>({
+        jobId: number(),
+        impact: jobUpdateImpact,
+      })
+    ),
+  },
+  'UpdateJobDetails'
+);
+
+export const deleteJobResultSchema = object<DeleteJobResult>(
+  {
+    changed: boolean(),
+    deletedJobIds: array(number()),
+  },
+  'DeleteJobResult'
+);
@@ -0,0 +1,158 @@
+/**
+ * Minimal runtime schemas for checking API responses.
+ *
+ * Deliberately tiny so the package keeps zero runtime dependencies. Object
+ * schemas are typed against the existing interfaces, so a schema missing a
+ * field of its interface fails to compile.
+ */
+
+export interface ValidationIssue {
+  /** JSONPath-like location, e.g. `$.jobs[3].id` */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly description: string;
+  check(value: unknown, path: string): ValidationIssue[];
+  /** Phantom field carrying the validated type */
+  readonly _type?: T;
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string ${JSON.stringify(value)}`;
+  if (typeof value === 'number') return `number ${value}`;
+  return typeof value;
+}
+
+function primitive<T>(
+  description: string,
+  test: (value: unknown) => boolean
+): Schema<T> {
+  return {
+    description,
+    check: (value, path) =>
+      test(value)
+        ? []
+        : [{ path, expected: description, received: describeValue(value) }],
+  };
+}
+
+export const string = (): Schema<string> =>
+  primitive('string', (v) => typeof v === 'string');
+
+export const number = (): Schema<number> =>
+  primitive('number', (v) => typeof v === 'number' && !Number.isNaN(v));
+
+export const boolean = (): Schema<boolean> =>
+  primitive('boolean', (v) => typeof v === 'boolean');
+
+export const unknown = (): Schema<unknown> => primitive('any', () => true);
+
+export function oneOf<const T extends readonly (string | number)[]>(
+  values: T
+): Schema<T[number]> {
+  return primitive(values.map((v) => JSON.stringify(v)).join(' | '), (v) =>
+    values.includes(v as T[number])
+  );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} | undefined`,
+    check: (value, path) =>
+      value === undefined ? [] : schema.check(value, path),
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    description: `${schema.description} | null`,
+    check: (value, path) => (value === null ? [] : schema.check(value, path)),
+  };
+}
+
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  const description = `${a.description} | ${b.description}`;
+  return {
+    description,
+    check: (value, path) =>
+      a.check(value, path).length === 0 || b.check(value, path).length === 0
+        ? []
+        : [{ path, expected: description, received: describeValue(value) }],
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    check: (value, path) => {
+      if (!Array.isArray(value)) {
+        return [
+          {
+            path,
+            expected: `${item.description}[]`,
+            received: describeValue(value),
+          },
+        ];
+      }
+      return value.flatMap((v, i) => item.check(v, `${path}[${i}]`));
+    },
+  };
+}
+
+/**
+ * Object with the given fields. Unknown extra fields are allowed.
+ */
+export function object<T>(shape: Shape<T>, description = 'object'): Schema<T> {
+  return {
+    description,
+    check: (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [
+          { path, expected: description, received: describeValue(value) },
+        ];
+      }
+
+      const record = value as Record<string, unknown>;
+      return Object.entries<Schema<unknown>>(shape).flatMap(([key, schema]) =>
+        schema.check(record[key], `${path}.${key}`)
+      );
+    },
+  };
+}
+
+/**
+ * Object whose values all match `value`, e.g. maps keyed by feature name
+ */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: `Record<string, ${value.description}>`,
+    check: (input, path) => {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return [
+          {
+            path,
+            expected: `Record<string, ${value.description}>`,
+            received: describeValue(input),
+          },
+        ];
+      }
+      return Object.entries(input).flatMap(([key, v]) =>
+        value.check(v, `${path}.${key}`)
+      );
+    },
+  };
+}
+
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown
+): ValidationIssue[] {
+  return schema.check(value, '$');
+}
@@ -0,0 +1,121 @@
+import { JobChange, JobHistory } from './types/api/common';
+import { FullJobDetails } from './types/api/response/getJob';
+import {
+  JobWatchCursor,
+  JobWatchEvent,
+  JobWatchEventData,
+} from './types/client';
+
+export interface WatchSchedule {
+  pollIntervalMs: number;
+  maxPollIntervalMs: number;
+  runGraceMs: number;
+}
+
+/**
+ * Events between `cursor` and the current state of `job`, oldest first.
+ *
+ * Without a cursor, the current state becomes the baseline and nothing is
+ * reported.
+ */
+export function diffJob(
+  jobId: number | string,
+  job: FullJobDetails,
+  cursor: JobWatchCursor | undefined
+): { events: JobWatchEvent[]; cursor: JobWatchCursor } {
+  const changes = [...(job.changes ?? [])].sort(byCreated);
+  const history = [...(job.history ?? [])].sort(byCreated);
+  const latest = {
+    lastChangeAt: maxCreated(changes, cursor?.lastChangeAt ?? null),
+    lastHistoryAt: maxCreated(history, cursor?.lastHistoryAt ?? null),
+    active: job.active,
+    inProgress: job.in_progress,
+    lastRun: job.last_run ?? null,
+  };
+  if (!cursor) return { events: [], cursor: latest };
+
+  const events: JobWatchEvent[] = [];
+  let current = { ...cursor };
+  const emit = (event: JobWatchEventData, update: Partial<JobWatchCursor>) => {
+    current = { ...current, ...update };
+    events.push({ ...event, jobId, job, cursor: current });
+  };
+
+  for (const change of changes) {
+    const at = Date.parse(change.created);
+    if (isNewer(at, cursor.lastChangeAt)) {
+      emit({ type: 'change', change }, { lastChangeAt: at });
+    }
+  }
+
+  const newHistory = history.filter((entry) =>
+    isNewer(Date.parse(entry.created), cursor.lastHistoryAt)
+  );
+  for (const entry of newHistory) {
+    if (entry.error_message) {
+      emit(
+        { type: 'checkError', entry },
+        { lastHistoryAt: Date.parse(entry.created) }
+      );
+    }
+  }
+
+  // a fast run may start and finish between two polls, leaving only a new
+  // history entry or `last_run` behind
+  const lastRunMoved =
+    cursor.lastRun !== undefined && latest.lastRun !== cursor.lastRun;
+  if (
+    !job.in_progress &&
+    (cursor.inProgress || newHistory.length > 0 || lastRunMoved)
+  ) {
+    emit(
+      { type: 'runFinished', entry: newHistory[newHistory.length - 1] },
+      { inProgress: false, lastRun: latest.lastRun }
+    );
+  }
+
+  if (cursor.active && !job.active) {
+    emit({ type: 'inactive' }, { active: false });
+  }
+
+  return { events, cursor: latest };
+}
+
+/**
+ * When to poll `job` next: shortly after its `next_run`, but not sooner
+ * than `pollIntervalMs` nor later than `maxPollIntervalMs` from now
+ */
+export function nextPollAt(
+  job: FullJobDetails,
+  now: number,
+  schedule: WatchSchedule
+): number {
+  const earliest = now + schedule.pollIntervalMs;
+  const latest = now + schedule.maxPollIntervalMs;
+  const nextRun = Date.parse(job.next_run);
+
+  // a running job is polled again soon; a paused one, or one without a
+  // usable schedule, only at the slowest interval
+  if (job.in_progress || !job.active || Number.isNaN(nextRun)) {
+    return job.in_progress ? earliest : latest;
+  }
+  return Math.min(latest, Math.max(earliest, nextRun + schedule.runGraceMs));
+}
+
+function byCreated(a: { created: string }, b: { created: string }): number {
+  return Date.parse(a.created) - Date.parse(b.created);
+}
+
+function maxCreated(
+  entries: Array<JobChange | JobHistory>,
+  initial: number | null
+): number | null {
+  return entries.reduce<number | null>((max, entry) => {
+    const at = Date.parse(entry.created);
+    return Number.isNaN(at) || (max !== null && max >= at) ? max : at;
+  }, initial);
+}
+
+function isNewer(at: number, since: number | null): boolean {
+  return !Number.isNaN(at) && (since === null || at > since);
+}
@@ -0,0 +1,370 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { VisualpingWebhookError } from './error';
+import { JobMode, JobModeType } from './types/api/common';
+import {
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  union,
+  validate,
+} from './validation/schema';
+
+/**
+ * JSON body Visualping POSTs to a `webhook` notification channel when a
+ * job detects a change
+ */
+export interface VisualpingWebhookPayload {
+  job_id: number | string;
+  workspace_id?: number | null;
+  url: string;
+  description: string;
+  mode?: JobModeType;
+  /** Percentage of the page that changed, sometimes sent as a string */
+  percent_change: number | string;
+  /** ISO 8601 time of the detection */
+  detected_at: string;
+  /** AI summary of the change */
+  summary?: string | null;
+  /** Whether the change matched the job's "important" definition */
+  important?: boolean;
+  diff_url?: string | null;
+  diff_image?: string | null;
+  current_screenshot?: string | null;
+  previous_screenshot?: string | null;
+}
+
+/**
+ * Normalized change notification built from a webhook payload
+ */
+export interface WebhookChangeEvent {
+  type: 'change';
+  jobId: number | string;
+  workspaceId?: number;
+  url: string;
+  description: string;
+  mode?: JobModeType;
+  percentChange: number;
+  detectedAt: Date;
+  summary?: string;
+  important: boolean;
+  diffUrl?: string;
+  images: { diff?: string; current?: string; previous?: string };
+  /** The payload as received */
+  payload: VisualpingWebhookPayload;
+}
+
+const isoDate = (): ReturnType<typeof string> => {
+  const base = string();
+  return {
+    description: 'ISO 8601 date',
+    check: (value, path) =>
+      base.check(value, path).length > 0 ||
+      Number.isNaN(Date.parse(value as string))
+        ? [{ path, expected: 'ISO 8601 date', received: String(value) }]
+        : [],
+  };
+};
+
+const optionalString = optional(nullable(string()));
+
+const webhookPayloadSchema = object<VisualpingWebhookPayload>(
+  {
+    job_id: union(number(), string()),
+    workspace_id: optional(nullable(number())),
+    url: string(),
+    description: string(),
+    mode: optional(oneOf(Object.values(JobMode))),
+    percent_change: union(number(), string()),
+    detected_at: isoDate(),
+    summary: optionalString,
+    important: optional(boolean()),
+    diff_url: optionalString,
+    diff_image: optionalString,
+    current_screenshot: optionalString,
+    previous_screenshot: optionalString,
+  },
+  'VisualpingWebhookPayload'
+);
+
+/**
+ * Validate a webhook body and turn it into a `WebhookChangeEvent`
+ *
+ * @param body - Raw body (string or Buffer) or an already parsed object
+ * @throws VisualpingWebhookError when the body is not a valid payload
+ */
+export function parseWebhookPayload(body: unknown): WebhookChangeEvent {
+  let payload = body;
+  if (typeof body === 'string' || body instanceof Uint8Array) {
+    try {
+      payload = JSON.parse(Buffer.from(body).toString('utf8'));
+    } catch {
+      throw new VisualpingWebhookError('body is not JSON');
+    }
+  }
+
+  const issues = validate(webhookPayloadSchema, payload);
+  const p = payload as VisualpingWebhookPayload;
+  const percentChange =
+    typeof p?.percent_change === 'string' && p.percent_change.trim() === ''
+      ? NaN
+      : Number(p?.percent_change);
+  const percentChangeChecked = issues.some(
+    (issue) => issue.path === '$.percent_change'
+  );
+  if (
+    payload !== null &&
+    typeof payload === 'object' &&
+    !percentChangeChecked &&
+    !Number.isFinite(percentChange)
+  ) {
+    issues.push({
+      path: '$.percent_change',
+      expected: 'numeric percentage',
+      received: JSON.stringify(p.percent_change),
+    });
+  }
+  if (issues.length > 0) {
+    const [first] = issues;
+    throw new VisualpingWebhookError(
+      `${first.path}: expected ${first.expected}, received ${first.received}`,
+      issues
+    );
+  }
+
+  return {
+    type: 'change',
+    jobId: p.job_id,
+    workspaceId: p.workspace_id ?? undefined,
+    url: p.url,
+    description: p.description,
+    mode: p.mode,
+    percentChange,
+    detectedAt: new Date(p.detected_at),
+    summary: p.summary ?? undefined,
+    important: p.important ?? false,
+    diffUrl: p.diff_url ?? undefined,
+    images: {
+      diff: p.diff_image ?? undefined,
+      current: p.current_screenshot ?? undefined,
+      previous: p.previous_screenshot ?? undefined,
+    },
+    payload: p,
+  };
+}
+
+/**
+ * Framework-agnostic view of an incoming webhook request
+ */
+export interface WebhookRequest {
+  method?: string;
+  /** Path and query string */
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Raw body, or the object a body parser already produced */
+  body: unknown;
+}
+
+export interface WebhookResponse {
+  status: number;
+  body?: unknown;
+}
+
+export interface WebhookHandlerOptions {
+  /** Called for every valid notification. A rejection answers 500. */
+  onChange: (event: WebhookChangeEvent) => void | Promise<void>;
+
+  /**
+   * Called with invalid payloads (`VisualpingWebhookError`, answered 400)
+   * and `onChange` failures (answered 500), e.g. for logging
+   */
+  onError?: (error: unknown, request: WebhookRequest) => void;
+
+  /**
+   * Reject requests without a shared secret, e.g. a token in the
+   * configured webhook URL. Answers 401 when it returns `false`.
+   */
+  authorize?: (request: WebhookRequest) => boolean;
+
+  /**
+   * Largest accepted body for the `node:http` handler
+   * @default 1048576 (1 MiB)
+   */
+  maxBodyBytes?: number;
+}
+
+export interface WebhookHandler {
+  /** `node:http` handler; also usable as an Express route handler */
+  (req: IncomingMessage, res: ServerResponse): Promise<void>;
+
+  /** Core handler for other frameworks, e.g. Fastify */
+  handle(request: WebhookRequest): Promise<WebhookResponse>;
+}
+
+/**
+ * Receive Visualping webhook notifications.
+ *
+ * @example
+ * ```ts
+ * const webhook = createWebhookHandler({
+ *   onChange: (event) => console.log(event.url, event.percentChange),
+ * });
+ *
+ * // node:http
+ * http.createServer(webhook).listen(3000);
+ *
+ * // Express - works with or without express.json()
+ * app.post('/visualping', webhook);
+ *
+ * // Fastify
+ * fastify.post('/visualping', async (request, reply) => {
+ *   const { status, body } = await webhook.handle(request);
+ *   reply.code(status).send(body);
+ * });
+ * ```
+ */
+export function createWebhookHandler(
+  options: WebhookHandlerOptions
+): WebhookHandler {
+  const maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
+
+  const handle = async (request: WebhookRequest): Promise<WebhookResponse> => {
+    if (request.method && request.method.toUpperCase() !== 'POST') {
+      return { status: 405, body: { error: 'Method Not Allowed' } };
+    }
+    if (options.authorize && !options.authorize(request)) {
+      return { status: 401, body: { error: 'Unauthorized' } };
+    }
+
+    let event: WebhookChangeEvent;
+    try {
+      event = parseWebhookPayload(request.body);
+    } catch (err) {
+      if (!(err instanceof VisualpingWebhookError)) throw err;
+      options.onError?.(err, request);
+      return {
+        status: 400,
+        body: { error: err.message, issues: err.issues },
+      };
+    }
+
+    try {
+      await options.onChange(event);
+    } catch (err) {
+      options.onError?.(err, request);
+      // let Visualping retry the delivery
+      return { status: 500, body: { error: 'Handler failed' } };
+    }
+    return { status: 204 };
+  };
+
+  const nodeHandler = async (req: IncomingMessage, res: ServerResponse) => {
+    let response: WebhookResponse | undefined;
+
+    try {
+      // body parsers (e.g. express.json()) leave the parsed body on `req.body`
+      let body = (req as IncomingMessage & { body?: unknown }).body;
+      if (body === undefined) {
+        try {
+          body = await readBody(req, maxBodyBytes);
+        } catch (err) {
+          // the client aborted or the stream broke mid-upload
+          throw new VisualpingWebhookError(
+            `could not read body: ${err instanceof Error ? err.message : String(err)}`
+          );
+        }
+        if (body === null) {
+          response = { status: 413, body: { error: 'Payload Too Large' } };
+          // the rest of the body is never read - drop the connection once
+          // the answer is out
+          res.setHeader('Connection', 'close');
+          res.once('finish', () => req.destroy());
+        }
+      }
+      response ??= await handle({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body,
+      });
+    } catch (err) {
+      const request = {
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: undefined,
+      };
+      try {
+        options.onError?.(err, request);
+      } catch {
+        // a failing logger must not take the server down
+      }
+      response =
+        err instanceof VisualpingWebhookError
+          ? { status: 400, body: { error: err.message } }
+          : { status: 500, body: { error: 'Handler failed' } };
+    }
+
+    if (res.headersSent || res.writableEnded || res.destroyed) return;
+    res.statusCode = response.status;
+    if (response.body === undefined) {
+      res.end();
+    } else {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(response.body));
+    }
+  };
+
+  return Object.assign(nodeHandler, { handle });
+}
+
+/**
+ * Read the whole body, or `null` once it exceeds `maxBytes`. Reading stops
+ * there; the caller answers and then destroys the request.
+ */
+function readBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const cleanup = () => {
+      req.off('data', onData);
+      req.off('end', onEnd);
+      req.off('error', onError);
+      req.off('close', onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        cleanup();
+        req.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('aborted'));
+    };
+
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', onError);
+    req.on('close', onClose);
+  });
+}
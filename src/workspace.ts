@@ -0,0 +1,339 @@
+import { VisualpingClient } from './client';
+import { ConsumptionForecast } from './consumption';
+import { VisualpingError } from './error';
+import { JobValidationOptions, JobViolation } from './jobValidation';
+import { MinimalJob } from './types/api/common';
+import { CreateJobRequest } from './types/api/request/createJob';
+import {
+  GetJobsParams,
+  OutputMode,
+  OutputModeType,
+} from './types/api/request/getJobs';
+import { UpdateJobRequest } from './types/api/request/updateJob';
+import { CreatedJobResult } from './types/api/response/createJob';
+import { DeleteJobResult } from './types/api/response/deleteJob';
+import { Workspace } from './types/api/response/describeUser';
+import { FullJobDetails } from './types/api/response/getJob';
+import {
+  JobsCountsOnlyResponse,
+  JobsIdsAndWsIdsResponse,
+  JobsIdsOnlyResponse,
+  JobsNormalResponse,
+} from './types/api/response/getJobs';
+import { UpdateJobDetails } from './types/api/response/updateJob';
+import {
+  BulkOptions,
+  BulkReport,
+  BulkUpdateReport,
+  CallOptions,
+  ConsumptionParams,
+  JobExportParams,
+  JobImportParams,
+  JobPatchFn,
+  JobRef,
+  JobWatchEvent,
+  PaginationOptions,
+  WatchOptions,
+  WorkspaceClientOptions,
+} from './types/client';
+
+/**
+ * A request type without the IDs the facade injects
+ */
+export type WorkspaceScoped<T> = Omit<T, 'workspaceId' | 'organisationId'>;
+
+type JobsResponseFor<M> = M extends typeof OutputMode.IDS_ONLY
+  ? JobsIdsOnlyResponse
+  : M extends typeof OutputMode.IDS_AND_WS_IDS
+    ? JobsIdsAndWsIdsResponse
+    : M extends typeof OutputMode.COUNTS_ONLY
+      ? JobsCountsOnlyResponse
+      : JobsNormalResponse;
+
+type JobItemFor<M> = M extends typeof OutputMode.IDS_ONLY
+  ? number
+  : M extends typeof OutputMode.IDS_AND_WS_IDS
+    ? JobRef
+    : MinimalJob;
+
+type ScopedJobsParams = Omit<GetJobsParams, 'workspaceId' | 'pageIndex'>;
+
+/**
+ * The client's job methods bound to one workspace, from
+ * `client.workspace(id)`.
+ *
+ * `workspaceId` is added to every call, and `organisationId` to every
+ * update, so business accounts can't forget either.
+ *
+ * @example
+ * ```ts
+ * const marketing = client.workspace(10);
+ * const jobs = await marketing.getAllJobs();
+ * await marketing.updateJob(jobs[0].id, { interval: '60' });
+ * ```
+ */
+export class WorkspaceClient {
+  readonly workspaceId: number;
+  private client: VisualpingClient;
+  private options: WorkspaceClientOptions;
+  private organisation: Promise<number | undefined> | null = null;
+
+  constructor(
+    client: VisualpingClient,
+    workspaceId: number,
+    options: WorkspaceClientOptions = {}
+  ) {
+    this.client = client;
+    this.workspaceId = workspaceId;
+    this.options = options;
+  }
+
+  /**
+   * Details, plan features and counts of this workspace
+   *
+   * @throws VisualpingError when the user has no access to the workspace
+   */
+  async getWorkspace(options?: CallOptions): Promise<Workspace> {
+    const workspaces = await this.client.getWorkspaces(options);
+    const workspace = workspaces.find((ws) => ws.id === this.workspaceId);
+    if (!workspace) {
+      throw new VisualpingError(
+        `Workspace ${this.workspaceId} is not available to this user`
+      );
+    }
+    return workspace;
+  }
+
+  /**
+   * Organisation ID sent with updates: the configured one, else the
+   * user's organisation from `describeUser()`, fetched once
+   */
+  async getOrganisationId(options?: CallOptions): Promise<number | undefined> {
+    if (this.options.organisationId !== undefined) {
+      return this.options.organisationId;
+    }
+
+    this.organisation ??= this.client.describeUser(options).then(
+      (user) => user.organisation?.id,
+      (err) => {
+        this.organisation = null;
+        throw err;
+      }
+    );
+    return this.organisation;
+  }
+
+  /** See `VisualpingClient.getJobs` */
+  async getJobs<M extends OutputModeType | undefined = undefined>(
+    params: Omit<GetJobsParams, 'workspaceId'> & { mode?: M } = {},
+    options?: CallOptions
+  ): Promise<JobsResponseFor<M>> {
+    return this.client.getJobs(
+      this.scope(params) as GetJobsParams & { mode: undefined },
+      options
+    ) as Promise<JobsResponseFor<M>>;
+  }
+
+  /** See `VisualpingClient.getAllJobs` */
+  async getAllJobs(
+    params: Omit<ScopedJobsParams, 'mode'> = {},
+    options?: PaginationOptions
+  ): Promise<MinimalJob[]> {
+    return this.client.getAllJobs(this.scope(params), options);
+  }
+
+  /** See `VisualpingClient.iterateJobPages` */
+  iterateJobPages<M extends OutputModeType | undefined = undefined>(
+    params: ScopedJobsParams & { mode?: M } = {},
+    options?: PaginationOptions
+  ): AsyncGenerator<JobsResponseFor<M>, void, undefined> {
+    return this.client.iterateJobPages(
+      this.scope(params) as ScopedJobsParams & { mode: undefined },
+      options
+    ) as AsyncGenerator<JobsResponseFor<M>, void, undefined>;
+  }
+
+  /** See `VisualpingClient.iterateJobs` */
+  iterateJobs<
+    M extends
+      | Exclude<OutputModeType, typeof OutputMode.COUNTS_ONLY>
+      | undefined = undefined,
+  >(
+    params: ScopedJobsParams & { mode?: M } = {},
+    options?: PaginationOptions
+  ): AsyncGenerator<JobItemFor<M>, void, undefined> {
+    return this.client.iterateJobs(
+      this.scope(params) as ScopedJobsParams & { mode: undefined },
+      options
+    ) as AsyncGenerator<JobItemFor<M>, void, undefined>;
+  }
+
+  /** See `VisualpingClient.getJob` */
+  async getJob(
+    jobId: number | string,
+    options?: CallOptions
+  ): Promise<FullJobDetails> {
+    return this.client.getJob(jobId, this.workspaceId, options);
+  }
+
+  /** See `VisualpingClient.createJob` */
+  async createJob(
+    jobData: WorkspaceScoped<CreateJobRequest>,
+    options?: CallOptions
+  ): Promise<CreatedJobResult> {
+    return this.client.createJob(this.scope(jobData), options);
+  }
+
+  /** See `VisualpingClient.updateJob` */
+  async updateJob(
+    jobId: number | string,
+    jobData: WorkspaceScoped<UpdateJobRequest>,
+    options?: CallOptions
+  ): Promise<UpdateJobDetails> {
+    return this.client.updateJob(
+      jobId,
+      await this.scopeUpdate(jobData, options),
+      options
+    );
+  }
+
+  /** See `VisualpingClient.deleteJob` */
+  async deleteJob(
+    jobId: number | string,
+    options?: CallOptions
+  ): Promise<DeleteJobResult> {
+    return this.client.deleteJob(jobId, this.workspaceId, options);
+  }
+
+  /** See `VisualpingClient.watchJobs` */
+  watchJobs(
+    target: Array<number | string> | Omit<ScopedJobsParams, 'mode'>,
+    options: Omit<WatchOptions, 'workspaceId'> = {}
+  ): AsyncGenerator<JobWatchEvent, void, undefined> {
+    return this.client.watchJobs(
+      Array.isArray(target) ? target : this.scope(target),
+      { ...options, workspaceId: this.workspaceId }
+    );
+  }
+
+  /** See `VisualpingClient.watchJob` */
+  watchJob(
+    jobId: number | string,
+    options?: Omit<WatchOptions, 'workspaceId'>
+  ): AsyncGenerator<JobWatchEvent, void, undefined> {
+    return this.client.watchJob(jobId, this.workspaceId, options);
+  }
+
+  /** See `VisualpingClient.validateJob` */
+  async validateJob(
+    job: WorkspaceScoped<CreateJobRequest> | WorkspaceScoped<UpdateJobRequest>,
+    params: Pick<JobValidationOptions, 'update'> = {},
+    options?: CallOptions
+  ): Promise<JobViolation[]> {
+    return this.client.validateJob(this.scope(job), params, options);
+  }
+
+  /** See `VisualpingClient.estimateConsumption` */
+  async estimateConsumption(
+    changes:
+      | WorkspaceScoped<CreateJobRequest>
+      | Array<
+          | WorkspaceScoped<CreateJobRequest>
+          | (WorkspaceScoped<UpdateJobRequest> & { jobId: number })
+        >
+      | (WorkspaceScoped<UpdateJobRequest> & { jobId: number }),
+    params: Omit<ConsumptionParams, 'workspaceId'> = {},
+    options?: CallOptions
+  ): Promise<ConsumptionForecast> {
+    const list = Array.isArray(changes) ? changes : [changes];
+    return this.client.estimateConsumption(
+      list.map((change) => this.scope(change)),
+      { ...params, workspaceId: this.workspaceId },
+      options
+    );
+  }
+
+  /** See `VisualpingClient.pauseJobs` */
+  async pauseJobs(
+    jobIds: Array<number | string>,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport> {
+    return this.updateJobs(jobIds, { active: false }, options);
+  }
+
+  /** See `VisualpingClient.resumeJobs` */
+  async resumeJobs(
+    jobIds: Array<number | string>,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport> {
+    return this.updateJobs(jobIds, { active: true }, options);
+  }
+
+  /**
+   * See `VisualpingClient.updateJobs`. Patches, including the ones returned
+   * by a patch function, are scoped to this workspace.
+   */
+  async updateJobs(
+    jobIds: Array<number | string>,
+    patch: WorkspaceScoped<UpdateJobRequest> | JobPatchFn,
+    options?: BulkOptions
+  ): Promise<BulkUpdateReport> {
+    const organisationId = await this.getOrganisationId(options);
+    const scoped: JobPatchFn = async (jobId) => {
+      const job = typeof patch === 'function' ? await patch(jobId) : patch;
+      return job && { ...job, workspaceId: this.workspaceId, organisationId };
+    };
+    return this.client.updateJobs(jobIds, scoped, options);
+  }
+
+  /** See `VisualpingClient.deleteJobs` */
+  async deleteJobs(
+    jobIds: Array<number | string>,
+    options?: BulkOptions
+  ): Promise<BulkReport<DeleteJobResult>> {
+    return this.client.deleteJobs(jobIds, this.workspaceId, options);
+  }
+
+  /** See `VisualpingClient.exportJobs` */
+  async exportJobs(
+    params: Omit<JobExportParams, 'workspaceId'> = {},
+    options?: BulkOptions
+  ): Promise<string> {
+    return this.client.exportJobs(this.scope(params), options);
+  }
+
+  /** See `VisualpingClient.importJobs`; jobs are imported into this workspace */
+  async importJobs(
+    file: string,
+    params: Omit<JobImportParams, 'targetWorkspaceId' | 'organisationId'> = {},
+    options?: BulkOptions
+  ): Promise<BulkReport<CreatedJobResult | UpdateJobDetails>> {
+    return this.client.importJobs(
+      file,
+      {
+        ...params,
+        targetWorkspaceId: this.workspaceId,
+        organisationId:
+          params.conflict === 'update'
+            ? await this.getOrganisationId(options)
+            : undefined,
+      },
+      options
+    );
+  }
+
+  private scope<T extends object>(params: T): T & { workspaceId: number } {
+    return { ...params, workspaceId: this.workspaceId };
+  }
+
+  private async scopeUpdate(
+    jobData: WorkspaceScoped<UpdateJobRequest>,
+    options?: CallOptions
+  ): Promise<UpdateJobRequest> {
+    return {
+      ...jobData,
+      workspaceId: this.workspaceId,
+      organisationId: await this.getOrganisationId(options),
+    };
+  }
+}
@@ -0,0 +1,235 @@
+import { VisualpingError } from './error';
+
+type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Minimal YAML support for job backups - enough to write JSON-compatible
+ * values and read them back, including files edited by hand. Anchors,
+ * tags, multi-documents and block scalars (`|`, `>`) are not supported.
+ */
+
+export function toYaml(value: unknown): string {
+  return emit(value, 0) + '\n';
+}
+
+function emit(value: unknown, indent: number): string {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]`;
+    return value
+      .map((item) =>
+        isBlock(item)
+          ? // render at the item's indent, then put the dash in front
+            `${pad}- ${emit(item, indent + 2).slice(indent + 2)}`
+          : `${pad}- ${scalar(item)}`
+      )
+      .join('\n');
+  }
+
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return `${pad}{}`;
+    return entries
+      .map(([key, v]) =>
+        isBlock(v)
+          ? `${pad}${yamlKey(key)}:\n${emit(v, indent + 2)}`
+          : `${pad}${yamlKey(key)}: ${scalar(v)}`
+      )
+      .join('\n');
+  }
+
+  return `${pad}${scalar(value)}`;
+}
+
+function scalar(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (isObject(value)) return '{}';
+  if (value === null || value === undefined) return 'null';
+  // double-quoted YAML strings accept JSON escapes
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Non-empty collections are written as nested blocks */
+function isBlock(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length > 0
+    : isObject(value) && Object.values(value).some((v) => v !== undefined);
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  /** 1-based, for error messages */
+  number: number;
+}
+
+/**
+ * @throws VisualpingError on syntax this parser doesn't understand
+ */
+export function fromYaml(source: string): JsonValue {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const text = raw.trimEnd();
+    const trimmed = text.trimStart();
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed === '---') return;
+    if (/^\t/.test(text)) throw syntaxError(i + 1, 'tabs are not allowed');
+    lines.push({
+      indent: text.length - trimmed.length,
+      text: trimmed,
+      number: i + 1,
+    });
+  });
+
+  if (lines.length === 0) return null;
+  let pos = 0;
+
+  const parseNode = (indent: number): JsonValue => {
+    const line = lines[pos];
+    if (isSequenceItem(line.text)) return parseSequence(indent);
+    if (splitKey(line) === null) {
+      pos += 1;
+      return parseScalar(line.text, line.number);
+    }
+    return parseMapping(indent);
+  };
+
+  const parseSequence = (indent: number): JsonValue[] => {
+    const out: JsonValue[] = [];
+    while (
+      pos < lines.length &&
+      lines[pos].indent === indent &&
+      isSequenceItem(lines[pos].text)
+    ) {
+      const line = lines[pos];
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        pos += 1;
+        out.push(nested(indent));
+      } else {
+        // "- key: value" - the item's content starts after the dash
+        const offset = line.text.length - rest.length;
+        lines[pos] = { ...line, indent: indent + offset, text: rest };
+        out.push(parseNode(indent + offset));
+      }
+    }
+    return out;
+  };
+
+  const parseMapping = (indent: number): { [key: string]: JsonValue } => {
+    const out: { [key: string]: JsonValue } = {};
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const line = lines[pos];
+      const entry = isSequenceItem(line.text) ? null : splitKey(line);
+      if (entry === null) {
+        throw syntaxError(line.number, `expected "key: value"`);
+      }
+      pos += 1;
+
+      const [key, value] = entry;
+      if (value !== '') {
+        out[key] = parseScalar(value, line.number);
+      } else if (
+        // "key:" followed by a sequence at the same indent
+        pos < lines.length &&
+        lines[pos].indent === indent &&
+        isSequenceItem(lines[pos].text)
+      ) {
+        out[key] = parseSequence(indent);
+      } else {
+        out[key] = nested(indent);
+      }
+    }
+    if (pos < lines.length && lines[pos].indent > indent) {
+      throw syntaxError(lines[pos].number, 'unexpected indentation');
+    }
+    return out;
+  };
+
+  /** The block indented under the current line, or null when empty */
+  const nested = (indent: number): JsonValue =>
+    pos < lines.length && lines[pos].indent > indent
+      ? parseNode(lines[pos].indent)
+      : null;
+
+  const value = parseNode(lines[0].indent);
+  if (pos < lines.length) {
+    throw syntaxError(lines[pos].number, 'unexpected content');
+  }
+  return value;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Split "key: value" into its key and (possibly empty) value
+ */
+function splitKey(line: Line): [string, string] | null {
+  const { text } = line;
+
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+|$)/.exec(text);
+    if (!match) return null;
+    const key = parseScalar(match[1], line.number);
+    return [String(key), text.slice(match[0].length).trim()];
+  }
+
+  const match = /^([^\s#{}[\],][^:#]*?)\s*:(?:\s+|$)/.exec(text);
+  if (!match) return null;
+  return [match[1], text.slice(match[0].length).trim()];
+}
+
+function parseScalar(text: string, lineNumber: number): JsonValue {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw syntaxError(lineNumber, 'invalid double-quoted string');
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) {
+      throw syntaxError(lineNumber, 'invalid single-quoted string');
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw syntaxError(
+        lineNumber,
+        'only JSON-style flow collections are supported'
+      );
+    }
+  }
+
+  // plain scalars may carry a trailing comment
+  const plain = text.replace(/\s+#.*$/, '');
+  if (plain === 'null' || plain === '~') return null;
+  if (plain === 'true') return true;
+  if (plain === 'false') return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(plain))
+    return Number(plain);
+  return plain;
+}
+
+function syntaxError(lineNumber: number, message: string): VisualpingError {
+  return new VisualpingError(`Invalid YAML at line ${lineNumber}: ${message}`);
+}